@@ -0,0 +1,74 @@
+-- Upgrades a database from before user accounts without losing its data.
+-- Saved and seen papers, collections, notes and highlights are handed to a
+-- placeholder owner, which the first account to register or sign in takes
+-- over. Run once, before `npx prisma db push`:
+--
+--   npx prisma db execute --file prisma/upgrades/add-users.sql --schema prisma/schema.prisma
+
+BEGIN;
+
+-- Tables added shortly before accounts, so that every install can be altered alike
+CREATE TABLE IF NOT EXISTS "Collection" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "Note" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "paperId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Note_paperId_fkey" FOREIGN KEY ("paperId") REFERENCES "Paper" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS "Highlight" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "paperId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "start" INTEGER NOT NULL,
+    "end" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Highlight_paperId_fkey" FOREIGN KEY ("paperId") REFERENCES "Paper" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+CREATE TABLE "User" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "passwordHash" TEXT,
+    "provider" TEXT NOT NULL DEFAULT 'local',
+    "providerId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+CREATE UNIQUE INDEX "User_provider_providerId_key" ON "User"("provider", "providerId");
+
+-- No password, so nobody can sign in as it before it is claimed
+INSERT INTO "User" ("id", "email", "provider", "updatedAt")
+VALUES ('legacy-owner', 'legacy-owner@invalid', 'legacy', CURRENT_TIMESTAMP);
+
+ALTER TABLE "SavedPaper" ADD COLUMN "userId" TEXT NOT NULL DEFAULT 'legacy-owner';
+ALTER TABLE "SeenPaper" ADD COLUMN "userId" TEXT NOT NULL DEFAULT 'legacy-owner';
+ALTER TABLE "Collection" ADD COLUMN "userId" TEXT NOT NULL DEFAULT 'legacy-owner';
+ALTER TABLE "Note" ADD COLUMN "userId" TEXT NOT NULL DEFAULT 'legacy-owner';
+ALTER TABLE "Highlight" ADD COLUMN "userId" TEXT NOT NULL DEFAULT 'legacy-owner';
+
+-- The per-user indexes, so that db push has no constraint left to add over existing rows
+DROP INDEX IF EXISTS "SavedPaper_paperId_key";
+CREATE UNIQUE INDEX "SavedPaper_userId_paperId_key" ON "SavedPaper"("userId", "paperId");
+DROP INDEX IF EXISTS "SeenPaper_paperId_key";
+CREATE UNIQUE INDEX "SeenPaper_userId_paperId_key" ON "SeenPaper"("userId", "paperId");
+CREATE INDEX "Collection_userId_idx" ON "Collection"("userId");
+DROP INDEX IF EXISTS "Note_paperId_idx";
+CREATE INDEX "Note_userId_paperId_idx" ON "Note"("userId", "paperId");
+DROP INDEX IF EXISTS "Highlight_paperId_idx";
+CREATE INDEX "Highlight_userId_paperId_idx" ON "Highlight"("userId", "paperId");
+
+COMMIT;
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AccountConflictError, createSession, getAuthProvider } from "@/services/auth";
+import { setSessionCookie } from "@/lib/session";
+
+// Body: { provider?: string, ...credentials }. Defaults to the local
+// email/password provider.
+export async function POST(request: NextRequest) {
+  try {
+    const { provider: providerName = "local", ...credentials } = await request.json();
+
+    const provider = getAuthProvider(providerName);
+    if (!provider) {
+      return NextResponse.json(
+        { error: `Sign-in provider "${providerName}" is not enabled` },
+        { status: 400 }
+      );
+    }
+
+    const user = await provider.authenticate({
+      credentials,
+      headers: request.headers,
+    });
+    if (!user) {
+      return NextResponse.json(
+        { error: "Invalid credentials" },
+        { status: 401 }
+      );
+    }
+
+    const { token, expiresAt } = await createSession(user.id);
+    await setSessionCookie(token, expiresAt);
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    if (error instanceof AccountConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Login error:", error);
+    return NextResponse.json(
+      { error: "Failed to sign in" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { deleteSession } from "@/services/auth";
+import { clearSessionCookie, getSessionToken } from "@/lib/session";
+
+export async function POST() {
+  try {
+    const token = await getSessionToken();
+    if (token) {
+      await deleteSession(token);
+    }
+    await clearSessionCookie();
+
+    return NextResponse.json({ signedOut: true });
+  } catch (error) {
+    console.error("Logout error:", error);
+    return NextResponse.json(
+      { error: "Failed to sign out" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/session";
+import { getEnabledAuthProviders, isRegistrationEnabled } from "@/services/auth";
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+
+    // Tell the sign-in screen which options to offer when signed out
+    if (!user) {
+      return NextResponse.json(
+        {
+          error: "Not signed in",
+          providers: getEnabledAuthProviders(),
+          registrationEnabled: isRegistrationEnabled(),
+        },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error("Get current user error:", error);
+    return NextResponse.json(
+      { error: "Failed to get current user" },
+      { status: 500 }
+    );
+  }
+}
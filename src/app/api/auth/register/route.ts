@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AccountConflictError,
+  createLocalUser,
+  createSession,
+  getUserByEmail,
+  isRegistrationEnabled,
+  MIN_PASSWORD_LENGTH,
+} from "@/services/auth";
+import { setSessionCookie } from "@/lib/session";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isRegistrationEnabled()) {
+      return NextResponse.json(
+        { error: "Registration is disabled" },
+        { status: 403 }
+      );
+    }
+
+    const { email, password, name } = await request.json();
+
+    if (typeof email !== "string" || !EMAIL_PATTERN.test(email.trim())) {
+      return NextResponse.json(
+        { error: "A valid email is required" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (await getUserByEmail(email)) {
+      return NextResponse.json(
+        { error: "An account with this email already exists" },
+        { status: 409 }
+      );
+    }
+
+    const user = await createLocalUser(
+      email,
+      password,
+      typeof name === "string" ? name.trim() : null
+    );
+    const { token, expiresAt } = await createSession(user.id);
+    await setSessionCookie(token, expiresAt);
+
+    return NextResponse.json({ user }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccountConflictError) {
+      return NextResponse.json(
+        { error: "An account with this email already exists" },
+        { status: 409 }
+      );
+    }
+    console.error("Register error:", error);
+    return NextResponse.json(
+      { error: "Failed to create account" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthor, backfillAuthorPapers } from "@/services/authors";
+import { ArxivError } from "@/services/arxivClient";
+import { getCurrentUser } from "@/lib/session";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await getAuthor(user.id, id))) {
+      return NextResponse.json({ error: "Author not found" }, { status: 404 });
+    }
+
+    const added = await backfillAuthorPapers(id);
+    const author = await getAuthor(user.id, id);
+
+    return NextResponse.json({ author, added });
+  } catch (error) {
+    if (error instanceof ArxivError) {
+      console.warn("Author backfill error from arXiv:", error.message);
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Author backfill error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch papers from arXiv" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getAuthor,
+  followAuthor,
+  unfollowAuthor,
+  backfillAuthorPapers,
+} from "@/services/authors";
+import { getCurrentUser } from "@/lib/session";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await getAuthor(user.id, id))) {
+      return NextResponse.json({ error: "Author not found" }, { status: 404 });
+    }
+
+    await followAuthor(user.id, id);
+
+    // Bring in their recent papers so the feed has something to boost
+    try {
+      await backfillAuthorPapers(id);
+    } catch (backfillError) {
+      console.warn("Author backfill after follow failed:", backfillError);
+    }
+
+    return NextResponse.json({ author: await getAuthor(user.id, id) });
+  } catch (error) {
+    console.error("Follow author error:", error);
+    return NextResponse.json(
+      { error: "Failed to follow author" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    await unfollowAuthor(user.id, id);
+
+    const author = await getAuthor(user.id, id);
+    if (!author) {
+      return NextResponse.json({ error: "Author not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ author });
+  } catch (error) {
+    console.error("Unfollow author error:", error);
+    return NextResponse.json(
+      { error: "Failed to unfollow author" },
+      { status: 500 }
+    );
+  }
+}
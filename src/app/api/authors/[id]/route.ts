@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthor, getAuthorPapers } from "@/services/authors";
+import { getCurrentUser } from "@/lib/session";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const cursor = searchParams.get("cursor") || undefined;
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20") || 20, 100);
+
+    const author = await getAuthor(user.id, id);
+    if (!author) {
+      return NextResponse.json({ error: "Author not found" }, { status: 404 });
+    }
+
+    const { papers, nextCursor } = await getAuthorPapers(id, cursor, limit);
+
+    return NextResponse.json({
+      author,
+      papers,
+      nextCursor,
+      hasMore: !!nextCursor,
+    });
+  } catch (error) {
+    console.error("Get author error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch author" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findAuthorByName, listFollowedAuthors } from "@/services/authors";
+import { getCurrentUser } from "@/lib/session";
+
+// With `name`, looks up that author; without it, lists the authors the user follows
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const name = request.nextUrl.searchParams.get("name")?.trim();
+    if (!name) {
+      const authors = await listFollowedAuthors(user.id);
+      return NextResponse.json({ authors });
+    }
+
+    const author = await findAuthorByName(user.id, name);
+    if (!author) {
+      return NextResponse.json({ error: "Author not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ author });
+  } catch (error) {
+    console.error("Authors error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch authors" },
+      { status: 500 }
+    );
+  }
+}
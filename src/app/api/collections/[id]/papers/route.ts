@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getCollection,
+  addPaperToCollection,
+  removePaperFromCollection,
+} from "@/services/collections";
+import { getPaperById } from "@/services/papers";
+import { getCurrentUser } from "@/lib/session";
+
+// Adds a paper to the collection, or updates its note if it is already there
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { paperId, note } = await request.json();
+
+    if (!paperId) {
+      return NextResponse.json(
+        { error: "Paper ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (note !== undefined && note !== null && typeof note !== "string") {
+      return NextResponse.json(
+        { error: "Note must be a string" },
+        { status: 400 }
+      );
+    }
+
+    const [collection, paper] = await Promise.all([
+      getCollection(user.id, id),
+      getPaperById(paperId),
+    ]);
+    if (!collection) {
+      return NextResponse.json({ error: "Collection not found" }, { status: 404 });
+    }
+    if (!paper) {
+      return NextResponse.json({ error: "Paper not found" }, { status: 404 });
+    }
+
+    const membership = await addPaperToCollection(
+      id,
+      paperId,
+      typeof note === "string" ? note.trim() : note
+    );
+
+    return NextResponse.json({ membership });
+  } catch (error) {
+    console.error("Add to collection error:", error);
+    return NextResponse.json(
+      { error: "Failed to add paper to collection" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const paperId = request.nextUrl.searchParams.get("paperId");
+
+    if (!paperId) {
+      return NextResponse.json(
+        { error: "Paper ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getCollection(user.id, id))) {
+      return NextResponse.json({ error: "Collection not found" }, { status: 404 });
+    }
+
+    await removePaperFromCollection(id, paperId);
+    return NextResponse.json({ removed: true });
+  } catch (error) {
+    console.error("Remove from collection error:", error);
+    return NextResponse.json(
+      { error: "Failed to remove paper from collection" },
+      { status: 500 }
+    );
+  }
+}
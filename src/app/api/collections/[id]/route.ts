@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getCollection,
+  getCollectionPapers,
+  updateCollection,
+  deleteCollection,
+} from "@/services/collections";
+import { getCurrentUser } from "@/lib/session";
+
+const MAX_NAME_LENGTH = 100;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const cursor = searchParams.get("cursor") || undefined;
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20") || 20, 100);
+
+    const collection = await getCollection(user.id, id);
+    if (!collection) {
+      return NextResponse.json({ error: "Collection not found" }, { status: 404 });
+    }
+
+    const { papers, nextCursor } = await getCollectionPapers(id, cursor, limit);
+
+    return NextResponse.json({
+      collection,
+      papers,
+      nextCursor,
+      hasMore: !!nextCursor,
+    });
+  } catch (error) {
+    console.error("Get collection error:", error);
+    return NextResponse.json(
+      { error: "Failed to get collection" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { name, description } = await request.json();
+
+    if (name !== undefined && (typeof name !== "string" || !name.trim())) {
+      return NextResponse.json(
+        { error: "Collection name cannot be empty" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof name === "string" && name.trim().length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Collection name must be at most ${MAX_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getCollection(user.id, id))) {
+      return NextResponse.json({ error: "Collection not found" }, { status: 404 });
+    }
+
+    const collection = await updateCollection(id, {
+      name: typeof name === "string" ? name.trim() : undefined,
+      description:
+        description === undefined
+          ? undefined
+          : typeof description === "string" && description.trim()
+            ? description.trim()
+            : null,
+    });
+
+    return NextResponse.json({ collection });
+  } catch (error) {
+    console.error("Update collection error:", error);
+    return NextResponse.json(
+      { error: "Failed to update collection" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    await deleteCollection(user.id, id);
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error("Delete collection error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete collection" },
+      { status: 500 }
+    );
+  }
+}
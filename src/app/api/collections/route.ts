@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  listCollections,
+  createCollection,
+  getPaperMemberships,
+} from "@/services/collections";
+import { getCurrentUser } from "@/lib/session";
+
+const MAX_NAME_LENGTH = 100;
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const paperId = request.nextUrl.searchParams.get("paperId");
+
+    const collections = await listCollections(user.id);
+    // When asked about a specific paper, include which collections it is in
+    const memberships = paperId ? await getPaperMemberships(user.id, paperId) : undefined;
+
+    return NextResponse.json({ collections, memberships });
+  } catch (error) {
+    console.error("List collections error:", error);
+    return NextResponse.json(
+      { error: "Failed to list collections" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { name, description } = await request.json();
+
+    if (!name || typeof name !== "string" || !name.trim()) {
+      return NextResponse.json(
+        { error: "Collection name is required" },
+        { status: 400 }
+      );
+    }
+
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Collection name must be at most ${MAX_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const collection = await createCollection(
+      user.id,
+      name.trim(),
+      typeof description === "string" ? description.trim() : null
+    );
+
+    return NextResponse.json({ collection }, { status: 201 });
+  } catch (error) {
+    console.error("Create collection error:", error);
+    return NextResponse.json(
+      { error: "Failed to create collection" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
-import { generateDeepSummary, isAIConfigured } from "@/services/ai";
+import { eventStreamResponse } from "@/lib/sse";
+import { AIError, generateDeepSummary, isAIConfigured } from "@/services/ai";
+import { getContextTokenBudget, getPaperFullText, selectSections } from "@/services/fulltext";
 import { getPaperById, updatePaperDeepSummary } from "@/services/papers";
+import { DeepSummary, Paper } from "@/types";
 
+/**
+ * Generate (or return the cached) deep dive for a paper. With `stream: true`
+ * a new deep dive is sent as server-sent events instead: "partial" with the
+ * sections written so far ("reset" when a rejected response is generated
+ * again), then "done" with the paper, or "error".
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { paperId } = await request.json();
+    const { paperId, regenerate, stream } = await request.json();
 
     if (!paperId) {
       return NextResponse.json(
@@ -25,32 +34,39 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Paper not found" }, { status: 404 });
     }
 
-    // Return cached deep summary if available
-    if (paper.deepSummary) {
+    // Return cached deep summary if available; one written for an older
+    // abstract is only replaced on request
+    if (paper.deepSummary && !(regenerate && paper.deepSummaryStale)) {
       return NextResponse.json({
         paper,
         cached: true,
       });
     }
 
-    // Generate deep summary
-    const deepSummary = await generateDeepSummary(
-      {
-        arxivId: paper.arxivId,
-        title: paper.title,
-        authors: paper.authors,
-        abstract: paper.abstract,
-        categories: paper.categories,
-        publishedDate: paper.publishedDate,
-        pdfUrl: paper.pdfUrl,
-      },
-      paper.figures || []
-    );
-
-    const updatedPaper = await updatePaperDeepSummary(paper.id, deepSummary);
+    if (stream) {
+      return eventStreamResponse(
+        async (send) => {
+          const updatedPaper = await generate(
+            paper,
+            (partial) => send("partial", { deepSummary: partial }),
+            () => send("reset", {})
+          );
+          send("done", { paper: updatedPaper, cached: false });
+        },
+        (error) => {
+          console.error("Deep summary error:", error);
+          return { error: error instanceof AIError ? error.message : "Failed to generate deep summary" };
+        }
+      );
+    }
 
+    const updatedPaper = await generate(paper);
     return NextResponse.json({ paper: updatedPaper, cached: false });
   } catch (error) {
+    if (error instanceof AIError) {
+      console.warn("Deep summary error from AI:", error.message);
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error("Deep summary error:", error);
     return NextResponse.json(
       { error: "Failed to generate deep summary" },
@@ -58,3 +74,35 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+async function generate(
+  paper: Paper,
+  onPartial?: (partial: Partial<DeepSummary>) => void,
+  onReset?: () => void
+): Promise<Paper> {
+  // Ground the analysis in the paper body when ar5iv or the PDF has it
+  const fullText = await getPaperFullText(paper, { interactive: true });
+  const context = fullText && {
+    source: fullText.source,
+    sections: selectSections(fullText.sections, getContextTokenBudget()),
+  };
+
+  // Generate deep summary
+  const deepSummary = await generateDeepSummary(
+    {
+      arxivId: paper.arxivId,
+      title: paper.title,
+      authors: paper.authors,
+      abstract: paper.abstract,
+      categories: paper.categories,
+      publishedDate: paper.publishedDate,
+      pdfUrl: paper.pdfUrl,
+    },
+    paper.figures || [],
+    context,
+    onPartial,
+    onReset
+  );
+
+  return updatePaperDeepSummary(paper.id, deepSummary);
+}
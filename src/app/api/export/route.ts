@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { exportPapers, ExportFormat, EXPORT_FORMATS } from "@/services/export";
+import { getPapersByIds, getAllSavedPapers } from "@/services/papers";
+import { getCollection, getAllCollectionPapers } from "@/services/collections";
+import { getNotesForPapers } from "@/services/annotations";
+import { Paper } from "@/types";
+import { getCurrentUser } from "@/lib/session";
+
+const MAX_IDS = 500;
+
+// Exports papers selected by exactly one of: ids=<comma separated paper IDs>,
+// saved=true (the whole saved list) or collection=<collection ID>.
+// Personal notes are included unless notes=false.
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const format = (searchParams.get("format") || "bibtex") as ExportFormat;
+    const ids = searchParams.get("ids")?.split(",").filter(Boolean);
+    const saved = searchParams.get("saved") === "true";
+    const collectionId = searchParams.get("collection");
+    const includeNotes = searchParams.get("notes") !== "false";
+
+    if (!Object.hasOwn(EXPORT_FORMATS, format)) {
+      return NextResponse.json(
+        { error: `Invalid format, expected one of: ${Object.keys(EXPORT_FORMATS).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if ([ids, saved || undefined, collectionId].filter(Boolean).length !== 1) {
+      return NextResponse.json(
+        { error: "Specify exactly one of ids, saved=true or collection" },
+        { status: 400 }
+      );
+    }
+
+    let papers: Paper[];
+    let filename = "scrollxiv-papers";
+
+    if (ids) {
+      if (ids.length > MAX_IDS) {
+        return NextResponse.json(
+          { error: `At most ${MAX_IDS} papers can be exported by ID` },
+          { status: 400 }
+        );
+      }
+      papers = await getPapersByIds(ids);
+      if (papers.length === 0) {
+        return NextResponse.json({ error: "No papers found" }, { status: 404 });
+      }
+      if (papers.length === 1) {
+        filename = papers[0].arxivId.replace(/[^\w.-]/g, "_");
+      }
+    } else if (saved) {
+      papers = await getAllSavedPapers(user.id);
+      filename = "scrollxiv-saved";
+    } else {
+      const collection = await getCollection(user.id, collectionId!);
+      if (!collection) {
+        return NextResponse.json({ error: "Collection not found" }, { status: 404 });
+      }
+      papers = await getAllCollectionPapers(collection.id);
+      filename = collection.name.replace(/[^\w.-]+/g, "_") || "collection";
+    }
+
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    const notes = includeNotes
+      ? await getNotesForPapers(user.id, papers.map((p) => p.id))
+      : undefined;
+
+    return new NextResponse(exportPapers(papers, format, notes), {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${filename}.${extension}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Export error:", error);
+    return NextResponse.json(
+      { error: "Failed to export papers" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,33 +1,107 @@
 import { NextRequest, NextResponse } from "next/server";
 import { fetchFromArxiv } from "@/services/arxiv";
+import { ArxivError } from "@/services/arxivClient";
 import { upsertPapers, getFeedPapers } from "@/services/papers";
-import { DEFAULT_CATEGORIES } from "@/types";
+import { getPreferences } from "@/services/preferences";
+import { getPersonalFeedPapers, isRankCursor } from "@/services/ranking";
+import { isCoveredByIngestion } from "@/services/ingestion";
+import { FeedRank } from "@/types";
+import { normalizeCategories } from "@/lib/taxonomy";
+import { getCurrentUser } from "@/lib/session";
+
+const FEED_RANKS: FeedRank[] = ["personal", "chronological"];
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const cursor = searchParams.get("cursor") || undefined;
     const refresh = searchParams.get("refresh") === "true";
-    const categories = searchParams.get("categories")?.split(",") || DEFAULT_CATEGORIES;
-
-    // If refresh is requested or no cursor (initial load), fetch from arXiv
-    if (refresh || !cursor) {
-      const { papers: arxivPapers } = await fetchFromArxiv(
-        categories,
-        20,
-        0,
-        "submittedDate"
+    const categoriesParam = searchParams.get("categories")?.split(",").filter(Boolean);
+    const rankParam = searchParams.get("rank");
+    const recencyParam = searchParams.get("recency");
+
+    if (rankParam && !FEED_RANKS.includes(rankParam as FeedRank)) {
+      return NextResponse.json(
+        { error: `Invalid rank, expected one of: ${FEED_RANKS.join(", ")}` },
+        { status: 400 }
       );
+    }
+
+    const recency = recencyParam !== null ? parseFloat(recencyParam) : undefined;
+    if (recency !== undefined && !(recency >= 0 && recency <= 1)) {
+      return NextResponse.json(
+        { error: "recency must be a number between 0 and 1" },
+        { status: 400 }
+      );
+    }
+
+    const preferences = await getPreferences(user.id);
+    const rank = (rankParam as FeedRank | null) || preferences.feedRank;
+
+    // A cursor kept across a rank change would land in the wrong pager
+    if (cursor && isRankCursor(cursor) !== (rank === "personal")) {
+      return NextResponse.json(
+        { error: `Cursor doesn't belong to the ${rank} feed; reload it without one` },
+        { status: 400 }
+      );
+    }
+
+    // An explicit categories param overrides the user's saved feed categories
+    let categories: string[];
+    if (categoriesParam?.length) {
+      const { categories: known, unknown } = normalizeCategories(categoriesParam);
+      if (unknown.length > 0) {
+        return NextResponse.json(
+          { error: `Unknown arXiv categories: ${unknown.join(", ")}` },
+          { status: 400 }
+        );
+      }
+      categories = known;
+    } else {
+      categories = preferences.feedCategories;
+    }
+
+    // If refresh is requested or no cursor (initial load), fetch from arXiv,
+    // unless background ingestion already polls these categories
+    if ((refresh || !cursor) && !(await isCoveredByIngestion(categories))) {
+      try {
+        const { papers: arxivPapers } = await fetchFromArxiv(
+          categories,
+          20,
+          0,
+          "submittedDate",
+          { interactive: true }
+        );
 
-      // Store in database
-      await upsertPapers(arxivPapers);
+        // Store in database
+        await upsertPapers(arxivPapers);
+      } catch (error) {
+        // Stored papers still make a feed while arXiv is unavailable
+        if (!(error instanceof ArxivError)) throw error;
+        console.warn("Feed refresh from arXiv failed:", error.message);
+      }
     }
 
-    // Get papers from database
-    const { papers, nextCursor } = await getFeedPapers(cursor, 10);
+    // Get papers from database, re-ranked against the user's history in personal mode
+    const { papers, nextCursor } =
+      rank === "personal"
+        ? await getPersonalFeedPapers(
+            user.id,
+            categories,
+            recency ?? preferences.recencyWeight,
+            cursor,
+            10
+          )
+        : await getFeedPapers(user.id, categories, cursor, 10);
 
     return NextResponse.json({
       papers,
+      rank,
       nextCursor,
       hasMore: !!nextCursor,
     });
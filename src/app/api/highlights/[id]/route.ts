@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteHighlight } from "@/services/annotations";
+import { getCurrentUser } from "@/lib/session";
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    await deleteHighlight(user.id, id);
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error("Delete highlight error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete highlight" },
+      { status: 500 }
+    );
+  }
+}
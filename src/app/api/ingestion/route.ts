@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  isIngestionEnabled,
+  getIngestionCategories,
+  listIngestionRuns,
+  requestIngestion,
+  requestOaiHarvest,
+} from "@/services/ingestion";
+import { isAdmin } from "@/services/auth";
+import { getCurrentUser } from "@/lib/session";
+
+// Longest OAI-PMH range one request may queue; longer backfills are split up
+const MAX_HARVEST_DAYS = 92;
+
+const DAY_MS = 86_400_000;
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const limit = Math.min(
+      parseInt(request.nextUrl.searchParams.get("limit") || "20") || 20,
+      100
+    );
+
+    const [runs, categories] = await Promise.all([
+      listIngestionRuns(limit),
+      getIngestionCategories(),
+    ]);
+
+    return NextResponse.json({ enabled: isIngestionEnabled(), categories, runs });
+  } catch (error) {
+    console.error("Ingestion history error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch ingestion history" },
+      { status: 500 }
+    );
+  }
+}
+
+function isDateString(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !Number.isNaN(Date.parse(value))
+  );
+}
+
+// Queues a run on the background job loop; poll GET for its progress. With
+// `source: "oai"` it queues an OAI-PMH harvest of `from`..`until` instead,
+// e.g. to backfill past months. Operators only, since runs hold up everyone's
+// arXiv requests.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+    if (!isAdmin(user)) {
+      return NextResponse.json(
+        { error: "Only operators can start ingestion" },
+        { status: 403 }
+      );
+    }
+
+    // The body is optional; a bare POST queues a scheduled-style run
+    const { source, from, until, set } = await request.json().catch(() => ({}));
+
+    if (source === "oai") {
+      for (const [name, value] of [["from", from], ["until", until]] as const) {
+        if (value !== undefined && !isDateString(value)) {
+          return NextResponse.json(
+            { error: `${name} must be a YYYY-MM-DD date` },
+            { status: 400 }
+          );
+        }
+      }
+      if (isDateString(from) && isDateString(until) && from > until) {
+        return NextResponse.json(
+          { error: "from must not be after until" },
+          { status: 400 }
+        );
+      }
+      // Without `from` the harvest continues incrementally, which is never long
+      if (isDateString(from)) {
+        const end = isDateString(until) ? Date.parse(until) : Date.now();
+        if ((end - Date.parse(from)) / DAY_MS > MAX_HARVEST_DAYS) {
+          return NextResponse.json(
+            { error: `A harvest may cover at most ${MAX_HARVEST_DAYS} days; queue longer ranges in parts` },
+            { status: 400 }
+          );
+        }
+      }
+      if (set !== undefined && (typeof set !== "string" || !/^[a-z-]+(:[a-zA-Z-]+)?$/.test(set))) {
+        return NextResponse.json(
+          { error: "set must be an OAI-PMH set such as cs or physics:hep-th" },
+          { status: 400 }
+        );
+      }
+
+      requestOaiHarvest({
+        from: from as string | undefined,
+        until: until as string | undefined,
+        set: set as string | undefined,
+      });
+      return NextResponse.json({ queued: true }, { status: 202 });
+    }
+
+    if (!requestIngestion()) {
+      return NextResponse.json(
+        { error: "Background ingestion is disabled" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ queued: true }, { status: 202 });
+  } catch (error) {
+    console.error("Start ingestion error:", error);
+    return NextResponse.json(
+      { error: "Failed to start ingestion" },
+      { status: 500 }
+    );
+  }
+}
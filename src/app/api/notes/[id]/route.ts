@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getNoteById, updateNote, deleteNote } from "@/services/annotations";
+import { getCurrentUser } from "@/lib/session";
+
+const MAX_NOTE_LENGTH = 20000;
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { body } = await request.json();
+
+    if (!body || typeof body !== "string" || !body.trim()) {
+      return NextResponse.json(
+        { error: "Note body is required" },
+        { status: 400 }
+      );
+    }
+
+    if (body.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Notes must be at most ${MAX_NOTE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getNoteById(user.id, id))) {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 });
+    }
+
+    const note = await updateNote(id, body.trim());
+    return NextResponse.json({ note });
+  } catch (error) {
+    console.error("Update note error:", error);
+    return NextResponse.json(
+      { error: "Failed to update note" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    await deleteNote(user.id, id);
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error("Delete note error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete note" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { searchNotes } from "@/services/annotations";
+import { getCurrentUser } from "@/lib/session";
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const query = request.nextUrl.searchParams.get("q")?.trim();
+
+    if (!query) {
+      return NextResponse.json(
+        { error: "Query is required" },
+        { status: 400 }
+      );
+    }
+
+    const notes = await searchNotes(user.id, query);
+    return NextResponse.json({ notes });
+  } catch (error) {
+    console.error("Search notes error:", error);
+    return NextResponse.json(
+      { error: "Failed to search notes" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AIError, isAIConfigured, streamPaperAnswer } from "@/services/ai";
+import { addChatMessage, createChatThread, getChatThread, getChatThreads } from "@/services/chat";
+import { getContextTokenBudget, getPaperFullText, selectSections } from "@/services/fulltext";
+import { getPaperById } from "@/services/papers";
+import { getCurrentUser } from "@/lib/session";
+
+const MAX_QUESTION_LENGTH = 4000;
+// Earlier messages sent along with a question
+const MAX_HISTORY_MESSAGES = 20;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const threads = await getChatThreads(user.id, id);
+    return NextResponse.json({ threads });
+  } catch (error) {
+    console.error("Get chat threads error:", error);
+    return NextResponse.json(
+      { error: "Failed to get chat threads" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Ask a question about a paper, in a new thread or the one given by
+ * `threadId`. The answer is streamed back as plain text, with the thread ID
+ * in the X-Chat-Thread-Id header, and saved once it is complete.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { message, threadId } = await request.json();
+
+    if (!message || typeof message !== "string" || !message.trim()) {
+      return NextResponse.json(
+        { error: "Message is required" },
+        { status: 400 }
+      );
+    }
+
+    if (message.length > MAX_QUESTION_LENGTH) {
+      return NextResponse.json(
+        { error: `Messages must be at most ${MAX_QUESTION_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (!isAIConfigured()) {
+      return NextResponse.json(
+        { error: "AI is not configured" },
+        { status: 503 }
+      );
+    }
+
+    const paper = await getPaperById(id);
+    if (!paper) {
+      return NextResponse.json({ error: "Paper not found" }, { status: 404 });
+    }
+
+    const question = message.trim();
+    const existing = threadId ? await getChatThread(user.id, threadId) : null;
+    if (threadId && (!existing || existing.paperId !== paper.id)) {
+      return NextResponse.json({ error: "Chat thread not found" }, { status: 404 });
+    }
+
+    // Answers that break off leave questions without a reply, so a window of
+    // the last messages can start on an answer; it has to start on a question
+    const recent = (existing?.messages ?? []).slice(-MAX_HISTORY_MESSAGES);
+    const firstQuestion = recent.findIndex((m) => m.role === "user");
+    const history = [
+      ...recent
+        .slice(firstQuestion < 0 ? recent.length : firstQuestion)
+        .map(({ role, content }) => ({ role, content })),
+      { role: "user" as const, content: question },
+    ];
+
+    const fullText = await getPaperFullText(paper, { interactive: true });
+    const context = fullText && {
+      source: fullText.source,
+      sections: selectSections(fullText.sections, getContextTokenBudget(), question),
+    };
+    const answer = streamPaperAnswer(paper, paper.deepSummary ?? null, context, history);
+    // Wait for the first chunk, so failures to start are reported with a status
+    let first: IteratorResult<string> | null = await answer.next();
+
+    // Stored only once answering has started, so a failed attempt leaves no
+    // empty thread or unanswered question behind
+    const thread = existing ?? (await createChatThread(user.id, paper.id, question));
+    await addChatMessage(thread.id, "user", question);
+
+    const encoder = new TextEncoder();
+    let text = "";
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = first ?? (await answer.next());
+          first = null;
+          if (!done) {
+            text += value;
+            controller.enqueue(encoder.encode(value));
+            return;
+          }
+          if (text.trim()) {
+            await addChatMessage(thread.id, "assistant", text);
+          }
+          controller.close();
+        } catch (error) {
+          console.error("Chat stream error:", error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        // The reader went away; keep what was said so far
+        await answer.return(undefined);
+        if (text.trim()) {
+          await addChatMessage(thread.id, "assistant", text);
+        }
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Cache-Control": "no-cache",
+        "X-Chat-Thread-Id": thread.id,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AIError) {
+      console.warn("Chat error from AI:", error.message);
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Chat error:", error);
+    return NextResponse.json(
+      { error: "Failed to answer question" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getHighlights,
+  createHighlight,
+  getHighlightFieldText,
+} from "@/services/annotations";
+import { getPaperById } from "@/services/papers";
+import { getCurrentUser } from "@/lib/session";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const highlights = await getHighlights(user.id, id);
+    return NextResponse.json({ highlights });
+  } catch (error) {
+    console.error("Get highlights error:", error);
+    return NextResponse.json(
+      { error: "Failed to get highlights" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { field, start, end } = await request.json();
+
+    if (
+      typeof field !== "string" ||
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < 0 ||
+      end <= start
+    ) {
+      return NextResponse.json(
+        { error: "field, start and end (start < end) are required" },
+        { status: 400 }
+      );
+    }
+
+    const paper = await getPaperById(id);
+    if (!paper) {
+      return NextResponse.json({ error: "Paper not found" }, { status: 404 });
+    }
+
+    const fieldText = getHighlightFieldText(paper, field);
+    if (fieldText === null) {
+      return NextResponse.json(
+        { error: `Unknown highlight field: ${field}` },
+        { status: 400 }
+      );
+    }
+
+    if (end > fieldText.length) {
+      return NextResponse.json(
+        { error: "Highlight range is outside the field text" },
+        { status: 400 }
+      );
+    }
+
+    const highlight = await createHighlight(
+      user.id,
+      paper.id,
+      field,
+      start,
+      end,
+      fieldText.slice(start, end)
+    );
+    return NextResponse.json({ highlight }, { status: 201 });
+  } catch (error) {
+    console.error("Create highlight error:", error);
+    return NextResponse.json(
+      { error: "Failed to create highlight" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getNotes, createNote } from "@/services/annotations";
+import { getPaperById } from "@/services/papers";
+import { getCurrentUser } from "@/lib/session";
+
+const MAX_NOTE_LENGTH = 20000;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const notes = await getNotes(user.id, id);
+    return NextResponse.json({ notes });
+  } catch (error) {
+    console.error("Get notes error:", error);
+    return NextResponse.json(
+      { error: "Failed to get notes" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { body } = await request.json();
+
+    if (!body || typeof body !== "string" || !body.trim()) {
+      return NextResponse.json(
+        { error: "Note body is required" },
+        { status: 400 }
+      );
+    }
+
+    if (body.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Notes must be at most ${MAX_NOTE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const paper = await getPaperById(id);
+    if (!paper) {
+      return NextResponse.json({ error: "Paper not found" }, { status: 404 });
+    }
+
+    const note = await createNote(user.id, paper.id, body.trim());
+    return NextResponse.json({ note }, { status: 201 });
+  } catch (error) {
+    console.error("Create note error:", error);
+    return NextResponse.json(
+      { error: "Failed to create note" },
+      { status: 500 }
+    );
+  }
+}
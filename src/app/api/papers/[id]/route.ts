@@ -8,12 +8,19 @@ import {
   unmarkPaperAsSeen,
   isPaperDiscarded,
 } from "@/services/papers";
+import { getNotes, getHighlights } from "@/services/annotations";
+import { getCurrentUser } from "@/lib/session";
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
     const { id } = await params;
     const paper = await getPaperById(id);
 
@@ -21,10 +28,14 @@ export async function GET(
       return NextResponse.json({ error: "Paper not found" }, { status: 404 });
     }
 
-    const saved = await isPaperSaved(id);
-    const discarded = await isPaperDiscarded(id);
+    const saved = await isPaperSaved(user.id, id);
+    const discarded = await isPaperDiscarded(user.id, id);
+    const [notes, highlights] = await Promise.all([
+      getNotes(user.id, id),
+      getHighlights(user.id, id),
+    ]);
 
-    return NextResponse.json({ paper, saved, discarded });
+    return NextResponse.json({ paper, saved, discarded, notes, highlights });
   } catch (error) {
     console.error("Get paper error:", error);
     return NextResponse.json(
@@ -39,22 +50,30 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
     const { id } = await params;
     const body = await request.json();
     const { action } = body;
 
     if (action === "save") {
-      await savePaper(id);
+      await savePaper(user.id, id);
       return NextResponse.json({ saved: true });
     } else if (action === "unsave") {
-      await unsavePaper(id);
+      await unsavePaper(user.id, id);
       return NextResponse.json({ saved: false });
     } else if (action === "discard") {
-      await markPaperAsDiscarded(id);
+      await markPaperAsDiscarded(user.id, id);
       return NextResponse.json({ discarded: true });
     } else if (action === "undiscard") {
-      await unmarkPaperAsSeen(id);
+      await unmarkPaperAsSeen(user.id, id);
       return NextResponse.json({ discarded: false });
+    } else if (action === "unsee") {
+      await unmarkPaperAsSeen(user.id, id);
+      return NextResponse.json({ seen: false, discarded: false });
     }
 
     return NextResponse.json({ error: "Invalid action" }, { status: 400 });
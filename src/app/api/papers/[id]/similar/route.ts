@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPaperById } from "@/services/papers";
+import { getSimilarPapers } from "@/services/embeddings";
+import { getCurrentUser } from "@/lib/session";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Embedding can call a paid provider, so only for signed-in users
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get("limit") || "10") || 10, 50);
+
+    const paper = await getPaperById(id);
+    if (!paper) {
+      return NextResponse.json({ error: "Paper not found" }, { status: 404 });
+    }
+
+    const { papers, model } = await getSimilarPapers(paper, limit);
+    return NextResponse.json({ papers, model });
+  } catch (error) {
+    console.error("Similar papers error:", error);
+    return NextResponse.json(
+      { error: "Failed to find similar papers" },
+      { status: 500 }
+    );
+  }
+}
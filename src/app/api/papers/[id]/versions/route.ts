@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPaperById, getPaperVersions } from "@/services/papers";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const paper = await getPaperById(id);
+    if (!paper) {
+      return NextResponse.json({ error: "Paper not found" }, { status: 404 });
+    }
+
+    const versions = await getPaperVersions(paper);
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error("Paper versions error:", error);
+    return NextResponse.json(
+      { error: "Failed to load paper versions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPreferences, updatePreferences } from "@/services/preferences";
+import { requestIngestion } from "@/services/ingestion";
+import { normalizeCategories } from "@/lib/taxonomy";
+import { getCurrentUser } from "@/lib/session";
+import { FeedRank } from "@/types";
+
+const MAX_FEED_CATEGORIES = 30;
+const FEED_RANKS: FeedRank[] = ["personal", "chronological"];
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const preferences = await getPreferences(user.id);
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error("Get preferences error:", error);
+    return NextResponse.json(
+      { error: "Failed to get preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { feedCategories, feedRank, recencyWeight } = await request.json();
+
+    if (feedCategories !== undefined) {
+      if (
+        !Array.isArray(feedCategories) ||
+        feedCategories.length === 0 ||
+        !feedCategories.every((c) => typeof c === "string")
+      ) {
+        return NextResponse.json(
+          { error: "feedCategories must be a non-empty array of category codes" },
+          { status: 400 }
+        );
+      }
+
+      if (feedCategories.length > MAX_FEED_CATEGORIES) {
+        return NextResponse.json(
+          { error: `At most ${MAX_FEED_CATEGORIES} feed categories can be selected` },
+          { status: 400 }
+        );
+      }
+
+      const { unknown } = normalizeCategories(feedCategories);
+      if (unknown.length > 0) {
+        return NextResponse.json(
+          { error: `Unknown arXiv categories: ${unknown.join(", ")}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (feedRank !== undefined && !FEED_RANKS.includes(feedRank)) {
+      return NextResponse.json(
+        { error: `feedRank must be one of: ${FEED_RANKS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      recencyWeight !== undefined &&
+      (typeof recencyWeight !== "number" || !(recencyWeight >= 0 && recencyWeight <= 1))
+    ) {
+      return NextResponse.json(
+        { error: "recencyWeight must be a number between 0 and 1" },
+        { status: 400 }
+      );
+    }
+
+    const preferences = await updatePreferences(user.id, {
+      feedCategories: feedCategories && normalizeCategories(feedCategories).categories,
+      feedRank,
+      recencyWeight,
+    });
+
+    // Start polling newly added categories now rather than at the next interval
+    if (feedCategories !== undefined) {
+      requestIngestion();
+    }
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error("Update preferences error:", error);
+    return NextResponse.json(
+      { error: "Failed to update preferences" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSavedPapers, getSavedCategoryCounts } from "@/services/papers";
+import { SavedSort } from "@/types";
+import { getCurrentUser } from "@/lib/session";
+
+const SAVED_SORTS: SavedSort[] = ["savedAt", "publishedDate", "title"];
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const cursor = searchParams.get("cursor") || undefined;
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20") || 20, 100);
+    const sort = (searchParams.get("sort") || "savedAt") as SavedSort;
+    const categories = searchParams.get("categories")?.split(",").filter(Boolean) || [];
+
+    if (!SAVED_SORTS.includes(sort)) {
+      return NextResponse.json(
+        { error: `Invalid sort, expected one of: ${SAVED_SORTS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const [{ papers, nextCursor, total }, categoryCounts] = await Promise.all([
+      getSavedPapers(user.id, { cursor, limit, sort, categories }),
+      getSavedCategoryCounts(user.id),
+    ]);
+
+    return NextResponse.json({
+      papers,
+      nextCursor,
+      hasMore: !!nextCursor,
+      total,
+      categoryCounts,
+    });
+  } catch (error) {
+    console.error("Saved papers error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch saved papers" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,61 +1,172 @@
 import { NextRequest, NextResponse } from "next/server";
 import { searchArxiv } from "@/services/arxiv";
+import { ArxivError } from "@/services/arxivClient";
 import { interpretSearch, isAIConfigured } from "@/services/ai";
 import { upsertPapers } from "@/services/papers";
+import { mergeSearchResults, searchLocalPapers } from "@/services/search";
+import { getCurrentUser } from "@/lib/session";
+import { normalizeSearchFilters, plainSearchFilters } from "@/lib/searchFilters";
+import { SearchFilters, SearchQuery, SearchResult, SearchScope } from "@/types";
+
+const SEARCH_SCOPES: SearchScope[] = ["library", "stored", "arxiv"];
+const SORT_OPTIONS: SearchQuery["sortBy"][] = ["relevance", "submittedDate"];
+
+const PAGE_SIZE = 20;
+// Stored matches mixed into each page of arXiv results
+const MERGED_LOCAL_PAGE_SIZE = 10;
+
+// Cursors are offsets: "<local>" for local scopes, "<arxiv>:<local>" for arXiv
+function parseCursor(cursor: unknown, parts: number): number[] | null {
+  if (typeof cursor !== "string") {
+    return null;
+  }
+  const offsets = cursor.split(":").map(Number);
+  return offsets.length === parts && offsets.every((n) => Number.isInteger(n) && n >= 0)
+    ? offsets
+    : null;
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const { query } = await request.json();
+    const {
+      query,
+      filters: rawFilters,
+      scope = "arxiv",
+      sortBy: rawSortBy,
+      cursor,
+    } = await request.json();
 
-    if (!query || typeof query !== "string") {
+    if (!SEARCH_SCOPES.includes(scope)) {
       return NextResponse.json(
-        { error: "Query is required" },
+        { error: `scope must be one of: ${SEARCH_SCOPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (rawSortBy !== undefined && !SORT_OPTIONS.includes(rawSortBy)) {
+      return NextResponse.json(
+        { error: `sortBy must be one of: ${SORT_OPTIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // Later pages must repeat the filters from the first page rather than the
+    // query, which could be interpreted differently the second time
+    if (cursor !== undefined && rawFilters === undefined) {
+      return NextResponse.json(
+        { error: "filters are required with a cursor" },
         { status: 400 }
       );
     }
 
-    let searchQuery = query;
-    let categories: string[] | undefined;
-    let sortBy: "relevance" | "submittedDate" = "relevance";
+    const offsets = cursor === undefined ? null : parseCursor(cursor, scope === "arxiv" ? 2 : 1);
+    if (cursor !== undefined && !offsets) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    let filters: SearchFilters;
+    let sortBy: SearchQuery["sortBy"] = rawSortBy ?? "relevance";
     let explanation: string | undefined;
 
-    // Use AI to interpret the search if configured
-    if (isAIConfigured()) {
-      try {
-        const interpreted = await interpretSearch(query);
-        searchQuery = interpreted.searchQuery;
-        categories = interpreted.categories;
-        sortBy = interpreted.sortBy;
-        explanation = interpreted.explanation;
-      } catch (aiError) {
-        console.warn("AI interpretation failed, using direct search:", aiError);
+    if (rawFilters !== undefined) {
+      // Explicit filters (e.g. edited chips) are used as given
+      const normalized = normalizeSearchFilters(rawFilters);
+      if (normalized.problems.length > 0) {
+        return NextResponse.json(
+          { error: normalized.problems.join("; ") },
+          { status: 400 }
+        );
+      }
+      filters = normalized.filters;
+    } else if (!query || typeof query !== "string" || !query.trim()) {
+      return NextResponse.json(
+        { error: "Query is required" },
+        { status: 400 }
+      );
+    } else {
+      filters = plainSearchFilters(query);
+
+      // Use AI to interpret arXiv searches if configured; local scopes search
+      // the query as typed
+      if (scope === "arxiv" && isAIConfigured()) {
+        try {
+          const interpreted = await interpretSearch(query);
+          filters = interpreted.filters;
+          sortBy = rawSortBy ?? interpreted.sortBy;
+          explanation = interpreted.explanation;
+        } catch (aiError) {
+          console.warn("AI interpretation failed, using direct search:", aiError);
+        }
       }
     }
 
-    // Search arXiv
-    const { papers: arxivPapers, total } = await searchArxiv(
-      searchQuery,
-      categories,
-      20,
-      sortBy
-    );
+    if (scope !== "arxiv") {
+      let userId: string | undefined;
+      if (scope === "library") {
+        const user = await getCurrentUser();
+        if (!user) {
+          return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+        }
+        userId = user.id;
+      }
+
+      const [offset] = offsets ?? [0];
+      const { papers, total } = await searchLocalPapers(filters, {
+        userId,
+        limit: PAGE_SIZE,
+        offset,
+      });
+      const hasMore = offset + papers.length < total;
+
+      return NextResponse.json({
+        papers,
+        total,
+        scope,
+        filters,
+        sortBy,
+        nextCursor: hasMore ? String(offset + papers.length) : undefined,
+        hasMore,
+      });
+    }
+
+    // Search arXiv and stored papers side by side. Local search runs before
+    // the arXiv results are stored so it only reports papers we already had.
+    const [arxivStart, localOffset] = offsets ?? [0, 0];
+    const [{ papers: arxivPapers, total }, local] = await Promise.all([
+      searchArxiv(filters, PAGE_SIZE, sortBy, arxivStart, { interactive: true }),
+      searchLocalPapers(filters, { limit: MERGED_LOCAL_PAGE_SIZE, offset: localOffset }).catch(
+        (localError): { papers: SearchResult[]; total: number } => {
+          console.warn("Local search failed, using arXiv results only:", localError);
+          return { papers: [], total: 0 };
+        }
+      ),
+    ]);
 
     // Store in database
-    const papers = await upsertPapers(arxivPapers);
+    const storedPapers = await upsertPapers(arxivPapers);
+    const papers = mergeSearchResults(local.papers, storedPapers);
+
+    const nextArxivStart = arxivStart + arxivPapers.length;
+    const nextLocalOffset = localOffset + local.papers.length;
+    // arXiv can return fewer entries than asked for; an empty page means done
+    const hasMore =
+      (arxivPapers.length > 0 && nextArxivStart < total) || nextLocalOffset < local.total;
 
     return NextResponse.json({
       papers,
       total,
-      interpretation: explanation
-        ? {
-            query: searchQuery,
-            categories,
-            sortBy,
-            explanation,
-          }
-        : undefined,
+      scope,
+      filters,
+      sortBy,
+      interpretation: explanation ? { explanation } : undefined,
+      nextCursor: hasMore ? `${nextArxivStart}:${nextLocalOffset}` : undefined,
+      hasMore,
     });
   } catch (error) {
+    if (error instanceof ArxivError) {
+      console.warn("Search error from arXiv:", error.message);
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error("Search error:", error);
     return NextResponse.json(
       { error: "Failed to search papers" },
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSeenHistory, markPapersAsSeen } from "@/services/papers";
+import { getCurrentUser } from "@/lib/session";
+
+const MAX_BATCH_SIZE = 100;
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const cursor = searchParams.get("cursor") || undefined;
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20") || 20, 100);
+
+    const { papers, nextCursor } = await getSeenHistory(user.id, cursor, limit);
+
+    return NextResponse.json({
+      papers,
+      nextCursor,
+      hasMore: !!nextCursor,
+    });
+  } catch (error) {
+    console.error("Seen history error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch seen history" },
+      { status: 500 }
+    );
+  }
+}
+
+// Batched "seen" updates from the feed. Also accepts navigator.sendBeacon
+// payloads, which arrive as text/plain but still carry a JSON body.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { paperIds } = await request.json();
+
+    if (
+      !Array.isArray(paperIds) ||
+      paperIds.length === 0 ||
+      !paperIds.every((id) => typeof id === "string")
+    ) {
+      return NextResponse.json(
+        { error: "paperIds must be a non-empty array of paper IDs" },
+        { status: 400 }
+      );
+    }
+
+    if (paperIds.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BATCH_SIZE} papers can be marked per request` },
+        { status: 400 }
+      );
+    }
+
+    const marked = await markPapersAsSeen(user.id, Array.from(new Set<string>(paperIds)));
+
+    return NextResponse.json({ marked });
+  } catch (error) {
+    console.error("Mark seen error:", error);
+    return NextResponse.json(
+      { error: "Failed to mark papers as seen" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSubscription, refreshSubscription } from "@/services/subscriptions";
+import { getCurrentUser } from "@/lib/session";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await getSubscription(user.id, id))) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+
+    const added = await refreshSubscription(id, { interactive: true });
+    const subscription = await getSubscription(user.id, id);
+
+    return NextResponse.json({ subscription, added });
+  } catch (error) {
+    console.error("Refresh subscription error:", error);
+    return NextResponse.json(
+      { error: "Failed to refresh subscription" },
+      { status: 500 }
+    );
+  }
+}
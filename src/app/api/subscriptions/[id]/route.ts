@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSubscription,
+  getSubscriptionPapers,
+  renameSubscription,
+  deleteSubscription,
+} from "@/services/subscriptions";
+import { getCurrentUser } from "@/lib/session";
+
+const MAX_NAME_LENGTH = 100;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const cursor = searchParams.get("cursor") || undefined;
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20") || 20, 100);
+
+    const subscription = await getSubscription(user.id, id);
+    if (!subscription) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+
+    const { papers, nextCursor } = await getSubscriptionPapers(id, cursor, limit);
+
+    return NextResponse.json({
+      subscription,
+      papers,
+      nextCursor,
+      hasMore: !!nextCursor,
+    });
+  } catch (error) {
+    console.error("Get subscription error:", error);
+    return NextResponse.json(
+      { error: "Failed to get subscription" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { name } = await request.json();
+
+    if (typeof name !== "string" || !name.trim()) {
+      return NextResponse.json(
+        { error: "Subscription name cannot be empty" },
+        { status: 400 }
+      );
+    }
+
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Subscription name must be at most ${MAX_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const subscription = await renameSubscription(user.id, id, name.trim());
+    if (!subscription) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ subscription });
+  } catch (error) {
+    console.error("Update subscription error:", error);
+    return NextResponse.json(
+      { error: "Failed to update subscription" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    await deleteSubscription(user.id, id);
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error("Delete subscription error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete subscription" },
+      { status: 500 }
+    );
+  }
+}
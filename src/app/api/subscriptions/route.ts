@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  listSubscriptions,
+  createSubscription,
+  refreshSubscription,
+  getSubscription,
+} from "@/services/subscriptions";
+import { interpretSearch, isAIConfigured } from "@/services/ai";
+import { getCurrentUser } from "@/lib/session";
+import { normalizeSearchFilters, plainSearchFilters } from "@/lib/searchFilters";
+import { SearchFilters } from "@/types";
+
+const MAX_NAME_LENGTH = 100;
+const MAX_QUERY_LENGTH = 500;
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const subscriptions = await listSubscriptions(user.id);
+    return NextResponse.json({ subscriptions });
+  } catch (error) {
+    console.error("List subscriptions error:", error);
+    return NextResponse.json(
+      { error: "Failed to list subscriptions" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const { name, query, filters: rawFilters, explanation: rawExplanation } =
+      await request.json();
+
+    if (!query || typeof query !== "string" || !query.trim()) {
+      return NextResponse.json(
+        { error: "Query is required" },
+        { status: 400 }
+      );
+    }
+
+    if (query.trim().length > MAX_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Query must be at most ${MAX_QUERY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (name !== undefined && (typeof name !== "string" || name.trim().length > MAX_NAME_LENGTH)) {
+      return NextResponse.json(
+        { error: `Subscription name must be at most ${MAX_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    let filters: SearchFilters;
+    let explanation: string | undefined;
+
+    if (rawFilters !== undefined) {
+      // Filters already shown to the user (e.g. from a search) are kept as is
+      const normalized = normalizeSearchFilters(rawFilters);
+      if (normalized.problems.length > 0) {
+        return NextResponse.json(
+          { error: normalized.problems.join("; ") },
+          { status: 400 }
+        );
+      }
+      filters = normalized.filters;
+      explanation = typeof rawExplanation === "string" ? rawExplanation : undefined;
+    } else {
+      filters = plainSearchFilters(query);
+      if (isAIConfigured()) {
+        try {
+          const interpreted = await interpretSearch(query);
+          filters = interpreted.filters;
+          explanation = interpreted.explanation;
+        } catch (aiError) {
+          console.warn("AI interpretation failed, subscribing to the plain query:", aiError);
+        }
+      }
+    }
+
+    const subscription = await createSubscription(user.id, {
+      name: name?.trim() || query.trim().slice(0, MAX_NAME_LENGTH),
+      query: query.trim(),
+      filters,
+      explanation,
+    });
+
+    // Fill the feed right away; the background refresh retries if arXiv is down
+    try {
+      await refreshSubscription(subscription.id, { interactive: true });
+    } catch (refreshError) {
+      console.warn("Initial subscription refresh failed:", refreshError);
+    }
+
+    return NextResponse.json(
+      { subscription: (await getSubscription(user.id, subscription.id)) ?? subscription },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Create subscription error:", error);
+    return NextResponse.json(
+      { error: "Failed to create subscription" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { summarizePaper, isAIConfigured } from "@/services/ai";
+import { eventStreamResponse } from "@/lib/sse";
+import { AIError, summarizePaper, isAIConfigured } from "@/services/ai";
 import { getPaperById, updatePaperSummary } from "@/services/papers";
+import { Paper, PaperSummary } from "@/types";
 
+/**
+ * Summarize a paper, or return its stored summary. With `stream: true` a new
+ * summary is sent as server-sent events: "partial" with the fields written
+ * so far ("reset" when a rejected response is generated again), then "done"
+ * with the paper, or "error".
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { paperId } = await request.json();
+    const { paperId, stream } = await request.json();
 
     if (!paperId) {
       return NextResponse.json(
@@ -30,22 +38,30 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ paper, cached: true });
     }
 
-    // Generate summary
-    const summary = await summarizePaper({
-      arxivId: paper.arxivId,
-      title: paper.title,
-      authors: paper.authors,
-      abstract: paper.abstract,
-      categories: paper.categories,
-      publishedDate: paper.publishedDate,
-      pdfUrl: paper.pdfUrl,
-    });
-
-    // Update paper with summary
-    const updatedPaper = await updatePaperSummary(paperId, summary);
+    if (stream) {
+      return eventStreamResponse(
+        async (send) => {
+          const updatedPaper = await generate(
+            paper,
+            (partial) => send("partial", { summary: partial }),
+            () => send("reset", {})
+          );
+          send("done", { paper: updatedPaper, cached: false });
+        },
+        (error) => {
+          console.error("Summarize error:", error);
+          return { error: error instanceof AIError ? error.message : "Failed to summarize paper" };
+        }
+      );
+    }
 
+    const updatedPaper = await generate(paper);
     return NextResponse.json({ paper: updatedPaper, cached: false });
   } catch (error) {
+    if (error instanceof AIError) {
+      console.warn("Summarize error from AI:", error.message);
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error("Summarize error:", error);
     return NextResponse.json(
       { error: "Failed to summarize paper" },
@@ -53,3 +69,27 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+async function generate(
+  paper: Paper,
+  onPartial?: (partial: Partial<PaperSummary>) => void,
+  onReset?: () => void
+): Promise<Paper> {
+  // Generate summary
+  const summary = await summarizePaper(
+    {
+      arxivId: paper.arxivId,
+      title: paper.title,
+      authors: paper.authors,
+      abstract: paper.abstract,
+      categories: paper.categories,
+      publishedDate: paper.publishedDate,
+      pdfUrl: paper.pdfUrl,
+    },
+    onPartial,
+    onReset
+  );
+
+  // Update paper with summary
+  return updatePaperSummary(paper.id, summary);
+}
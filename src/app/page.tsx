@@ -4,14 +4,63 @@ import { useEffect, useState, useCallback } from "react";
 import { ScrollFeed } from "@/components/ScrollFeed";
 import { PaperDetail } from "@/components/PaperDetail";
 import { SearchModal } from "@/components/SearchModal";
-import { Paper } from "@/types";
+import { SavedLibrary } from "@/components/SavedLibrary";
+import { SeenHistory } from "@/components/SeenHistory";
+import { AuthorPage } from "@/components/AuthorPage";
+import { AuthScreen } from "@/components/AuthScreen";
+import { Settings } from "@/components/Settings";
+import { FeedPage, Paper, SearchRequest, Subscription, User } from "@/types";
+
+interface AuthOptions {
+  providers: string[];
+  registrationEnabled: boolean;
+}
+
+// A paper list (search results, a subscription) opened in the swipeable feed
+// in place of the home feed
+interface AlternateFeed {
+  key: string;
+  title: string;
+  page: FeedPage;
+  loadPage: (cursor?: string) => Promise<FeedPage>;
+}
+
+async function fetchSearchPage(request: SearchRequest, cursor?: string): Promise<FeedPage> {
+  const response = await fetch("/api/search", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...request, cursor }),
+  });
+  if (!response.ok) {
+    throw new Error(`Search request failed: ${response.status}`);
+  }
+  return response.json();
+}
+
+async function fetchSubscriptionPage(id: string, cursor?: string): Promise<FeedPage> {
+  const params = new URLSearchParams();
+  if (cursor) params.set("cursor", cursor);
+
+  const response = await fetch(`/api/subscriptions/${id}?${params}`);
+  if (!response.ok) {
+    throw new Error(`Subscription request failed: ${response.status}`);
+  }
+  return response.json();
+}
 
 export default function Home() {
+  const [user, setUser] = useState<User | null>(null);
+  const [authOptions, setAuthOptions] = useState<AuthOptions | null>(null);
   const [papers, setPapers] = useState<Paper[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedPaper, setSelectedPaper] = useState<Paper | null>(null);
   const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [alternateFeed, setAlternateFeed] = useState<AlternateFeed | null>(null);
+  const [authorName, setAuthorName] = useState<string | null>(null);
 
   const loadInitialPapers = useCallback(async () => {
     try {
@@ -32,9 +81,89 @@ export default function Home() {
     }
   }, []);
 
+  // Check for an existing session before loading the feed; when signed out,
+  // the me endpoint tells us which sign-in options to show
+  const loadSession = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch("/api/auth/me");
+      const data = await response.json();
+
+      if (response.ok) {
+        setUser(data.user);
+        await loadInitialPapers();
+      } else if (response.status === 401) {
+        setAuthOptions({
+          providers: data.providers,
+          registrationEnabled: data.registrationEnabled,
+        });
+        setIsLoading(false);
+      } else {
+        throw new Error("Failed to check session");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+      setIsLoading(false);
+    }
+  }, [loadInitialPapers]);
+
   useEffect(() => {
+    loadSession();
+  }, [loadSession]);
+
+  function handleSignedIn(signedInUser: User) {
+    setUser(signedInUser);
+    setAuthOptions(null);
     loadInitialPapers();
-  }, [loadInitialPapers]);
+  }
+
+  async function handleSignOut() {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" });
+    } catch (err) {
+      console.error("Failed to sign out:", err);
+    }
+    setUser(null);
+    setPapers([]);
+    setAlternateFeed(null);
+    setAuthorName(null);
+    setSelectedPaper(null);
+    setIsSearchOpen(false);
+    setIsLibraryOpen(false);
+    setIsHistoryOpen(false);
+    setIsSettingsOpen(false);
+    loadSession();
+  }
+
+  function handleHome() {
+    setAlternateFeed(null);
+    loadInitialPapers();
+  }
+
+  function handleOpenSearchFeed(request: SearchRequest, page: FeedPage) {
+    setAlternateFeed({
+      key: "search",
+      title: "Search results",
+      page,
+      loadPage: (cursor) => fetchSearchPage(request, cursor),
+    });
+  }
+
+  async function handleOpenSubscription(subscription: Subscription) {
+    try {
+      const page = await fetchSubscriptionPage(subscription.id);
+      setAlternateFeed({
+        key: `subscription-${subscription.id}`,
+        title: subscription.name,
+        page,
+        loadPage: (cursor) => fetchSubscriptionPage(subscription.id, cursor),
+      });
+    } catch (err) {
+      console.error("Failed to open subscription:", err);
+    }
+  }
 
   function handleExpandPaper(paper: Paper) {
     setSelectedPaper(paper);
@@ -44,6 +173,12 @@ export default function Home() {
     setSelectedPaper(null);
   }
 
+  // The author page opens in place of the paper, which can be reopened from it
+  function handleSelectAuthor(name: string) {
+    setAuthorName(name);
+    setSelectedPaper(null);
+  }
+
   function handleSearchSelect(paper: Paper) {
     // Add paper to the beginning of the feed if not already there
     setPapers((prev) => {
@@ -65,6 +200,16 @@ export default function Home() {
     );
   }
 
+  if (!user && authOptions) {
+    return (
+      <AuthScreen
+        providers={authOptions.providers}
+        registrationEnabled={authOptions.registrationEnabled}
+        onSignedIn={handleSignedIn}
+      />
+    );
+  }
+
   if (error) {
     return (
       <div className="h-dvh flex flex-col items-center justify-center bg-slate-900 text-white p-4">
@@ -72,7 +217,7 @@ export default function Home() {
         <h1 className="text-xl font-semibold mb-2">Something went wrong</h1>
         <p className="text-slate-400 mb-4 text-center">{error}</p>
         <button
-          onClick={loadInitialPapers}
+          onClick={user ? loadInitialPapers : loadSession}
           className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg transition-colors"
         >
           Try Again
@@ -83,14 +228,37 @@ export default function Home() {
 
   return (
     <main className="relative">
-      {/* Main scroll feed */}
-      <ScrollFeed initialPapers={papers} onExpandPaper={handleExpandPaper} />
+      {/* Main scroll feed, or another paper list opened as a feed */}
+      {alternateFeed ? (
+        <>
+          <ScrollFeed
+            key={alternateFeed.key}
+            initialPapers={alternateFeed.page.papers}
+            initialCursor={alternateFeed.page.nextCursor}
+            initialHasMore={alternateFeed.page.hasMore}
+            loadPage={alternateFeed.loadPage}
+            onExpandPaper={handleExpandPaper}
+          />
+          <div className="fixed top-4 left-1/2 -translate-x-1/2 z-30 flex items-center gap-2 max-w-[80vw] pl-4 pr-2 py-1 bg-slate-900/90 backdrop-blur border border-slate-700 rounded-full text-sm text-white">
+            <span className="truncate">{alternateFeed.title}</span>
+            <button
+              onClick={handleHome}
+              className="px-2 text-slate-400 hover:text-white transition-colors"
+              title="Back to your feed"
+            >
+              ×
+            </button>
+          </div>
+        </>
+      ) : (
+        <ScrollFeed key="feed" initialPapers={papers} onExpandPaper={handleExpandPaper} />
+      )}
 
       {/* Bottom navigation */}
       <nav className="fixed bottom-0 left-0 right-0 z-40 bg-slate-900/95 backdrop-blur border-t border-slate-700">
         <div className="flex items-center justify-around h-16 max-w-lg mx-auto">
           <button
-            onClick={loadInitialPapers}
+            onClick={handleHome}
             className="flex flex-col items-center gap-1 text-slate-400 hover:text-white transition-colors"
           >
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -119,6 +287,36 @@ export default function Home() {
             <span className="text-xs">Search</span>
           </button>
 
+          <button
+            onClick={() => setIsLibraryOpen(true)}
+            className="flex flex-col items-center gap-1 text-slate-400 hover:text-white transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z"
+              />
+            </svg>
+            <span className="text-xs">Library</span>
+          </button>
+
+          <button
+            onClick={() => setIsHistoryOpen(true)}
+            className="flex flex-col items-center gap-1 text-slate-400 hover:text-white transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+              />
+            </svg>
+            <span className="text-xs">History</span>
+          </button>
+
           <a
             href="https://arxiv.org"
             target="_blank"
@@ -135,12 +333,60 @@ export default function Home() {
             </svg>
             <span className="text-xs">arXiv</span>
           </a>
+
+          <button
+            onClick={() => setIsSettingsOpen(true)}
+            className="flex flex-col items-center gap-1 text-slate-400 hover:text-white transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4"
+              />
+            </svg>
+            <span className="text-xs">Settings</span>
+          </button>
         </div>
       </nav>
 
+      {/* Library, history and author pages are rendered before the detail view so it stacks on top */}
+      <SavedLibrary
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        onSelectPaper={handleExpandPaper}
+      />
+
+      <SeenHistory
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        onSelectPaper={handleExpandPaper}
+      />
+
+      <AuthorPage
+        authorName={authorName}
+        onClose={() => setAuthorName(null)}
+        onSelectPaper={handleExpandPaper}
+      />
+
+      <Settings
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        user={user}
+        onSignOut={handleSignOut}
+        onFeedSettingsChange={loadInitialPapers}
+      />
+
       {/* Paper detail modal */}
       {selectedPaper && (
-        <PaperDetail paper={selectedPaper} onClose={handleClosePaper} />
+        <PaperDetail
+          key={selectedPaper.id}
+          paper={selectedPaper}
+          onClose={handleClosePaper}
+          onSelectPaper={handleExpandPaper}
+          onSelectAuthor={handleSelectAuthor}
+        />
       )}
 
       {/* Search modal */}
@@ -148,6 +394,8 @@ export default function Home() {
         isOpen={isSearchOpen}
         onClose={() => setIsSearchOpen(false)}
         onSelectPaper={handleSearchSelect}
+        onOpenFeed={handleOpenSearchFeed}
+        onOpenSubscription={handleOpenSubscription}
       />
     </main>
   );
@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { User } from "@/types";
+
+interface AuthScreenProps {
+  providers: string[];
+  registrationEnabled: boolean;
+  onSignedIn: (user: User) => void;
+}
+
+export function AuthScreen({ providers, registrationEnabled, onSignedIn }: AuthScreenProps) {
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const hasLocal = providers.includes("local");
+  const hasProxy = providers.includes("proxy");
+
+  async function submit(url: string, body: Record<string, unknown>) {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Something went wrong");
+        return;
+      }
+      onSignedIn(data.user);
+    } catch (err) {
+      console.error("Sign-in failed:", err);
+      setError("Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (mode === "register") {
+      submit("/api/auth/register", { email, password, name });
+    } else {
+      submit("/api/auth/login", { provider: "local", email, password });
+    }
+  }
+
+  return (
+    <div className="h-dvh flex flex-col items-center justify-center bg-slate-900 text-white p-4">
+      <div className="w-full max-w-sm">
+        <h1 className="text-2xl font-bold text-center mb-1">ScrollXiv</h1>
+        <p className="text-slate-400 text-center mb-8">
+          {mode === "register" ? "Create an account" : "Sign in to your feed"}
+        </p>
+
+        {hasLocal && (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            {mode === "register" && (
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name (optional)"
+                autoComplete="name"
+                className="w-full px-4 py-3 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            )}
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email"
+              autoComplete="email"
+              required
+              className="w-full px-4 py-3 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoComplete={mode === "register" ? "new-password" : "current-password"}
+              required
+              className="w-full px-4 py-3 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full py-3 bg-blue-600 hover:bg-blue-500 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {mode === "register" ? "Create account" : "Sign in"}
+            </button>
+          </form>
+        )}
+
+        {hasProxy && (
+          <button
+            onClick={() => submit("/api/auth/login", { provider: "proxy" })}
+            disabled={isSubmitting}
+            className="w-full mt-3 py-3 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg font-medium transition-colors disabled:opacity-50"
+          >
+            Continue with single sign-on
+          </button>
+        )}
+
+        {!hasLocal && error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+
+        {hasLocal && registrationEnabled && (
+          <p className="mt-6 text-center text-sm text-slate-400">
+            {mode === "register" ? "Already have an account?" : "New here?"}{" "}
+            <button
+              onClick={() => {
+                setMode(mode === "register" ? "login" : "register");
+                setError(null);
+              }}
+              className="text-blue-400 hover:text-blue-300"
+            >
+              {mode === "register" ? "Sign in" : "Create an account"}
+            </button>
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
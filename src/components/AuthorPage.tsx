@@ -0,0 +1,219 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Author, AuthorPapersResponse, Paper } from "@/types";
+
+interface AuthorPageProps {
+  authorName: string | null;
+  onClose: () => void;
+  onSelectPaper: (paper: Paper) => void;
+}
+
+export function AuthorPage({ authorName, onClose, onSelectPaper }: AuthorPageProps) {
+  const [author, setAuthor] = useState<Author | null>(null);
+  const [papers, setPapers] = useState<Paper[]>([]);
+  const [cursor, setCursor] = useState<string | undefined>();
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUpdatingFollow, setIsUpdatingFollow] = useState(false);
+  const [isBackfilling, setIsBackfilling] = useState(false);
+  const [notFound, setNotFound] = useState(false);
+
+  const loadPage = useCallback(async (authorId: string, pageCursor?: string) => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (pageCursor) params.set("cursor", pageCursor);
+
+      const response = await fetch(`/api/authors/${authorId}?${params}`);
+      if (response.ok) {
+        const data: AuthorPapersResponse = await response.json();
+        setAuthor(data.author);
+        setPapers((prev) => (pageCursor ? [...prev, ...data.papers] : data.papers));
+        setCursor(data.nextCursor);
+        setHasMore(data.hasMore);
+      }
+    } catch (error) {
+      console.error("Failed to load author papers:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!authorName) return;
+
+    async function loadAuthor(name: string) {
+      setAuthor(null);
+      setPapers([]);
+      setNotFound(false);
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/authors?${new URLSearchParams({ name })}`);
+        if (response.ok) {
+          const data = await response.json();
+          await loadPage(data.author.id);
+        } else {
+          setNotFound(response.status === 404);
+          setIsLoading(false);
+        }
+      } catch (error) {
+        console.error("Failed to load author:", error);
+        setIsLoading(false);
+      }
+    }
+
+    loadAuthor(authorName);
+  }, [authorName, loadPage]);
+
+  async function toggleFollow() {
+    if (!author || isUpdatingFollow) return;
+    setIsUpdatingFollow(true);
+    try {
+      const response = await fetch(`/api/authors/${author.id}/follow`, {
+        method: author.isFollowed ? "DELETE" : "POST",
+      });
+      if (response.ok) {
+        // Following also fetches their recent papers, so reload the list
+        await loadPage(author.id);
+      }
+    } catch (error) {
+      console.error("Failed to update follow:", error);
+    } finally {
+      setIsUpdatingFollow(false);
+    }
+  }
+
+  async function backfillFromArxiv() {
+    if (!author || isBackfilling) return;
+    setIsBackfilling(true);
+    try {
+      const response = await fetch(`/api/authors/${author.id}/backfill`, { method: "POST" });
+      if (response.ok) {
+        await loadPage(author.id);
+      }
+    } catch (error) {
+      console.error("Failed to fetch author papers from arXiv:", error);
+    } finally {
+      setIsBackfilling(false);
+    }
+  }
+
+  function formatDate(date: Date) {
+    return new Date(date).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+  }
+
+  if (!authorName) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm">
+      <div className="h-full overflow-y-auto">
+        <div className="min-h-full bg-slate-900 text-white">
+          {/* Header */}
+          <div className="sticky top-0 z-10 bg-slate-900/95 backdrop-blur border-b border-slate-700 p-4">
+            <div className="max-w-3xl mx-auto flex items-center gap-3">
+              <button
+                onClick={onClose}
+                className="p-2 -ml-2 text-slate-400 hover:text-white transition-colors"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+              <div className="flex-1 min-w-0">
+                <h1 className="text-xl font-bold truncate">{author?.name ?? authorName}</h1>
+                {author && (
+                  <p className="text-sm text-slate-400">
+                    {author.paperCount} stored {author.paperCount === 1 ? "paper" : "papers"}
+                  </p>
+                )}
+              </div>
+              {author && (
+                <button
+                  onClick={toggleFollow}
+                  disabled={isUpdatingFollow}
+                  className={`flex-shrink-0 px-4 py-1.5 text-sm rounded-full transition-colors disabled:opacity-50 ${
+                    author.isFollowed
+                      ? "bg-slate-700 hover:bg-slate-600 text-slate-200"
+                      : "bg-blue-600 hover:bg-blue-500 text-white"
+                  }`}
+                >
+                  {author.isFollowed ? "Following" : "Follow"}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="max-w-3xl mx-auto p-4 pb-20">
+            {notFound && (
+              <div className="text-center py-12 text-slate-500">
+                <p>No stored papers by this author yet.</p>
+              </div>
+            )}
+
+            {author && (
+              <div className="flex items-center justify-between mb-4">
+                <p className="text-sm text-slate-500">
+                  {author.isFollowed
+                    ? "Their new papers are boosted in your feed."
+                    : "Follow to boost their new papers in your feed."}
+                </p>
+                <button
+                  onClick={backfillFromArxiv}
+                  disabled={isBackfilling}
+                  className="flex-shrink-0 px-3 py-1 text-sm bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {isBackfilling ? "Searching arXiv..." : "Find more on arXiv"}
+                </button>
+              </div>
+            )}
+
+            {papers.length > 0 && (
+              <div className="space-y-4">
+                {papers.map((paper) => (
+                  <button
+                    key={paper.id}
+                    onClick={() => onSelectPaper(paper)}
+                    className="w-full text-left p-4 bg-slate-800 hover:bg-slate-750 rounded-lg transition-colors border border-slate-700 hover:border-slate-600"
+                  >
+                    <h3 className="font-medium mb-1 line-clamp-2">{paper.title}</h3>
+                    <p className="text-sm text-slate-400 line-clamp-1">
+                      {paper.authors.slice(0, 3).join(", ")}
+                      {paper.authors.length > 3 && ` +${paper.authors.length - 3} more`}
+                    </p>
+                    <p className="text-xs text-slate-500 mt-1">{formatDate(paper.publishedDate)}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {isLoading && (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin h-6 w-6 border-2 border-blue-400 border-t-transparent rounded-full"></div>
+              </div>
+            )}
+
+            {author && hasMore && !isLoading && (
+              <button
+                onClick={() => loadPage(author.id, cursor)}
+                className="block mx-auto mt-6 px-4 py-2 text-sm bg-slate-800 hover:bg-slate-750 rounded-lg transition-colors"
+              >
+                Load more
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
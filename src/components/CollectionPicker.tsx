@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Collection, CollectionMembership } from "@/types";
+
+interface CollectionPickerProps {
+  paperId: string;
+  isSaved: boolean;
+  onToggleSaved: () => void;
+  onClose: () => void;
+}
+
+export function CollectionPicker({ paperId, isSaved, onToggleSaved, onClose }: CollectionPickerProps) {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  // collectionId -> note for every collection this paper is in
+  const [memberships, setMemberships] = useState<Record<string, string>>({});
+  const [newName, setNewName] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchCollections() {
+      try {
+        const response = await fetch(`/api/collections?paperId=${paperId}`);
+        if (response.ok) {
+          const data: { collections: Collection[]; memberships: CollectionMembership[] } =
+            await response.json();
+          setCollections(data.collections);
+          setMemberships(
+            Object.fromEntries(data.memberships.map((m) => [m.collectionId, m.note || ""]))
+          );
+        }
+      } catch (error) {
+        console.error("Failed to load collections:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchCollections();
+  }, [paperId]);
+
+  async function addToCollection(collectionId: string, note?: string) {
+    const response = await fetch(`/api/collections/${collectionId}/papers`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ paperId, note }),
+    });
+    return response.ok;
+  }
+
+  async function toggleMembership(collection: Collection) {
+    if (pendingId) return;
+    setPendingId(collection.id);
+    try {
+      const isMember = collection.id in memberships;
+      if (isMember) {
+        const response = await fetch(
+          `/api/collections/${collection.id}/papers?paperId=${paperId}`,
+          { method: "DELETE" }
+        );
+        if (response.ok) {
+          setMemberships((prev) => {
+            const next = { ...prev };
+            delete next[collection.id];
+            return next;
+          });
+        }
+      } else if (await addToCollection(collection.id)) {
+        setMemberships((prev) => ({ ...prev, [collection.id]: "" }));
+      }
+    } catch (error) {
+      console.error("Failed to update collection:", error);
+    } finally {
+      setPendingId(null);
+    }
+  }
+
+  async function saveNote(collectionId: string) {
+    try {
+      await addToCollection(collectionId, memberships[collectionId]);
+    } catch (error) {
+      console.error("Failed to save note:", error);
+    }
+  }
+
+  async function createCollection(e: React.FormEvent) {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name || pendingId) return;
+
+    setPendingId("new");
+    try {
+      const response = await fetch("/api/collections", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+
+      if (response.ok) {
+        const { collection }: { collection: Collection } = await response.json();
+        setCollections((prev) => [collection, ...prev]);
+        setNewName("");
+        if (await addToCollection(collection.id)) {
+          setMemberships((prev) => ({ ...prev, [collection.id]: "" }));
+        }
+      }
+    } catch (error) {
+      console.error("Failed to create collection:", error);
+    } finally {
+      setPendingId(null);
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] bg-black/60 flex items-end sm:items-center justify-center"
+      onClick={(e) => { e.stopPropagation(); onClose(); }}
+    >
+      <div
+        className="w-full max-w-lg max-h-[80vh] overflow-y-auto bg-slate-900 text-white border border-slate-700 rounded-t-2xl sm:rounded-2xl p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">Save to...</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-white transition-colors"
+            aria-label="Close"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Flat saved list */}
+        <label className="flex items-center gap-3 p-3 mb-2 bg-slate-800 rounded-lg cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isSaved}
+            onChange={onToggleSaved}
+            className="w-4 h-4 accent-pink-500"
+          />
+          <span className="flex-1">Saved papers</span>
+        </label>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin h-5 w-5 border-2 border-blue-400 border-t-transparent rounded-full"></div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {collections.map((collection) => {
+              const isMember = collection.id in memberships;
+              return (
+                <div key={collection.id} className="p-3 bg-slate-800 rounded-lg">
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={isMember}
+                      disabled={pendingId === collection.id}
+                      onChange={() => toggleMembership(collection)}
+                      className="w-4 h-4 accent-blue-500"
+                    />
+                    <span className="flex-1">{collection.name}</span>
+                    <span className="text-xs text-slate-500">{collection.paperCount}</span>
+                  </label>
+                  {isMember && (
+                    <input
+                      type="text"
+                      value={memberships[collection.id]}
+                      onChange={(e) =>
+                        setMemberships((prev) => ({ ...prev, [collection.id]: e.target.value }))
+                      }
+                      onBlur={() => saveNote(collection.id)}
+                      placeholder="Add a note (optional)"
+                      className="mt-2 w-full px-3 py-1.5 text-sm bg-slate-900 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* New collection */}
+        <form onSubmit={createCollection} className="flex gap-2 mt-4">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New collection, e.g. 'RL reading group'"
+            maxLength={100}
+            className="flex-1 px-3 py-2 text-sm bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={!newName.trim() || pendingId === "new"}
+            className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-500 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Create
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
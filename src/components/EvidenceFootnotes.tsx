@@ -0,0 +1,48 @@
+"use client";
+
+import { EvidenceFootnote } from "@/lib/evidence";
+import { DeepSummaryGrounding, EvidenceSpan } from "@/types";
+
+interface EvidenceFootnotesProps {
+  footnotes: EvidenceFootnote[];
+  sections: DeepSummaryGrounding["sections"];
+  activeNumber: number | null;
+  onBack: (number: number) => void;
+}
+
+export function EvidenceFootnotes({ footnotes, sections, activeNumber, onBack }: EvidenceFootnotesProps) {
+  function anchorLabel(span: EvidenceSpan) {
+    if (span.figureIndex !== undefined) return `Figure ${span.figureIndex}`;
+    if (span.sectionId === "abstract") return "Abstract";
+    return sections.find((s) => s.id === span.sectionId)?.title ?? span.sectionId;
+  }
+
+  return (
+    <div className="pt-3 border-t border-slate-700">
+      <h3 className="text-sm font-semibold text-indigo-300 mb-2">Evidence from the paper</h3>
+      <ol className="space-y-2">
+        {footnotes.map(({ number, span }) => (
+          <li
+            key={number}
+            id={`evidence-${number}`}
+            className={`flex items-start gap-2 text-sm rounded-lg p-2 transition-colors ${
+              activeNumber === number ? "bg-indigo-500/20" : ""
+            }`}
+          >
+            <button
+              onClick={() => onBack(number)}
+              title="Back to the claim"
+              className="text-indigo-400 hover:text-indigo-300 font-medium"
+            >
+              [{number}]
+            </button>
+            <div className="min-w-0">
+              <blockquote className="text-slate-300 italic">“{span.quote}”</blockquote>
+              <p className="text-xs text-slate-500 mt-0.5">§ {anchorLabel(span)}</p>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Highlight } from "@/types";
+
+interface HighlightableTextProps {
+  text: string;
+  field: string;
+  highlights: Highlight[];
+  onHighlight: (field: string, start: number, end: number) => void;
+  onRemoveHighlight: (highlight: Highlight) => void;
+  as?: "p" | "span";
+  className?: string;
+}
+
+interface PendingSelection {
+  start: number;
+  end: number;
+  top: number;
+  left: number;
+}
+
+// Find where each highlight sits in the current text. Offsets are trusted when
+// they still match; otherwise fall back to the first occurrence of the stored text.
+function resolveRanges(text: string, highlights: Highlight[]) {
+  return highlights.flatMap((h) => {
+    if (text.slice(h.start, h.end) === h.text) {
+      return [{ highlight: h, start: h.start, end: h.end }];
+    }
+    const index = text.indexOf(h.text);
+    return index >= 0 && h.text ? [{ highlight: h, start: index, end: index + h.text.length }] : [];
+  });
+}
+
+export function HighlightableText({
+  text,
+  field,
+  highlights,
+  onHighlight,
+  onRemoveHighlight,
+  as: Tag = "p",
+  className = "",
+}: HighlightableTextProps) {
+  const containerRef = useRef<HTMLElement>(null);
+  const [pending, setPending] = useState<PendingSelection | null>(null);
+
+  const ranges = resolveRanges(
+    text,
+    highlights.filter((h) => h.field === field)
+  );
+  const boundaries = Array.from(
+    new Set([0, text.length, ...ranges.flatMap((r) => [r.start, r.end])])
+  ).sort((a, b) => a - b);
+
+  function handleSelectionEnd() {
+    const container = containerRef.current;
+    const selection = window.getSelection();
+    if (!container || !selection || selection.isCollapsed || selection.rangeCount === 0) {
+      setPending(null);
+      return;
+    }
+
+    const range = selection.getRangeAt(0);
+    if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) {
+      setPending(null);
+      return;
+    }
+
+    // Character offset of the selection start within the field text
+    const prefix = document.createRange();
+    prefix.selectNodeContents(container);
+    prefix.setEnd(range.startContainer, range.startOffset);
+
+    const selected = range.toString();
+    let start = prefix.toString().length;
+    let end = start + selected.length;
+
+    // Don't store leading/trailing whitespace
+    start += selected.length - selected.trimStart().length;
+    end -= selected.length - selected.trimEnd().length;
+    if (end <= start) {
+      setPending(null);
+      return;
+    }
+
+    const rect = range.getBoundingClientRect();
+    setPending({ start, end, top: rect.top, left: rect.left + rect.width / 2 });
+  }
+
+  function confirmHighlight() {
+    if (!pending) return;
+    onHighlight(field, pending.start, pending.end);
+    window.getSelection()?.removeAllRanges();
+    setPending(null);
+  }
+
+  return (
+    <>
+      <Tag
+        ref={containerRef as React.RefObject<HTMLParagraphElement & HTMLSpanElement>}
+        className={className}
+        onMouseUp={handleSelectionEnd}
+        onTouchEnd={handleSelectionEnd}
+      >
+        {boundaries.slice(0, -1).map((start, i) => {
+          const end = boundaries[i + 1];
+          const segment = text.slice(start, end);
+          const covering = ranges.find((r) => r.start <= start && r.end >= end);
+
+          return covering ? (
+            <mark
+              key={start}
+              onClick={() => onRemoveHighlight(covering.highlight)}
+              className="bg-amber-400/30 text-inherit rounded-sm cursor-pointer hover:bg-amber-400/50"
+              title="Remove highlight"
+            >
+              {segment}
+            </mark>
+          ) : (
+            <span key={start}>{segment}</span>
+          );
+        })}
+      </Tag>
+
+      {pending && (
+        <button
+          // Keep the text selection alive while the button is pressed
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={confirmHighlight}
+          className="fixed z-[70] -translate-x-1/2 -translate-y-full px-3 py-1 text-sm bg-amber-400 text-slate-900 font-medium rounded-lg shadow-lg"
+          style={{ top: pending.top - 8, left: pending.left }}
+        >
+          Highlight
+        </button>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { ReactNode } from "react";
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+type Block =
+  | { type: "heading"; level: number; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "code"; text: string }
+  | { type: "paragraph"; text: string };
+
+const INLINE_PATTERN = /(`[^`]+`|\*\*[^*]+\*\*|\*[^*\s][^*]*\*|_[^_\s][^_]*_|\[[^\]]+\]\([^)\s]+\))/g;
+
+function parseBlocks(source: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = source.replace(/\r\n/g, "\n").split("\n");
+  let paragraph: string[] = [];
+
+  function flushParagraph() {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", text: paragraph.join(" ") });
+      paragraph = [];
+    }
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith("```")) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith("```")) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,3})\s+(.*)$/);
+    const bullet = trimmed.match(/^[-*]\s+(.*)$/);
+    const numbered = trimmed.match(/^\d+[.)]\s+(.*)$/);
+
+    if (!trimmed) {
+      flushParagraph();
+    } else if (heading) {
+      flushParagraph();
+      blocks.push({ type: "heading", level: heading[1].length, text: heading[2] });
+    } else if (bullet || numbered) {
+      flushParagraph();
+      const ordered = !!numbered;
+      const item = (bullet || numbered)![1];
+      const last = blocks[blocks.length - 1];
+      if (last?.type === "list" && last.ordered === ordered) {
+        last.items.push(item);
+      } else {
+        blocks.push({ type: "list", ordered, items: [item] });
+      }
+    } else {
+      paragraph.push(trimmed);
+    }
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+function renderInline(text: string): ReactNode[] {
+  return text.split(INLINE_PATTERN).map((part, i) => {
+    if (part.startsWith("`") && part.endsWith("`") && part.length > 1) {
+      return (
+        <code key={i} className="px-1 py-0.5 bg-slate-900 rounded text-sm">
+          {part.slice(1, -1)}
+        </code>
+      );
+    }
+    if (part.startsWith("**") && part.endsWith("**") && part.length > 4) {
+      return <strong key={i}>{part.slice(2, -2)}</strong>;
+    }
+    if (/^(\*[^*]+\*|_[^_]+_)$/.test(part)) {
+      return <em key={i}>{part.slice(1, -1)}</em>;
+    }
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link) {
+      // Only allow web links, so notes can't smuggle in javascript: URLs
+      return /^https?:\/\//.test(link[2]) ? (
+        <a
+          key={i}
+          href={link[2]}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-400 hover:text-blue-300 underline"
+        >
+          {link[1]}
+        </a>
+      ) : (
+        link[1]
+      );
+    }
+    return part;
+  });
+}
+
+// Renders the Markdown subset used in notes: headings, lists, fenced code,
+// **bold**, *italic*, `code` and [links](https://...). Produces React nodes, never raw HTML.
+export function Markdown({ source, className = "" }: MarkdownProps) {
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {parseBlocks(source).map((block, i) => {
+        switch (block.type) {
+          case "heading":
+            return (
+              <p
+                key={i}
+                className={`font-semibold ${block.level === 1 ? "text-lg" : "text-base"}`}
+              >
+                {renderInline(block.text)}
+              </p>
+            );
+          case "list": {
+            const ListTag = block.ordered ? "ol" : "ul";
+            return (
+              <ListTag
+                key={i}
+                className={`pl-5 space-y-1 ${block.ordered ? "list-decimal" : "list-disc"}`}
+              >
+                {block.items.map((item, j) => (
+                  <li key={j}>{renderInline(item)}</li>
+                ))}
+              </ListTag>
+            );
+          }
+          case "code":
+            return (
+              <pre key={i} className="p-3 bg-slate-900 rounded-lg text-sm overflow-x-auto">
+                <code>{block.text}</code>
+              </pre>
+            );
+          default:
+            return <p key={i}>{renderInline(block.text)}</p>;
+        }
+      })}
+    </div>
+  );
+}
@@ -1,10 +1,23 @@
 "use client";
 
-import { Paper, CATEGORY_LABELS } from "@/types";
+import { Paper, PaperSummary, RankedPaper } from "@/types";
+import { readEventStream } from "@/lib/sse";
+import { categoriesPrimaryFirst, getCategoryLabel } from "@/lib/taxonomy";
 import { useState, useEffect } from "react";
+import { CollectionPicker } from "./CollectionPicker";
+
+// How long a new version is pointed out on the card
+const UPDATED_BADGE_DAYS = 30;
+
+function isRecentlyUpdated(paper: Paper): boolean {
+  return (
+    !!paper.versionUpdatedAt &&
+    Date.now() - new Date(paper.versionUpdatedAt).getTime() < UPDATED_BADGE_DAYS * 86_400_000
+  );
+}
 
 interface PaperCardProps {
-  paper: Paper;
+  paper: Paper | RankedPaper;
   onExpand: (paper: Paper) => void;
   onDiscard?: (paper: Paper) => void;
   isActive: boolean;
@@ -14,11 +27,13 @@ interface PaperCardProps {
 export function PaperCard({ paper, onExpand, onDiscard, isActive, shouldPrefetch = false }: PaperCardProps) {
   const [isSummarizing, setIsSummarizing] = useState(false);
   const [summarizedPaper, setSummarizedPaper] = useState(paper);
+  const [partialSummary, setPartialSummary] = useState<Partial<PaperSummary> | null>(null);
   const [isSaved, setIsSaved] = useState(false);
   const [isDiscarding, setIsDiscarding] = useState(false);
   const [isFetchingFigures, setIsFetchingFigures] = useState(false);
   const [imageError, setImageError] = useState(false);
   const [showLightbox, setShowLightbox] = useState(false);
+  const [showCollectionPicker, setShowCollectionPicker] = useState(false);
 
   useEffect(() => {
     setSummarizedPaper(paper);
@@ -52,16 +67,34 @@ export function PaperCard({ paper, onExpand, onDiscard, isActive, shouldPrefetch
       const response = await fetch("/api/summarize", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ paperId: paper.id }),
+        body: JSON.stringify({ paperId: paper.id, stream: true }),
       });
 
-      if (response.ok) {
+      if (!response.ok) {
+        return;
+      }
+      // A stored summary comes back as plain JSON; a new one streams in
+      if (!response.headers.get("Content-Type")?.startsWith("text/event-stream")) {
         const { paper: updatedPaper } = await response.json();
         setSummarizedPaper(updatedPaper);
+        return;
       }
+      await readEventStream(response, (event, data) => {
+        const payload = data as { summary?: Partial<PaperSummary>; paper?: Paper; error?: string };
+        if (event === "partial" && payload.summary) {
+          setPartialSummary(payload.summary);
+        } else if (event === "reset") {
+          setPartialSummary(null);
+        } else if (event === "done" && payload.paper) {
+          setSummarizedPaper(payload.paper);
+        } else if (event === "error") {
+          console.error("Failed to summarize:", payload.error);
+        }
+      });
     } catch (error) {
       console.error("Failed to summarize:", error);
     } finally {
+      setPartialSummary(null);
       setIsSummarizing(false);
     }
   }
@@ -109,6 +142,14 @@ export function PaperCard({ paper, onExpand, onDiscard, isActive, shouldPrefetch
     }
   }
 
+  // Tapping the heart saves right away, then offers collections to file it under
+  async function openSaveMenu() {
+    if (!isSaved) {
+      await toggleSave();
+    }
+    setShowCollectionPicker(true);
+  }
+
   async function discardPaper() {
     if (isDiscarding) return;
     setIsDiscarding(true);
@@ -137,11 +178,8 @@ export function PaperCard({ paper, onExpand, onDiscard, isActive, shouldPrefetch
     });
   }
 
-  function getCategoryLabel(cat: string): string {
-    return CATEGORY_LABELS[cat] || cat;
-  }
-
-  const displayPaper = summarizedPaper;
+  // Fields of a summary still streaming in show as they arrive
+  const displayPaper = { ...summarizedPaper, ...partialSummary };
 
   return (
     <div className="h-dvh w-full snap-start flex relative bg-gradient-to-b from-slate-900 to-slate-800 text-white overflow-hidden">
@@ -182,7 +220,7 @@ export function PaperCard({ paper, onExpand, onDiscard, isActive, shouldPrefetch
           <div className="flex-1 min-w-0">
             {/* Category tags */}
             <div className="flex flex-wrap gap-2 mb-3">
-              {paper.categories.slice(0, 3).map((cat) => (
+              {categoriesPrimaryFirst(paper).slice(0, 3).map((cat) => (
                 <span
                   key={cat}
                   className="px-2 py-1 text-xs font-medium bg-blue-500/20 text-blue-300 rounded-full"
@@ -190,11 +228,16 @@ export function PaperCard({ paper, onExpand, onDiscard, isActive, shouldPrefetch
                   {getCategoryLabel(cat)}
                 </span>
               ))}
+              {isRecentlyUpdated(paper) && (
+                <span className="px-2 py-1 text-xs font-medium bg-emerald-500/20 text-emerald-300 rounded-full">
+                  v{paper.version} updated
+                </span>
+              )}
             </div>
 
             {/* Hook line */}
             <div className="mb-3 min-h-[2.5rem]">
-              {isSummarizing ? (
+              {isSummarizing && !displayPaper.hook ? (
                 <div className="flex items-center gap-2 text-amber-400">
                   <div className="animate-spin h-4 w-4 border-2 border-amber-400 border-t-transparent rounded-full"></div>
                   <span className="text-sm">Generating summary...</span>
@@ -251,6 +294,12 @@ export function PaperCard({ paper, onExpand, onDiscard, isActive, shouldPrefetch
                 <span className="mx-2">•</span>
                 {formatDate(paper.publishedDate)}
               </p>
+              {/* Why the personal ranking put this paper here */}
+              {"rankExplanation" in paper && (
+                <p className="mt-1 text-xs text-slate-500 line-clamp-2">
+                  {paper.rankExplanation}
+                </p>
+              )}
             </div>
 
             {/* Key concepts */}
@@ -297,7 +346,7 @@ export function PaperCard({ paper, onExpand, onDiscard, isActive, shouldPrefetch
       {/* Right side action buttons - TikTok style */}
       <div className="absolute right-3 bottom-24 flex flex-col gap-4 items-center">
         <button
-          onClick={(e) => { e.stopPropagation(); toggleSave(); }}
+          onClick={(e) => { e.stopPropagation(); openSaveMenu(); }}
           className={`p-3 rounded-full transition-all shadow-lg ${
             isSaved
               ? "bg-pink-500 text-white"
@@ -355,6 +404,15 @@ export function PaperCard({ paper, onExpand, onDiscard, isActive, shouldPrefetch
         </a>
       </div>
 
+      {showCollectionPicker && (
+        <CollectionPicker
+          paperId={paper.id}
+          isSaved={isSaved}
+          onToggleSaved={toggleSave}
+          onClose={() => setShowCollectionPicker(false)}
+        />
+      )}
+
       {/* Figure Lightbox Modal */}
       {showLightbox && displayPaper.selectedFigure && (
         <div
@@ -0,0 +1,240 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ChatThread } from "@/types";
+import { Markdown } from "./Markdown";
+
+interface PaperChatProps {
+  paperId: string;
+}
+
+// A question whose answer is still streaming in
+interface PendingExchange {
+  question: string;
+  answer: string;
+}
+
+export function PaperChat({ paperId }: PaperChatProps) {
+  const [threads, setThreads] = useState<ChatThread[] | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [pending, setPending] = useState<PendingExchange | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop streaming when the detail view closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  async function loadThreads(): Promise<ChatThread[] | null> {
+    try {
+      const response = await fetch(`/api/papers/${paperId}/chat`);
+      if (response.ok) {
+        const data = await response.json();
+        setThreads(data.threads);
+        return data.threads;
+      }
+    } catch (error) {
+      console.error("Failed to load chat threads:", error);
+    }
+    return null;
+  }
+
+  async function open() {
+    if (isLoading) return;
+    setIsLoading(true);
+    const loaded = await loadThreads();
+    setActiveId(loaded?.[0]?.id ?? null);
+    setIsLoading(false);
+  }
+
+  async function ask() {
+    const question = draft.trim();
+    if (!question || pending) return;
+
+    setDraft("");
+    setError(null);
+    setPending({ question, answer: "" });
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    let threadId = activeId;
+    try {
+      const response = await fetch(`/api/papers/${paperId}/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: question, threadId: activeId }),
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => null);
+        setError(data?.error || "Failed to get an answer");
+        setDraft(question);
+        return;
+      }
+
+      threadId = response.headers.get("X-Chat-Thread-Id") ?? activeId;
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        const chunk = decoder.decode(value, { stream: true });
+        setPending((current) => current && { ...current, answer: current.answer + chunk });
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Failed to ask question:", error);
+      setError("The answer was interrupted");
+    } finally {
+      if (!controller.signal.aborted) {
+        await loadThreads();
+        setActiveId(threadId);
+        setPending(null);
+      }
+    }
+  }
+
+  async function deleteThread(id: string) {
+    if (!confirm("Delete this conversation?")) return;
+    try {
+      const response = await fetch(`/api/chats/${id}`, { method: "DELETE" });
+      if (response.ok) {
+        const remaining = (threads ?? []).filter((t) => t.id !== id);
+        setThreads(remaining);
+        setActiveId(remaining[0]?.id ?? null);
+      }
+    } catch (error) {
+      console.error("Failed to delete chat thread:", error);
+    }
+  }
+
+  if (!threads) {
+    return (
+      <button
+        onClick={open}
+        disabled={isLoading}
+        className="inline-flex items-center gap-2 px-4 py-2 mb-6 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm transition-colors disabled:opacity-50"
+      >
+        {isLoading ? (
+          <div className="animate-spin h-4 w-4 border-2 border-blue-400 border-t-transparent rounded-full"></div>
+        ) : (
+          <span>💬</span>
+        )}
+        Ask about this paper
+      </button>
+    );
+  }
+
+  const activeThread = threads.find((t) => t.id === activeId);
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-lg font-semibold mb-3 flex items-center gap-2">
+        <span>💬</span> Ask this paper
+      </h2>
+
+      {threads.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          <button
+            onClick={() => setActiveId(null)}
+            disabled={!!pending}
+            className={`px-3 py-1 rounded-full text-xs border transition-colors disabled:opacity-50 ${
+              activeId === null
+                ? "bg-blue-600 border-blue-500"
+                : "bg-slate-800 border-slate-700 hover:bg-slate-700"
+            }`}
+          >
+            + New chat
+          </button>
+          {threads.map((thread) => (
+            <button
+              key={thread.id}
+              onClick={() => setActiveId(thread.id)}
+              disabled={!!pending}
+              title={thread.title}
+              className={`max-w-[14rem] truncate px-3 py-1 rounded-full text-xs border transition-colors disabled:opacity-50 ${
+                thread.id === activeId
+                  ? "bg-blue-600 border-blue-500"
+                  : "bg-slate-800 border-slate-700 hover:bg-slate-700"
+              }`}
+            >
+              {thread.title}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {activeThread?.messages.map((message) =>
+          message.role === "user" ? (
+            <div key={message.id} className="ml-8 p-3 bg-blue-600/20 border border-blue-500/30 rounded-lg text-sm whitespace-pre-wrap">
+              {message.content}
+            </div>
+          ) : (
+            <div key={message.id} className="mr-8 p-3 bg-slate-800 border border-slate-700 rounded-lg">
+              <Markdown source={message.content} className="text-slate-200 text-sm" />
+            </div>
+          )
+        )}
+
+        {pending && (
+          <>
+            <div className="ml-8 p-3 bg-blue-600/20 border border-blue-500/30 rounded-lg text-sm whitespace-pre-wrap">
+              {pending.question}
+            </div>
+            <div className="mr-8 p-3 bg-slate-800 border border-slate-700 rounded-lg">
+              {pending.answer ? (
+                <Markdown source={pending.answer} className="text-slate-200 text-sm" />
+              ) : (
+                <div className="flex items-center gap-2 text-sm text-slate-400">
+                  <div className="animate-spin h-4 w-4 border-2 border-blue-400 border-t-transparent rounded-full"></div>
+                  Reading the paper...
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+
+      <div className="mt-3">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              ask();
+            }
+          }}
+          rows={2}
+          placeholder='Ask a question, e.g. "What optimizer did they use?"'
+          className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <div className="flex items-center justify-between mt-2">
+          <p className="text-xs text-slate-500">Answers draw on the paper text and may cite sections like [S3].</p>
+          <div className="flex gap-2">
+            {activeThread && (
+              <button
+                onClick={() => deleteThread(activeThread.id)}
+                disabled={!!pending}
+                className="px-3 py-1.5 text-sm text-slate-400 hover:text-red-400 disabled:opacity-50"
+              >
+                Delete chat
+              </button>
+            )}
+            <button
+              onClick={ask}
+              disabled={!!pending || !draft.trim()}
+              className="px-4 py-1.5 text-sm bg-blue-600 hover:bg-blue-500 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Ask
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
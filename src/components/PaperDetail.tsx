@@ -1,18 +1,54 @@
 "use client";
 
-import { Paper, CATEGORY_LABELS, PaperFigure } from "@/types";
+import { Paper, PaperFigure, Note, Highlight, DeepSummary } from "@/types";
+import { numberEvidence } from "@/lib/evidence";
+import { readEventStream } from "@/lib/sse";
+import { categoriesPrimaryFirst, getCategoryLabel, getPrimaryCategory } from "@/lib/taxonomy";
 import { useEffect, useState, useRef } from "react";
+import { CollectionPicker } from "./CollectionPicker";
+import { EvidenceFootnotes } from "./EvidenceFootnotes";
+import { HighlightableText } from "./HighlightableText";
+import { PaperChat } from "./PaperChat";
+import { PaperNotes } from "./PaperNotes";
+import { SimilarPapers } from "./SimilarPapers";
+import { VersionHistory } from "./VersionHistory";
+
+// Fields not streamed in yet
+const EMPTY_DEEP_SUMMARY: DeepSummary = {
+  category: "",
+  problem: "",
+  contributions: [],
+  technicalApproach: "",
+  priorWork: "",
+  evaluation: "",
+  strengths: [],
+  limitations: [],
+  implications: "",
+  figureAnalysis: [],
+};
 
 interface PaperDetailProps {
   paper: Paper;
   onClose: () => void;
+  onSelectPaper?: (paper: Paper) => void;
+  onSelectAuthor?: (name: string) => void;
 }
 
-export function PaperDetail({ paper, onClose }: PaperDetailProps) {
+export function PaperDetail({
+  paper,
+  onClose,
+  onSelectPaper,
+  onSelectAuthor,
+}: PaperDetailProps) {
   const [isSaved, setIsSaved] = useState(false);
   const [displayPaper, setDisplayPaper] = useState(paper);
   const [isLoadingDeepSummary, setIsLoadingDeepSummary] = useState(false);
+  const [partialDeepSummary, setPartialDeepSummary] = useState<Partial<DeepSummary> | null>(null);
   const [lightboxFigure, setLightboxFigure] = useState<PaperFigure | null>(null);
+  const [showCollectionPicker, setShowCollectionPicker] = useState(false);
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [activeFootnote, setActiveFootnote] = useState<number | null>(null);
 
   // Swipe to dismiss state (left-to-right)
   const [dragX, setDragX] = useState(0);
@@ -30,6 +66,8 @@ export function PaperDetail({ paper, onClose }: PaperDetailProps) {
           const data = await response.json();
           setDisplayPaper(data.paper);
           setIsSaved(data.saved);
+          setNotes(data.notes);
+          setHighlights(data.highlights);
         }
       } catch (error) {
         console.error("Failed to fetch paper:", error);
@@ -52,8 +90,8 @@ export function PaperDetail({ paper, onClose }: PaperDetailProps) {
     }
   }, []);
 
-  async function loadDeepSummary() {
-    if (displayPaper.deepSummary || isLoadingDeepSummary) {
+  async function loadDeepSummary(regenerate = false) {
+    if ((displayPaper.deepSummary && !regenerate) || isLoadingDeepSummary) {
       return;
     }
 
@@ -62,16 +100,34 @@ export function PaperDetail({ paper, onClose }: PaperDetailProps) {
       const response = await fetch("/api/deep-summary", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ paperId: paper.id }),
+        body: JSON.stringify({ paperId: paper.id, regenerate, stream: true }),
       });
 
-      if (response.ok) {
+      if (!response.ok) {
+        return;
+      }
+      // A cached deep dive comes back as plain JSON; a new one streams in
+      if (!response.headers.get("Content-Type")?.startsWith("text/event-stream")) {
         const { paper: updatedPaper } = await response.json();
         setDisplayPaper((prev) => ({ ...prev, ...updatedPaper }));
+        return;
       }
+      await readEventStream(response, (event, data) => {
+        const payload = data as { deepSummary?: Partial<DeepSummary>; paper?: Paper; error?: string };
+        if (event === "partial" && payload.deepSummary) {
+          setPartialDeepSummary(payload.deepSummary);
+        } else if (event === "reset") {
+          setPartialDeepSummary(null);
+        } else if (event === "done" && payload.paper) {
+          setDisplayPaper((prev) => ({ ...prev, ...payload.paper }));
+        } else if (event === "error") {
+          console.error("Failed to load deep summary:", payload.error);
+        }
+      });
     } catch (error) {
       console.error("Failed to load deep summary:", error);
     } finally {
+      setPartialDeepSummary(null);
       setIsLoadingDeepSummary(false);
     }
   }
@@ -96,6 +152,127 @@ export function PaperDetail({ paper, onClose }: PaperDetailProps) {
     }
   }
 
+  // Tapping the heart saves right away, then offers collections to file it under
+  async function openSaveMenu() {
+    if (!isSaved) {
+      await toggleSave();
+    }
+    setShowCollectionPicker(true);
+  }
+
+  async function addHighlight(field: string, start: number, end: number) {
+    try {
+      const response = await fetch(`/api/papers/${paper.id}/highlights`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ field, start, end }),
+      });
+
+      if (response.ok) {
+        const { highlight } = await response.json();
+        setHighlights((prev) => [...prev, highlight]);
+      }
+    } catch (error) {
+      console.error("Failed to add highlight:", error);
+    }
+  }
+
+  async function removeHighlight(highlight: Highlight) {
+    if (!confirm("Remove this highlight?")) return;
+    try {
+      const response = await fetch(`/api/highlights/${highlight.id}`, { method: "DELETE" });
+      if (response.ok) {
+        setHighlights((prev) => prev.filter((h) => h.id !== highlight.id));
+      }
+    } catch (error) {
+      console.error("Failed to remove highlight:", error);
+    }
+  }
+
+  function renderHighlightable(
+    text: string,
+    field: string,
+    className: string = "",
+    as: "p" | "span" = "p"
+  ) {
+    return (
+      <HighlightableText
+        text={text}
+        field={field}
+        highlights={highlights}
+        onHighlight={addHighlight}
+        onRemoveHighlight={removeHighlight}
+        className={className}
+        as={as}
+      />
+    );
+  }
+
+  // While a deep dive streams in, the sections written so far replace the stored one
+  const deepSummary: DeepSummary | null | undefined = partialDeepSummary
+    ? { ...EMPTY_DEEP_SUMMARY, ...partialDeepSummary }
+    : displayPaper.deepSummary;
+
+  // Footnotes for the quotes backing deep dive claims; null for summaries
+  // written before quotes were collected
+  const evidence = deepSummary?.evidence ? numberEvidence(deepSummary) : null;
+
+  function jumpToFootnote(number: number) {
+    document.getElementById(`evidence-${number}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    setActiveFootnote(number);
+    setTimeout(() => setActiveFootnote((current) => (current === number ? null : current)), 2000);
+  }
+
+  function jumpToClaim(number: number) {
+    document.getElementById(`evidence-ref-${number}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }
+
+  // Footnote links, or an "unsupported" mark, and tags naming the sections of
+  // the paper body a deep dive claim was drawn from
+  function renderClaimSources(path: string) {
+    const grounding = deepSummary?.grounding;
+    const ids = grounding?.claimSections[path] ?? [];
+    const footnotes = evidence?.byPath[path];
+    if (!ids.length && !footnotes) return null;
+    return (
+      <span className="flex flex-wrap items-center gap-1 mt-1">
+        {footnotes?.map((number) => (
+          <button
+            key={number}
+            id={`evidence-ref-${number}`}
+            onClick={() => jumpToFootnote(number)}
+            className="text-xs text-indigo-400 hover:text-indigo-300"
+          >
+            [{number}]
+          </button>
+        ))}
+        {footnotes?.length === 0 && (
+          <span
+            title="No supporting passage was found in the paper text"
+            className="px-1.5 py-0.5 border border-amber-500/40 text-amber-400 rounded text-xs"
+          >
+            unsupported
+          </span>
+        )}
+        {ids.map((id) => {
+          const title = grounding?.sections.find((s) => s.id === id)?.title ?? id;
+          return (
+            <span
+              key={id}
+              title={title}
+              className="max-w-[12rem] truncate px-1.5 py-0.5 bg-slate-700/60 text-slate-400 rounded text-xs"
+            >
+              § {title}
+            </span>
+          );
+        })}
+      </span>
+    );
+  }
+
+  // Distinct affiliations across all authors, in order of first appearance
+  const affiliations = Array.from(new Set(paper.affiliations?.flat() ?? []));
+
   function formatDate(date: Date) {
     return new Date(date).toLocaleDateString("en-US", {
       weekday: "long",
@@ -105,10 +282,6 @@ export function PaperDetail({ paper, onClose }: PaperDetailProps) {
     });
   }
 
-  function getCategoryLabel(cat: string): string {
-    return CATEGORY_LABELS[cat] || cat;
-  }
-
   // Swipe to dismiss handlers (left-to-right)
   function handleTouchStart(e: React.TouchEvent) {
     touchStartX.current = e.touches[0].clientX;
@@ -175,7 +348,7 @@ export function PaperDetail({ paper, onClose }: PaperDetailProps) {
 
               <div className="flex gap-2">
                 <button
-                  onClick={toggleSave}
+                  onClick={openSaveMenu}
                   className={`p-2 rounded-full transition-colors ${
                     isSaved
                       ? "bg-pink-500/20 text-pink-400"
@@ -220,10 +393,14 @@ export function PaperDetail({ paper, onClose }: PaperDetailProps) {
           <div className="max-w-3xl mx-auto p-4 sm:p-6 pb-20">
             {/* Categories */}
             <div className="flex flex-wrap gap-2 mb-4">
-              {paper.categories.map((cat) => (
+              {categoriesPrimaryFirst(paper).map((cat) => (
                 <span
                   key={cat}
-                  className="px-2 py-1 text-xs font-medium bg-blue-500/20 text-blue-300 rounded-full"
+                  className={`px-2 py-1 text-xs font-medium rounded-full ${
+                    cat === getPrimaryCategory(paper)
+                      ? "bg-blue-500/40 text-blue-200"
+                      : "bg-blue-500/20 text-blue-300"
+                  }`}
                 >
                   {getCategoryLabel(cat)}
                 </span>
@@ -237,12 +414,48 @@ export function PaperDetail({ paper, onClose }: PaperDetailProps) {
 
             {/* Authors and date */}
             <div className="text-slate-400 mb-6">
-              <p className="mb-1">{paper.authors.join(", ")}</p>
-              <p className="text-sm">{formatDate(paper.publishedDate)}</p>
+              <p className="mb-1">
+                {onSelectAuthor
+                  ? paper.authors.map((author, i) => (
+                      <span key={i}>
+                        {i > 0 && ", "}
+                        <button
+                          onClick={() => onSelectAuthor(author)}
+                          className="hover:text-blue-300 hover:underline transition-colors"
+                        >
+                          {author}
+                        </button>
+                      </span>
+                    ))
+                  : paper.authors.join(", ")}
+              </p>
+              {affiliations.length > 0 && (
+                <p className="text-sm text-slate-500 mb-1">{affiliations.join(" · ")}</p>
+              )}
+              <p className="text-sm">
+                {formatDate(paper.publishedDate)}
+                {paper.updatedDate &&
+                  new Date(paper.updatedDate).toDateString() !==
+                    new Date(paper.publishedDate).toDateString() &&
+                  ` · updated ${formatDate(paper.updatedDate)}`}
+              </p>
             </div>
 
+            {/* Publication details from the authors */}
+            {(paper.journalRef || paper.comment) && (
+              <div className="mb-6 space-y-1 text-sm text-slate-300">
+                {paper.journalRef && (
+                  <p>
+                    <span className="text-slate-500">Published in </span>
+                    {paper.journalRef}
+                  </p>
+                )}
+                {paper.comment && <p className="text-slate-400">{paper.comment}</p>}
+              </div>
+            )}
+
             {/* arXiv ID */}
-            <div className="mb-6">
+            <div className="mb-6 flex flex-wrap items-center gap-x-4 gap-y-1">
               <a
                 href={`https://arxiv.org/abs/${paper.arxivId}`}
                 target="_blank"
@@ -251,97 +464,157 @@ export function PaperDetail({ paper, onClose }: PaperDetailProps) {
               >
                 arXiv:{paper.arxivId}
               </a>
+              <a
+                href={`/api/export?format=bibtex&ids=${paper.id}`}
+                download
+                className="text-sm text-slate-400 hover:text-white"
+              >
+                BibTeX
+              </a>
+              {paper.doi && (
+                <a
+                  href={`https://doi.org/${paper.doi}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-blue-400 hover:text-blue-300"
+                >
+                  DOI:{paper.doi}
+                </a>
+              )}
             </div>
 
             {/* Abstract */}
             <div className="mb-6">
               <h2 className="text-lg font-semibold mb-3">Abstract</h2>
-              <p className="text-slate-300 leading-relaxed whitespace-pre-wrap">
-                {paper.abstract}
-              </p>
+              {renderHighlightable(
+                paper.abstract,
+                "abstract",
+                "text-slate-300 leading-relaxed whitespace-pre-wrap"
+              )}
             </div>
 
+            {/* Earlier versions and how the abstract changed */}
+            {paper.version > 1 && <VersionHistory paperId={paper.id} version={paper.version} />}
+
+            {/* Personal notes */}
+            <PaperNotes paperId={paper.id} notes={notes} onNotesChange={setNotes} />
+
+            {/* Follow-up questions answered from the paper text */}
+            <PaperChat paperId={paper.id} />
+
             {/* Deep Summary */}
             <div className="bg-gradient-to-b from-indigo-900/50 to-slate-800 rounded-xl p-4 sm:p-6 mb-6 border border-indigo-500/30">
                 <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
                   <span>🔬</span> Deep Dive
                 </h2>
 
-                {isLoadingDeepSummary ? (
+                {isLoadingDeepSummary && !partialDeepSummary ? (
                   <div className="flex items-center gap-2 text-indigo-400">
                     <div className="animate-spin h-4 w-4 border-2 border-indigo-400 border-t-transparent rounded-full"></div>
                     <span>Analyzing paper in depth...</span>
                   </div>
-                ) : displayPaper.deepSummary ? (
+                ) : deepSummary ? (
                   <div className="space-y-5">
+                    {displayPaper.deepSummaryStale && !isLoadingDeepSummary && (
+                      <div className="flex items-center justify-between gap-3 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-sm text-amber-200">
+                        <span>Written for an earlier version of the abstract.</span>
+                        <button
+                          onClick={() => loadDeepSummary(true)}
+                          className="flex-shrink-0 px-3 py-1 bg-amber-500/20 hover:bg-amber-500/30 rounded-lg transition-colors"
+                        >
+                          Regenerate
+                        </button>
+                      </div>
+                    )}
+
                     {/* Paper Category */}
-                    <div className="inline-block px-3 py-1 bg-indigo-500/20 text-indigo-300 rounded-full text-sm">
-                      {displayPaper.deepSummary.category}
+                    <div className="flex flex-wrap items-center gap-3">
+                      {deepSummary.category && (
+                        <div className="inline-block px-3 py-1 bg-indigo-500/20 text-indigo-300 rounded-full text-sm">
+                          {deepSummary.category}
+                        </div>
+                      )}
+                      {deepSummary.grounding && (
+                        <span className="text-xs text-slate-500">
+                          {deepSummary.grounding.source === "abstract"
+                            ? "Based on the abstract only; the full text was unavailable"
+                            : `Based on the full text (${deepSummary.grounding.source === "ar5iv" ? "ar5iv" : "PDF"})`}
+                        </span>
+                      )}
                     </div>
 
                     {/* Problem & Motivation */}
-                    {displayPaper.deepSummary.problem && (
+                    {deepSummary.problem && (
                       <div>
                         <h3 className="text-sm font-semibold text-indigo-300 mb-2 flex items-center gap-2">
                           Problem & Motivation
                         </h3>
-                        <p className="text-slate-300">{displayPaper.deepSummary.problem}</p>
+                        {renderHighlightable(deepSummary.problem, "deepSummary.problem", "text-slate-300")}
+                        {renderClaimSources("problem")}
                       </div>
                     )}
 
                     {/* Core Contributions */}
-                    <div>
-                      <h3 className="text-sm font-semibold text-indigo-300 mb-2 flex items-center gap-2">
-                        Core Contributions
-                      </h3>
-                      <ul className="space-y-2">
-                        {displayPaper.deepSummary.contributions.map((contribution, i) => (
-                          <li key={i} className="text-slate-200 flex items-start gap-2">
-                            <span className="text-indigo-400 font-bold">{i + 1}.</span>
-                            <span>{contribution}</span>
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
+                    {deepSummary.contributions?.length > 0 && (
+                      <div>
+                        <h3 className="text-sm font-semibold text-indigo-300 mb-2 flex items-center gap-2">
+                          Core Contributions
+                        </h3>
+                        <ul className="space-y-2">
+                          {deepSummary.contributions.map((contribution, i) => (
+                            <li key={i} className="text-slate-200 flex items-start gap-2">
+                              <span className="text-indigo-400 font-bold">{i + 1}.</span>
+                              <div className="min-w-0">
+                                {renderHighlightable(contribution, `deepSummary.contributions.${i}`, "", "span")}
+                                {renderClaimSources(`contributions.${i}`)}
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
 
                     {/* Technical Approach */}
-                    {displayPaper.deepSummary.technicalApproach && (
+                    {deepSummary.technicalApproach && (
                       <div>
                         <h3 className="text-sm font-semibold text-indigo-300 mb-2 flex items-center gap-2">
                           Technical Approach
                         </h3>
-                        <p className="text-slate-300">{displayPaper.deepSummary.technicalApproach}</p>
+                        {renderHighlightable(deepSummary.technicalApproach, "deepSummary.technicalApproach", "text-slate-300")}
+                        {renderClaimSources("technicalApproach")}
                       </div>
                     )}
 
                     {/* Relation to Prior Work */}
-                    {displayPaper.deepSummary.priorWork && (
+                    {deepSummary.priorWork && (
                       <div>
                         <h3 className="text-sm font-semibold text-indigo-300 mb-2 flex items-center gap-2">
                           Relation to Prior Work
                         </h3>
-                        <p className="text-slate-300">{displayPaper.deepSummary.priorWork}</p>
+                        {renderHighlightable(deepSummary.priorWork, "deepSummary.priorWork", "text-slate-300")}
+                        {renderClaimSources("priorWork")}
                       </div>
                     )}
 
                     {/* Evaluation & Results */}
-                    {displayPaper.deepSummary.evaluation && (
+                    {deepSummary.evaluation && (
                       <div>
                         <h3 className="text-sm font-semibold text-indigo-300 mb-2 flex items-center gap-2">
                           Evaluation & Results
                         </h3>
-                        <p className="text-slate-300">{displayPaper.deepSummary.evaluation}</p>
+                        {renderHighlightable(deepSummary.evaluation, "deepSummary.evaluation", "text-slate-300")}
+                        {renderClaimSources("evaluation")}
                       </div>
                     )}
 
                     {/* Figure Analysis */}
-                    {displayPaper.deepSummary.figureAnalysis?.length > 0 && (
+                    {deepSummary.figureAnalysis?.length > 0 && (
                       <div>
                         <h3 className="text-sm font-semibold text-indigo-300 mb-3 flex items-center gap-2">
                           Key Figures
                         </h3>
                         <div className="space-y-4">
-                          {displayPaper.deepSummary.figureAnalysis.map((figAnalysis, i) => {
+                          {deepSummary.figureAnalysis.map((figAnalysis, i) => {
                             const figure = getFigureByIndex(figAnalysis.figureIndex);
                             return (
                               <div key={i} className="bg-slate-800/50 rounded-lg p-3">
@@ -374,6 +647,7 @@ export function PaperDetail({ paper, onClose }: PaperDetailProps) {
                                 <p className="text-sm text-slate-400">
                                   <span className="text-indigo-400">Significance:</span> {figAnalysis.significance}
                                 </p>
+                                {renderClaimSources(`figureAnalysis.${i}`)}
                               </div>
                             );
                           })}
@@ -382,16 +656,19 @@ export function PaperDetail({ paper, onClose }: PaperDetailProps) {
                     )}
 
                     {/* Strengths */}
-                    {displayPaper.deepSummary.strengths?.length > 0 && (
+                    {deepSummary.strengths?.length > 0 && (
                       <div>
                         <h3 className="text-sm font-semibold text-green-400 mb-2 flex items-center gap-2">
                           Strengths
                         </h3>
                         <ul className="space-y-1">
-                          {displayPaper.deepSummary.strengths.map((strength, i) => (
+                          {deepSummary.strengths.map((strength, i) => (
                             <li key={i} className="text-slate-300 flex items-start gap-2 text-sm">
                               <span className="text-green-400">+</span>
-                              <span>{strength}</span>
+                              <div className="min-w-0">
+                                {renderHighlightable(strength, `deepSummary.strengths.${i}`, "", "span")}
+                                {renderClaimSources(`strengths.${i}`)}
+                              </div>
                             </li>
                           ))}
                         </ul>
@@ -399,29 +676,50 @@ export function PaperDetail({ paper, onClose }: PaperDetailProps) {
                     )}
 
                     {/* Limitations */}
-                    {displayPaper.deepSummary.limitations?.length > 0 && (
+                    {deepSummary.limitations?.length > 0 && (
                       <div>
                         <h3 className="text-sm font-semibold text-amber-400 mb-2 flex items-center gap-2">
                           Limitations & Open Questions
                         </h3>
                         <ul className="space-y-1">
-                          {displayPaper.deepSummary.limitations.map((limitation, i) => (
+                          {deepSummary.limitations.map((limitation, i) => (
                             <li key={i} className="text-slate-400 flex items-start gap-2 text-sm">
                               <span className="text-amber-500">-</span>
-                              <span>{limitation}</span>
+                              <div className="min-w-0">
+                                {renderHighlightable(limitation, `deepSummary.limitations.${i}`, "", "span")}
+                                {renderClaimSources(`limitations.${i}`)}
+                              </div>
                             </li>
                           ))}
                         </ul>
                       </div>
                     )}
 
+                    {/* Quotes backing the claims above */}
+                    {evidence && evidence.footnotes.length > 0 && (
+                      <EvidenceFootnotes
+                        footnotes={evidence.footnotes}
+                        sections={deepSummary.grounding?.sections ?? []}
+                        activeNumber={activeFootnote}
+                        onBack={jumpToClaim}
+                      />
+                    )}
+
                     {/* Implications & Extensions */}
-                    {displayPaper.deepSummary.implications && (
+                    {deepSummary.implications && (
                       <div className="pt-3 border-t border-slate-700">
                         <h3 className="text-sm font-semibold text-indigo-300 mb-2 flex items-center gap-2">
                           Implications & Future Directions
                         </h3>
-                        <p className="text-slate-300">{displayPaper.deepSummary.implications}</p>
+                        {renderHighlightable(deepSummary.implications, "deepSummary.implications", "text-slate-300")}
+                        {renderClaimSources("implications")}
+                      </div>
+                    )}
+
+                    {isLoadingDeepSummary && (
+                      <div className="flex items-center gap-2 text-sm text-indigo-400">
+                        <div className="animate-spin h-4 w-4 border-2 border-indigo-400 border-t-transparent rounded-full"></div>
+                        <span>Still writing...</span>
                       </div>
                     )}
                   </div>
@@ -430,6 +728,9 @@ export function PaperDetail({ paper, onClose }: PaperDetailProps) {
                 )}
               </div>
 
+            {/* Semantically similar stored papers */}
+            {onSelectPaper && <SimilarPapers paperId={paper.id} onSelectPaper={onSelectPaper} />}
+
             {/* PDF Link */}
             <div className="mt-8">
               <a
@@ -453,6 +754,15 @@ export function PaperDetail({ paper, onClose }: PaperDetailProps) {
         </div>
       </div>
 
+      {showCollectionPicker && (
+        <CollectionPicker
+          paperId={paper.id}
+          isSaved={isSaved}
+          onToggleSaved={toggleSave}
+          onClose={() => setShowCollectionPicker(false)}
+        />
+      )}
+
       {/* Figure Lightbox Modal */}
       {lightboxFigure && (
         <div
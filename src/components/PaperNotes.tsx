@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import { Note } from "@/types";
+import { Markdown } from "./Markdown";
+
+interface PaperNotesProps {
+  paperId: string;
+  notes: Note[];
+  onNotesChange: (notes: Note[]) => void;
+}
+
+export function PaperNotes({ paperId, notes, onNotesChange }: PaperNotesProps) {
+  const [draft, setDraft] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  async function addNote() {
+    if (!draft.trim() || isSaving) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/papers/${paperId}/notes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: draft }),
+      });
+
+      if (response.ok) {
+        const { note } = await response.json();
+        onNotesChange([...notes, note]);
+        setDraft("");
+      }
+    } catch (error) {
+      console.error("Failed to add note:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function saveEdit(id: string) {
+    if (!editDraft.trim() || isSaving) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/notes/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: editDraft }),
+      });
+
+      if (response.ok) {
+        const { note } = await response.json();
+        onNotesChange(notes.map((n) => (n.id === id ? note : n)));
+        setEditingId(null);
+      }
+    } catch (error) {
+      console.error("Failed to update note:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function deleteNote(id: string) {
+    if (!confirm("Delete this note?")) return;
+    try {
+      const response = await fetch(`/api/notes/${id}`, { method: "DELETE" });
+      if (response.ok) {
+        onNotesChange(notes.filter((n) => n.id !== id));
+      }
+    } catch (error) {
+      console.error("Failed to delete note:", error);
+    }
+  }
+
+  function formatDate(date: Date) {
+    return new Date(date).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+  }
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-lg font-semibold mb-3 flex items-center gap-2">
+        <span>📝</span> My Notes
+      </h2>
+
+      <div className="space-y-3">
+        {notes.map((note) => (
+          <div key={note.id} className="p-3 bg-slate-800 rounded-lg border border-slate-700">
+            {editingId === note.id ? (
+              <>
+                <textarea
+                  value={editDraft}
+                  onChange={(e) => setEditDraft(e.target.value)}
+                  rows={4}
+                  className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <div className="flex justify-end gap-2 mt-2">
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="px-3 py-1 text-sm text-slate-400 hover:text-white"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => saveEdit(note.id)}
+                    disabled={isSaving || !editDraft.trim()}
+                    className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-500 rounded-lg disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <Markdown source={note.body} className="text-slate-200 text-sm" />
+                <div className="flex items-center gap-3 mt-2 text-xs text-slate-500">
+                  <span>{formatDate(note.updatedAt)}</span>
+                  <button
+                    onClick={() => {
+                      setEditingId(note.id);
+                      setEditDraft(note.body);
+                    }}
+                    className="hover:text-white"
+                  >
+                    Edit
+                  </button>
+                  <button onClick={() => deleteNote(note.id)} className="hover:text-red-400">
+                    Delete
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={3}
+          placeholder="Add a note... (Markdown supported)"
+          className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <div className="flex items-center justify-between mt-2">
+          <p className="text-xs text-slate-500">Select text in the abstract or deep dive to highlight it.</p>
+          <button
+            onClick={addNote}
+            disabled={isSaving || !draft.trim()}
+            className="px-4 py-1.5 text-sm bg-blue-600 hover:bg-blue-500 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add note
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
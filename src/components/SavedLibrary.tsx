@@ -0,0 +1,408 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  Paper,
+  SavedPaperEntry,
+  SavedSort,
+  SavedPapersResponse,
+  Collection,
+  CollectionPaperEntry,
+  CollectionPapersResponse,
+  NoteSearchResult,
+} from "@/types";
+import { categoriesPrimaryFirst, getCategoryLabel } from "@/lib/taxonomy";
+
+interface SavedLibraryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelectPaper: (paper: Paper) => void;
+}
+
+type LibraryEntry = SavedPaperEntry | CollectionPaperEntry;
+
+const EXPORT_OPTIONS = [
+  { format: "bibtex", label: "BibTeX" },
+  { format: "ris", label: "RIS" },
+  { format: "csljson", label: "CSL-JSON" },
+];
+
+const SORT_OPTIONS: { value: SavedSort; label: string }[] = [
+  { value: "savedAt", label: "Date saved" },
+  { value: "publishedDate", label: "Published" },
+  { value: "title", label: "Title" },
+];
+
+export function SavedLibrary({ isOpen, onClose, onSelectPaper }: SavedLibraryProps) {
+  const [papers, setPapers] = useState<LibraryEntry[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  // null shows the flat saved list, otherwise the selected collection
+  const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null);
+  const [sort, setSort] = useState<SavedSort>("savedAt");
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [categoryCounts, setCategoryCounts] = useState<Record<string, number>>({});
+  const [total, setTotal] = useState(0);
+  const [cursor, setCursor] = useState<string | undefined>();
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [noteQuery, setNoteQuery] = useState("");
+  const [noteResults, setNoteResults] = useState<NoteSearchResult[]>([]);
+
+  const loadPage = useCallback(
+    async (pageCursor?: string) => {
+      setIsLoading(true);
+      try {
+        if (activeCollectionId) {
+          const params = new URLSearchParams();
+          if (pageCursor) params.set("cursor", pageCursor);
+
+          const response = await fetch(`/api/collections/${activeCollectionId}?${params}`);
+          if (response.ok) {
+            const data: CollectionPapersResponse = await response.json();
+            setPapers((prev) => (pageCursor ? [...prev, ...data.papers] : data.papers));
+            setCursor(data.nextCursor);
+            setHasMore(data.hasMore);
+            setTotal(data.collection.paperCount);
+          }
+          return;
+        }
+
+        const params = new URLSearchParams({ sort });
+        if (pageCursor) params.set("cursor", pageCursor);
+        if (selectedCategories.length > 0) {
+          params.set("categories", selectedCategories.join(","));
+        }
+
+        const response = await fetch(`/api/saved?${params}`);
+        if (response.ok) {
+          const data: SavedPapersResponse = await response.json();
+          setPapers((prev) => (pageCursor ? [...prev, ...data.papers] : data.papers));
+          setCursor(data.nextCursor);
+          setHasMore(data.hasMore);
+          setTotal(data.total);
+          setCategoryCounts(data.categoryCounts);
+        }
+      } catch (error) {
+        console.error("Failed to load saved papers:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [sort, selectedCategories, activeCollectionId]
+  );
+
+  // Reload from the first page whenever the library opens or filters change
+  useEffect(() => {
+    if (isOpen) {
+      loadPage();
+    }
+  }, [isOpen, loadPage]);
+
+  const loadCollections = useCallback(async () => {
+    try {
+      const response = await fetch("/api/collections");
+      if (response.ok) {
+        const data: { collections: Collection[] } = await response.json();
+        setCollections(data.collections);
+      }
+    } catch (error) {
+      console.error("Failed to load collections:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadCollections();
+    }
+  }, [isOpen, loadCollections]);
+
+  // Debounced search over personal notes
+  useEffect(() => {
+    const query = noteQuery.trim();
+    if (!query) {
+      setNoteResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/notes?q=${encodeURIComponent(query)}`);
+        if (response.ok) {
+          const data: { notes: NoteSearchResult[] } = await response.json();
+          setNoteResults(data.notes);
+        }
+      } catch (error) {
+        console.error("Failed to search notes:", error);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [noteQuery]);
+
+  async function openNotePaper(paperId: string) {
+    try {
+      const response = await fetch(`/api/papers/${paperId}`);
+      if (response.ok) {
+        const { paper } = await response.json();
+        onSelectPaper(paper);
+      }
+    } catch (error) {
+      console.error("Failed to open paper:", error);
+    }
+  }
+
+  async function deleteActiveCollection() {
+    const collection = collections.find((c) => c.id === activeCollectionId);
+    if (!collection || !confirm(`Delete the collection "${collection.name}"? Papers stay in your library.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/collections/${collection.id}`, { method: "DELETE" });
+      if (response.ok) {
+        setCollections((prev) => prev.filter((c) => c.id !== collection.id));
+        setActiveCollectionId(null);
+      }
+    } catch (error) {
+      console.error("Failed to delete collection:", error);
+    }
+  }
+
+  function toggleCategory(cat: string) {
+    setSelectedCategories((prev) =>
+      prev.includes(cat) ? prev.filter((c) => c !== cat) : [...prev, cat]
+    );
+  }
+
+  function formatDate(date: Date) {
+    return new Date(date).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+  }
+
+  if (!isOpen) return null;
+
+  const categories = Object.entries(categoryCounts).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm">
+      <div className="h-full overflow-y-auto">
+        <div className="min-h-full bg-slate-900 text-white">
+          {/* Header */}
+          <div className="sticky top-0 z-10 bg-slate-900/95 backdrop-blur border-b border-slate-700 p-4">
+            <div className="max-w-3xl mx-auto">
+              <div className="flex items-center gap-3 mb-4">
+                <button
+                  onClick={onClose}
+                  className="p-2 -ml-2 text-slate-400 hover:text-white transition-colors"
+                >
+                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M6 18L18 6M6 6l12 12"
+                    />
+                  </svg>
+                </button>
+                <h1 className="text-xl font-bold">Library</h1>
+                <span className="ml-auto text-sm text-slate-500">
+                  {total} {activeCollectionId ? "papers" : "saved"}
+                </span>
+              </div>
+
+              <input
+                type="search"
+                value={noteQuery}
+                onChange={(e) => setNoteQuery(e.target.value)}
+                placeholder="Search your notes..."
+                className="w-full mb-3 px-3 py-2 text-sm bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+
+              {/* Collections */}
+              {collections.length > 0 && (
+                <div className="flex gap-2 mb-3 overflow-x-auto scrollbar-hide">
+                  <button
+                    onClick={() => setActiveCollectionId(null)}
+                    className={`flex-shrink-0 px-3 py-1 text-sm rounded-full transition-colors ${
+                      activeCollectionId === null
+                        ? "bg-pink-500 text-white"
+                        : "bg-slate-800 text-slate-400 hover:text-white"
+                    }`}
+                  >
+                    All saved
+                  </button>
+                  {collections.map((collection) => (
+                    <button
+                      key={collection.id}
+                      onClick={() => setActiveCollectionId(collection.id)}
+                      className={`flex-shrink-0 px-3 py-1 text-sm rounded-full transition-colors ${
+                        activeCollectionId === collection.id
+                          ? "bg-pink-500 text-white"
+                          : "bg-slate-800 text-slate-400 hover:text-white"
+                      }`}
+                    >
+                      {collection.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* Export the current list */}
+              {total > 0 && (
+                <div className="flex items-center gap-3 mb-3 text-xs text-slate-500">
+                  <span>Export:</span>
+                  {EXPORT_OPTIONS.map(({ format, label }) => (
+                    <a
+                      key={format}
+                      href={`/api/export?format=${format}&${
+                        activeCollectionId ? `collection=${activeCollectionId}` : "saved=true"
+                      }`}
+                      download
+                      className="text-blue-400 hover:text-blue-300"
+                    >
+                      {label}
+                    </a>
+                  ))}
+                </div>
+              )}
+
+              {activeCollectionId && (
+                <button
+                  onClick={deleteActiveCollection}
+                  className="block mb-3 text-xs text-slate-500 hover:text-red-400 transition-colors"
+                >
+                  Delete collection
+                </button>
+              )}
+
+              {/* Sort */}
+              <div className={`flex gap-2 mb-3 ${activeCollectionId ? "hidden" : ""}`}>
+                {SORT_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setSort(option.value)}
+                    className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                      sort === option.value
+                        ? "bg-blue-600 text-white"
+                        : "bg-slate-800 text-slate-400 hover:text-white"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+
+              {/* Category filters */}
+              {categories.length > 0 && !activeCollectionId && (
+                <div className="flex flex-wrap gap-2">
+                  {categories.map(([cat, count]) => (
+                    <button
+                      key={cat}
+                      onClick={() => toggleCategory(cat)}
+                      className={`px-2 py-1 text-xs font-medium rounded-full transition-colors ${
+                        selectedCategories.includes(cat)
+                          ? "bg-blue-500 text-white"
+                          : "bg-blue-500/20 text-blue-300 hover:bg-blue-500/30"
+                      }`}
+                    >
+                      {getCategoryLabel(cat)} ({count})
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Note search results replace the list while a query is entered */}
+          {noteQuery.trim() ? (
+            <div className="max-w-3xl mx-auto p-4 pb-20 space-y-4">
+              {noteResults.length === 0 && (
+                <p className="text-center py-12 text-slate-500">No notes match your search.</p>
+              )}
+              {noteResults.map((note) => (
+                <button
+                  key={note.id}
+                  onClick={() => openNotePaper(note.paper.id)}
+                  className="w-full text-left p-4 bg-slate-800 hover:bg-slate-750 rounded-lg transition-colors border border-slate-700 hover:border-slate-600"
+                >
+                  <h3 className="font-medium mb-1 line-clamp-1">{note.paper.title}</h3>
+                  <p className="text-sm text-slate-300 line-clamp-3 whitespace-pre-wrap">{note.body}</p>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <div className="max-w-3xl mx-auto p-4 pb-20">
+              {!isLoading && papers.length === 0 && (
+                <div className="text-center py-12">
+                  <div className="text-6xl mb-4">📚</div>
+                  <h2 className="text-xl font-semibold mb-2">
+                    {activeCollectionId ? "This collection is empty" : "Nothing saved yet"}
+                  </h2>
+                  <p className="text-slate-400 max-w-md mx-auto">
+                    Tap the heart on a paper to add it to your library or a collection.
+                  </p>
+                </div>
+              )}
+
+              {papers.length > 0 && (
+                <div className="space-y-4">
+                  {papers.map((paper) => (
+                    <button
+                      key={paper.id}
+                      onClick={() => onSelectPaper(paper)}
+                      className="w-full text-left p-4 bg-slate-800 hover:bg-slate-750 rounded-lg transition-colors border border-slate-700 hover:border-slate-600"
+                    >
+                      <div className="flex flex-wrap gap-2 mb-2">
+                        {categoriesPrimaryFirst(paper).slice(0, 3).map((cat) => (
+                          <span
+                            key={cat}
+                            className="px-2 py-0.5 text-xs font-medium bg-blue-500/20 text-blue-300 rounded-full"
+                          >
+                            {cat}
+                          </span>
+                        ))}
+                      </div>
+                      <h3 className="font-medium mb-1 line-clamp-2">{paper.title}</h3>
+                      <p className="text-sm text-slate-400 line-clamp-1">
+                        {paper.authors.slice(0, 3).join(", ")}
+                        {paper.authors.length > 3 && ` +${paper.authors.length - 3} more`}
+                      </p>
+                      <p className="text-xs text-slate-500 mt-1">
+                        Published {formatDate(paper.publishedDate)}
+                        <span className="mx-2">•</span>
+                        {"savedAt" in paper
+                          ? `Saved ${formatDate(paper.savedAt)}`
+                          : `Added ${formatDate(paper.addedAt)}`}
+                      </p>
+                      {"note" in paper && paper.note && (
+                        <p className="text-sm text-slate-300 mt-2 italic line-clamp-2">{paper.note}</p>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {isLoading && (
+                <div className="flex justify-center py-6">
+                  <div className="animate-spin h-6 w-6 border-2 border-blue-400 border-t-transparent rounded-full"></div>
+                </div>
+              )}
+
+              {hasMore && !isLoading && (
+                <button
+                  onClick={() => loadPage(cursor)}
+                  className="block mx-auto mt-6 px-4 py-2 text-sm bg-slate-800 hover:bg-slate-750 rounded-lg transition-colors"
+                >
+                  Load more
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,58 +1,81 @@
 "use client";
 
 import { useEffect, useRef, useState, useCallback } from "react";
-import { Paper } from "@/types";
+import { FeedPage, Paper } from "@/types";
 import { PaperCard } from "./PaperCard";
 
+// How long a card must stay active before it counts as seen
+const SEEN_DWELL_MS = 2500;
+// Pending seen papers are sent in batches on this interval (or when the batch fills up)
+const SEEN_FLUSH_INTERVAL_MS = 5000;
+const SEEN_BATCH_SIZE = 10;
+
 interface ScrollFeedProps {
   initialPapers: Paper[];
   onExpandPaper: (paper: Paper) => void;
+  // Fetches the page after `cursor`; defaults to the user's feed
+  loadPage?: (cursor?: string) => Promise<FeedPage>;
+  initialCursor?: string;
+  initialHasMore?: boolean;
 }
 
-export function ScrollFeed({ initialPapers, onExpandPaper }: ScrollFeedProps) {
+async function fetchFeedPage(cursor?: string): Promise<FeedPage> {
+  const params = new URLSearchParams();
+  if (cursor) params.set("cursor", cursor);
+
+  const response = await fetch(`/api/feed?${params}`);
+  if (!response.ok) {
+    throw new Error(`Feed request failed: ${response.status}`);
+  }
+  return response.json();
+}
+
+export function ScrollFeed({
+  initialPapers,
+  onExpandPaper,
+  loadPage = fetchFeedPage,
+  initialCursor,
+  initialHasMore = true,
+}: ScrollFeedProps) {
   const [papers, setPapers] = useState<Paper[]>(initialPapers);
   const [isLoading, setIsLoading] = useState(false);
-  const [cursor, setCursor] = useState<string | undefined>();
-  const [hasMore, setHasMore] = useState(true);
+  const [cursor, setCursor] = useState<string | undefined>(initialCursor);
+  const [hasMore, setHasMore] = useState(initialHasMore);
   const [activeIndex, setActiveIndex] = useState(0);
   const containerRef = useRef<HTMLDivElement>(null);
   const observerRef = useRef<IntersectionObserver | null>(null);
   const cardRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+  const pendingSeenRef = useRef<Set<string>>(new Set());
+  const recordedSeenRef = useRef<Set<string>>(new Set());
 
   // Reset feed when initialPapers changes (e.g., Home button refresh)
   useEffect(() => {
     setPapers(initialPapers);
-    setCursor(undefined);
-    setHasMore(true);
+    setCursor(initialCursor);
+    setHasMore(initialHasMore);
     setActiveIndex(0);
-  }, [initialPapers]);
+  }, [initialPapers, initialCursor, initialHasMore]);
 
   const loadMore = useCallback(async () => {
     if (isLoading || !hasMore) return;
 
     setIsLoading(true);
     try {
-      const params = new URLSearchParams();
-      if (cursor) params.set("cursor", cursor);
-
-      const response = await fetch(`/api/feed?${params}`);
-      if (response.ok) {
-        const data = await response.json();
-        // Deduplicate papers by id when appending
-        setPapers((prev) => {
-          const existingIds = new Set(prev.map((p) => p.id));
-          const newPapers = data.papers.filter((p: Paper) => !existingIds.has(p.id));
-          return [...prev, ...newPapers];
-        });
-        setCursor(data.nextCursor);
-        setHasMore(data.hasMore);
-      }
+      const data = await loadPage(cursor);
+      // Deduplicate papers by id when appending
+      setPapers((prev) => {
+        const existingIds = new Set(prev.map((p) => p.id));
+        const newPapers = data.papers.filter((p) => !existingIds.has(p.id));
+        return [...prev, ...newPapers];
+      });
+      setCursor(data.nextCursor);
+      setHasMore(data.hasMore);
     } catch (error) {
       console.error("Failed to load more papers:", error);
     } finally {
       setIsLoading(false);
     }
-  }, [cursor, hasMore, isLoading]);
+  }, [cursor, hasMore, isLoading, loadPage]);
 
   // Set up intersection observer for active card detection
   useEffect(() => {
@@ -92,6 +115,64 @@ export function ScrollFeed({ initialPapers, onExpandPaper }: ScrollFeedProps) {
     };
   }, [papers]);
 
+  const flushSeen = useCallback((useBeacon: boolean = false) => {
+    const paperIds = Array.from(pendingSeenRef.current);
+    if (paperIds.length === 0) return;
+    pendingSeenRef.current.clear();
+
+    const body = JSON.stringify({ paperIds });
+    // sendBeacon survives the page being closed, a regular fetch may not
+    if (useBeacon && typeof navigator.sendBeacon === "function") {
+      navigator.sendBeacon("/api/seen", body);
+      return;
+    }
+
+    fetch("/api/seen", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+      keepalive: true,
+    }).catch((error) => {
+      console.error("Failed to mark papers as seen:", error);
+      // Put them back so the next flush retries
+      paperIds.forEach((id) => pendingSeenRef.current.add(id));
+    });
+  }, []);
+
+  // Record the active card as seen once it has been on screen for the dwell time
+  const activePaperId = papers[activeIndex]?.id;
+  useEffect(() => {
+    if (!activePaperId || recordedSeenRef.current.has(activePaperId)) return;
+
+    const timer = setTimeout(() => {
+      recordedSeenRef.current.add(activePaperId);
+      pendingSeenRef.current.add(activePaperId);
+      if (pendingSeenRef.current.size >= SEEN_BATCH_SIZE) {
+        flushSeen();
+      }
+    }, SEEN_DWELL_MS);
+
+    return () => clearTimeout(timer);
+  }, [activePaperId, flushSeen]);
+
+  // Flush pending seen papers periodically and whenever the page is hidden
+  useEffect(() => {
+    const interval = setInterval(() => flushSeen(), SEEN_FLUSH_INTERVAL_MS);
+
+    function handleVisibilityChange() {
+      if (document.visibilityState === "hidden") {
+        flushSeen(true);
+      }
+    }
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      flushSeen(true);
+    };
+  }, [flushSeen]);
+
   // Load more when near the end
   useEffect(() => {
     if (activeIndex >= papers.length - 3 && hasMore && !isLoading) {
@@ -0,0 +1,258 @@
+"use client";
+
+import { useState } from "react";
+import { SearchField, SearchFilters, SearchOperator } from "@/types";
+import { getCategoryLabel, resolveCategory } from "@/lib/taxonomy";
+import { SEARCH_FIELDS, SEARCH_OPERATORS, getSearchFieldLabel } from "@/lib/searchFilters";
+
+interface SearchFilterChipsProps {
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+  disabled?: boolean;
+}
+
+type FilterKind = SearchField | "category" | "date";
+
+interface FilterDraft {
+  kind: FilterKind;
+  termIndex: number | null; // Term being edited, null when adding one
+  operator: SearchOperator;
+  value: string;
+  dateFrom: string;
+  dateTo: string;
+}
+
+const KIND_OPTIONS: { kind: FilterKind; label: string }[] = [
+  ...SEARCH_FIELDS.map(({ field, label }) => ({ kind: field as FilterKind, label })),
+  { kind: "category", label: "Category" },
+  { kind: "date", label: "Submitted" },
+];
+
+function operatorLabel(operator: SearchOperator): string {
+  return SEARCH_OPERATORS.find((o) => o.operator === operator)?.label ?? operator;
+}
+
+function describeDates(filters: SearchFilters): string {
+  if (filters.dateFrom && filters.dateTo) return `${filters.dateFrom} – ${filters.dateTo}`;
+  if (filters.dateFrom) return `since ${filters.dateFrom}`;
+  return `until ${filters.dateTo}`;
+}
+
+export function SearchFilterChips({ filters, onChange, disabled }: SearchFilterChipsProps) {
+  const [draft, setDraft] = useState<FilterDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  function startDraft(kind: FilterKind, termIndex: number | null = null) {
+    const term = termIndex !== null ? filters.terms[termIndex] : null;
+    setError(null);
+    setDraft({
+      kind,
+      termIndex,
+      operator: term?.operator ?? "AND",
+      value: term?.value ?? "",
+      dateFrom: filters.dateFrom ?? "",
+      dateTo: filters.dateTo ?? "",
+    });
+  }
+
+  function removeTerm(index: number) {
+    onChange({ ...filters, terms: filters.terms.filter((_, i) => i !== index) });
+  }
+
+  function removeCategory(code: string) {
+    onChange({ ...filters, categories: filters.categories.filter((c) => c !== code) });
+  }
+
+  function removeDates() {
+    onChange({ ...filters, dateFrom: undefined, dateTo: undefined });
+  }
+
+  function applyDraft(e: React.FormEvent) {
+    e.preventDefault();
+    if (!draft) return;
+
+    if (draft.kind === "date") {
+      if (draft.dateFrom && draft.dateTo && draft.dateFrom > draft.dateTo) {
+        setError("The start date must be before the end date");
+        return;
+      }
+      onChange({
+        ...filters,
+        dateFrom: draft.dateFrom || undefined,
+        dateTo: draft.dateTo || undefined,
+      });
+    } else if (draft.kind === "category") {
+      const code = resolveCategory(draft.value.trim());
+      if (!code) {
+        setError(`Unknown arXiv category: ${draft.value.trim()}`);
+        return;
+      }
+      if (!filters.categories.includes(code)) {
+        onChange({ ...filters, categories: [...filters.categories, code] });
+      }
+    } else {
+      if (!draft.value.trim()) {
+        setError("Enter something to search for");
+        return;
+      }
+      const term = { field: draft.kind, value: draft.value.trim(), operator: draft.operator };
+      const terms =
+        draft.termIndex !== null
+          ? filters.terms.map((t, i) => (i === draft.termIndex ? term : t))
+          : [...filters.terms, term];
+      onChange({ ...filters, terms });
+    }
+
+    setDraft(null);
+  }
+
+  const hasDates = !!filters.dateFrom || !!filters.dateTo;
+  const chipClass =
+    "inline-flex items-center gap-1 pl-3 pr-1 py-0.5 text-xs rounded-full transition-colors";
+
+  return (
+    <div className="mb-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {filters.terms.map((term, i) => (
+          <span
+            key={i}
+            className={`${chipClass} ${
+              term.operator === "ANDNOT"
+                ? "bg-red-500/15 text-red-300"
+                : "bg-blue-500/20 text-blue-300"
+            }`}
+          >
+            <button onClick={() => startDraft(term.field, i)} disabled={disabled}>
+              {(i > 0 || term.operator === "ANDNOT") && (
+                <span className="uppercase opacity-70">{operatorLabel(term.operator)} </span>
+              )}
+              {getSearchFieldLabel(term.field)}: {term.value}
+            </button>
+            <button
+              onClick={() => removeTerm(i)}
+              disabled={disabled}
+              className="px-1 opacity-70 hover:opacity-100"
+              title="Remove filter"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {filters.categories.map((code) => (
+          <span key={code} className={`${chipClass} bg-purple-500/20 text-purple-300`}>
+            <span title={getCategoryLabel(code)}>{code}</span>
+            <button
+              onClick={() => removeCategory(code)}
+              disabled={disabled}
+              className="px-1 opacity-70 hover:opacity-100"
+              title="Remove filter"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {hasDates && (
+          <span className={`${chipClass} bg-emerald-500/20 text-emerald-300`}>
+            <button onClick={() => startDraft("date")} disabled={disabled}>
+              Submitted {describeDates(filters)}
+            </button>
+            <button
+              onClick={removeDates}
+              disabled={disabled}
+              className="px-1 opacity-70 hover:opacity-100"
+              title="Remove filter"
+            >
+              ×
+            </button>
+          </span>
+        )}
+        <button
+          onClick={() => startDraft("all")}
+          disabled={disabled}
+          className="px-3 py-0.5 text-xs text-slate-400 border border-dashed border-slate-600 rounded-full hover:text-white hover:border-slate-400 transition-colors"
+        >
+          + Filter
+        </button>
+      </div>
+
+      {draft && (
+        <form
+          onSubmit={applyDraft}
+          className="mt-3 p-3 bg-slate-800 rounded-lg border border-slate-700 flex flex-wrap items-center gap-2"
+        >
+          <select
+            value={draft.kind}
+            onChange={(e) => setDraft({ ...draft, kind: e.target.value as FilterKind })}
+            disabled={draft.termIndex !== null}
+            className="px-2 py-1 text-sm bg-slate-900 border border-slate-700 rounded"
+          >
+            {KIND_OPTIONS.map((option) => (
+              <option key={option.kind} value={option.kind}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+
+          {draft.kind === "date" ? (
+            <>
+              <input
+                type="date"
+                value={draft.dateFrom}
+                onChange={(e) => setDraft({ ...draft, dateFrom: e.target.value })}
+                className="px-2 py-1 text-sm bg-slate-900 border border-slate-700 rounded"
+              />
+              <span className="text-sm text-slate-500">to</span>
+              <input
+                type="date"
+                value={draft.dateTo}
+                onChange={(e) => setDraft({ ...draft, dateTo: e.target.value })}
+                className="px-2 py-1 text-sm bg-slate-900 border border-slate-700 rounded"
+              />
+            </>
+          ) : (
+            <>
+              {draft.kind !== "category" && (
+                <select
+                  value={draft.operator}
+                  onChange={(e) =>
+                    setDraft({ ...draft, operator: e.target.value as SearchOperator })
+                  }
+                  className="px-2 py-1 text-sm bg-slate-900 border border-slate-700 rounded"
+                >
+                  {SEARCH_OPERATORS.map((option) => (
+                    <option key={option.operator} value={option.operator}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <input
+                type="text"
+                value={draft.value}
+                onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+                placeholder={draft.kind === "category" ? "e.g. cs.LG" : "Search for..."}
+                className="flex-1 min-w-[10rem] px-2 py-1 text-sm bg-slate-900 border border-slate-700 rounded text-white placeholder-slate-500"
+                autoFocus
+              />
+            </>
+          )}
+
+          <button
+            type="submit"
+            className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-500 rounded transition-colors"
+          >
+            Apply
+          </button>
+          <button
+            type="button"
+            onClick={() => setDraft(null)}
+            className="px-3 py-1 text-sm text-slate-400 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          {error && <p className="w-full text-sm text-red-400">{error}</p>}
+        </form>
+      )}
+    </div>
+  );
+}
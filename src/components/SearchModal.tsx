@@ -1,32 +1,68 @@
 "use client";
 
-import { useState } from "react";
-import { Paper } from "@/types";
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  FeedPage,
+  Paper,
+  SearchFilters,
+  SearchRequest,
+  SearchResponse,
+  SearchResult,
+  SearchScope,
+  Subscription,
+} from "@/types";
+import { hasSearchCriteria } from "@/lib/searchFilters";
+import { categoriesPrimaryFirst } from "@/lib/taxonomy";
+import { SearchFilterChips } from "./SearchFilterChips";
+import { SubscriptionList } from "./SubscriptionList";
 
 interface SearchModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSelectPaper: (paper: Paper) => void;
+  onOpenFeed: (request: SearchRequest, page: FeedPage) => void;
+  onOpenSubscription: (subscription: Subscription) => void;
 }
 
-interface SearchInterpretation {
-  query: string;
-  categories: string[];
-  sortBy: string;
-  explanation: string;
-}
+const SCOPE_OPTIONS: { scope: SearchScope; label: string }[] = [
+  { scope: "library", label: "My library" },
+  { scope: "stored", label: "Everything stored" },
+  { scope: "arxiv", label: "arXiv" },
+];
 
-export function SearchModal({ isOpen, onClose, onSelectPaper }: SearchModalProps) {
+export function SearchModal({
+  isOpen,
+  onClose,
+  onSelectPaper,
+  onOpenFeed,
+  onOpenSubscription,
+}: SearchModalProps) {
   const [query, setQuery] = useState("");
+  // The query the current results were interpreted from
+  const [submittedQuery, setSubmittedQuery] = useState("");
+  const [scope, setScope] = useState<SearchScope>("arxiv");
   const [isSearching, setIsSearching] = useState(false);
-  const [results, setResults] = useState<Paper[]>([]);
-  const [interpretation, setInterpretation] = useState<SearchInterpretation | null>(null);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [request, setRequest] = useState<SearchRequest | null>(null);
+  const [explanation, setExplanation] = useState<string | null>(null);
   const [hasSearched, setHasSearched] = useState(false);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [subscribedFilters, setSubscribedFilters] = useState<SearchFilters | null>(null);
+  const [isSubscribing, setIsSubscribing] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Bumped by every new search so pages of an older one are dropped
+  const searchIdRef = useRef(0);
 
-  async function handleSearch(e: React.FormEvent) {
-    e.preventDefault();
-    if (!query.trim() || isSearching) return;
+  // A new query is interpreted from scratch; passing filters re-runs the
+  // current search as shown in the chips
+  async function runSearch(searchScope: SearchScope, searchFilters?: SearchFilters) {
+    if ((!query.trim() && !searchFilters) || isSearching) return;
 
+    const searchId = ++searchIdRef.current;
     setIsSearching(true);
     setHasSearched(true);
 
@@ -34,13 +70,24 @@ export function SearchModal({ isOpen, onClose, onSelectPaper }: SearchModalProps
       const response = await fetch("/api/search", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ query: query.trim() }),
+        body: JSON.stringify(
+          searchFilters
+            ? { filters: searchFilters, sortBy: request?.sortBy, scope: searchScope }
+            : { query: query.trim(), scope: searchScope }
+        ),
       });
 
-      if (response.ok) {
-        const data = await response.json();
+      if (response.ok && searchId === searchIdRef.current) {
+        const data: SearchResponse = await response.json();
         setResults(data.papers);
-        setInterpretation(data.interpretation || null);
+        setRequest({ filters: data.filters, sortBy: data.sortBy, scope: data.scope });
+        setTotal(data.total);
+        setNextCursor(data.nextCursor);
+        setHasMore(data.hasMore);
+        if (!searchFilters) {
+          setSubmittedQuery(query.trim());
+          setExplanation(data.interpretation?.explanation || null);
+        }
       }
     } catch (error) {
       console.error("Search failed:", error);
@@ -49,6 +96,111 @@ export function SearchModal({ isOpen, onClose, onSelectPaper }: SearchModalProps
     }
   }
 
+  // Next page of the current search, with the filters the first page used
+  const loadMore = useCallback(async () => {
+    if (!request || !hasMore || isLoadingMore) return;
+
+    const searchId = searchIdRef.current;
+    setIsLoadingMore(true);
+    try {
+      const response = await fetch("/api/search", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...request, cursor: nextCursor }),
+      });
+
+      if (response.ok && searchId === searchIdRef.current) {
+        const data: SearchResponse = await response.json();
+        // Merged arXiv pages can repeat a stored paper from an earlier page
+        setResults((prev) => {
+          const existingIds = new Set(prev.map((p) => p.id));
+          return [...prev, ...data.papers.filter((p) => !existingIds.has(p.id))];
+        });
+        setNextCursor(data.nextCursor);
+        setHasMore(data.hasMore);
+      }
+    } catch (error) {
+      console.error("Failed to load more results:", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [request, hasMore, isLoadingMore, nextCursor]);
+
+  // Infinite scroll: load the next page as the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!isOpen || !sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          loadMore();
+        }
+      },
+      { root: scrollRef.current, rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [isOpen, hasMore, loadMore]);
+
+  function handleSearch(e: React.FormEvent) {
+    e.preventDefault();
+    runSearch(scope);
+  }
+
+  function handleScopeChange(newScope: SearchScope) {
+    setScope(newScope);
+    if (hasSearched) {
+      runSearch(newScope, request?.filters);
+    }
+  }
+
+  function handleFiltersChange(newFilters: SearchFilters) {
+    if (hasSearchCriteria(newFilters)) {
+      runSearch(scope, newFilters);
+    } else {
+      setRequest((prev) => prev && { ...prev, filters: newFilters });
+      setResults([]);
+      setHasMore(false);
+    }
+  }
+
+  function handleOpenFeed() {
+    if (!request) return;
+    onOpenFeed(request, { papers: results, nextCursor, hasMore });
+    onClose();
+  }
+
+  // Subscribes to the filters as shown, so edits to the chips carry over
+  async function handleSubscribe() {
+    if (!request || isSubscribing) return;
+
+    setIsSubscribing(true);
+    try {
+      const response = await fetch("/api/subscriptions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          query: submittedQuery,
+          filters: request.filters,
+          explanation,
+        }),
+      });
+      if (response.ok) {
+        setSubscribedFilters(request.filters);
+      }
+    } catch (error) {
+      console.error("Failed to subscribe:", error);
+    } finally {
+      setIsSubscribing(false);
+    }
+  }
+
+  function handleOpenSubscription(subscription: Subscription) {
+    onOpenSubscription(subscription);
+    onClose();
+  }
+
   function handleSelectPaper(paper: Paper) {
     onSelectPaper(paper);
     onClose();
@@ -58,7 +210,7 @@ export function SearchModal({ isOpen, onClose, onSelectPaper }: SearchModalProps
 
   return (
     <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm">
-      <div className="h-full overflow-y-auto">
+      <div ref={scrollRef} className="h-full overflow-y-auto">
         <div className="min-h-full bg-slate-900 text-white">
           {/* Header */}
           <div className="sticky top-0 z-10 bg-slate-900/95 backdrop-blur border-b border-slate-700 p-4">
@@ -80,13 +232,34 @@ export function SearchModal({ isOpen, onClose, onSelectPaper }: SearchModalProps
                 <h1 className="text-xl font-bold">Search Papers</h1>
               </div>
 
+              <div className="flex gap-2 mb-3">
+                {SCOPE_OPTIONS.map((option) => (
+                  <button
+                    key={option.scope}
+                    onClick={() => handleScopeChange(option.scope)}
+                    disabled={isSearching}
+                    className={`px-3 py-1 text-sm rounded-full transition-colors ${
+                      scope === option.scope
+                        ? "bg-blue-600 text-white"
+                        : "bg-slate-800 text-slate-300 hover:bg-slate-700"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+
               <form onSubmit={handleSearch}>
                 <div className="relative">
                   <input
                     type="text"
                     value={query}
                     onChange={(e) => setQuery(e.target.value)}
-                    placeholder="Search with natural language... (e.g., 'papers about protein folding with transformers')"
+                    placeholder={
+                      scope === "arxiv"
+                        ? "Search with natural language... (e.g., 'papers about protein folding with transformers')"
+                        : "Search titles, authors, abstracts and summaries..."
+                    }
                     className="w-full px-4 py-3 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     autoFocus
                   />
@@ -116,20 +289,24 @@ export function SearchModal({ isOpen, onClose, onSelectPaper }: SearchModalProps
           {/* Content */}
           <div className="max-w-3xl mx-auto p-4">
             {/* AI Interpretation */}
-            {interpretation && (
-              <div className="bg-blue-500/10 border border-blue-500/30 rounded-lg p-4 mb-6">
+            {explanation && (
+              <div className="bg-blue-500/10 border border-blue-500/30 rounded-lg p-4 mb-4">
                 <div className="flex items-start gap-2">
                   <span className="text-blue-400">✨</span>
-                  <div>
-                    <p className="text-sm text-blue-300">{interpretation.explanation}</p>
-                    <p className="text-xs text-slate-500 mt-1">
-                      Searching: &quot;{interpretation.query}&quot; in {interpretation.categories.join(", ")}
-                    </p>
-                  </div>
+                  <p className="text-sm text-blue-300">{explanation}</p>
                 </div>
               </div>
             )}
 
+            {/* Filters, editable */}
+            {request && (
+              <SearchFilterChips
+                filters={request.filters}
+                onChange={handleFiltersChange}
+                disabled={isSearching}
+              />
+            )}
+
             {/* Results */}
             {hasSearched && results.length === 0 && !isSearching && (
               <div className="text-center py-12 text-slate-500">
@@ -139,7 +316,27 @@ export function SearchModal({ isOpen, onClose, onSelectPaper }: SearchModalProps
 
             {results.length > 0 && (
               <div className="space-y-4">
-                <p className="text-sm text-slate-500">{results.length} papers found</p>
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-slate-500">
+                    Showing {results.length} of {Math.max(total, results.length)} papers
+                  </p>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleSubscribe}
+                      disabled={isSubscribing || subscribedFilters === request?.filters}
+                      className="px-3 py-1 text-sm bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors disabled:opacity-50"
+                      title="Collect new papers matching this search"
+                    >
+                      {subscribedFilters === request?.filters ? "Subscribed" : "Subscribe"}
+                    </button>
+                    <button
+                      onClick={handleOpenFeed}
+                      className="px-3 py-1 text-sm bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors"
+                    >
+                      Open as feed
+                    </button>
+                  </div>
+                </div>
                 {results.map((paper) => (
                   <button
                     key={paper.id}
@@ -147,7 +344,7 @@ export function SearchModal({ isOpen, onClose, onSelectPaper }: SearchModalProps
                     className="w-full text-left p-4 bg-slate-800 hover:bg-slate-750 rounded-lg transition-colors border border-slate-700 hover:border-slate-600"
                   >
                     <div className="flex flex-wrap gap-2 mb-2">
-                      {paper.categories.slice(0, 3).map((cat) => (
+                      {categoriesPrimaryFirst(paper).slice(0, 3).map((cat) => (
                         <span
                           key={cat}
                           className="px-2 py-0.5 text-xs font-medium bg-blue-500/20 text-blue-300 rounded-full"
@@ -155,18 +352,46 @@ export function SearchModal({ isOpen, onClose, onSelectPaper }: SearchModalProps
                           {cat}
                         </span>
                       ))}
+                      {scope === "arxiv" && paper.source !== "arxiv" && (
+                        <span className="px-2 py-0.5 text-xs font-medium bg-emerald-500/20 text-emerald-300 rounded-full">
+                          Stored
+                        </span>
+                      )}
                     </div>
                     <h3 className="font-medium mb-1 line-clamp-2">{paper.title}</h3>
                     <p className="text-sm text-slate-400 line-clamp-1">
                       {paper.authors.slice(0, 3).join(", ")}
                       {paper.authors.length > 3 && ` +${paper.authors.length - 3} more`}
                     </p>
+                    {paper.snippet && (
+                      <p className="text-sm text-slate-500 mt-2 line-clamp-2">
+                        {paper.snippet.map((part, i) =>
+                          part.match ? (
+                            <mark key={i} className="bg-amber-400/30 text-inherit rounded-sm">
+                              {part.text}
+                            </mark>
+                          ) : (
+                            <span key={i}>{part.text}</span>
+                          )
+                        )}
+                      </p>
+                    )}
                   </button>
                 ))}
+
+                {/* Infinite scroll trigger */}
+                <div ref={sentinelRef} className="flex justify-center py-4">
+                  {isLoadingMore && (
+                    <div className="animate-spin h-6 w-6 border-2 border-blue-400 border-t-transparent rounded-full"></div>
+                  )}
+                </div>
               </div>
             )}
 
             {/* Initial state */}
+            {!hasSearched && (
+              <SubscriptionList onOpenSubscription={handleOpenSubscription} />
+            )}
             {!hasSearched && (
               <div className="text-center py-12">
                 <div className="text-6xl mb-4">🔍</div>
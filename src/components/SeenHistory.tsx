@@ -0,0 +1,168 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Paper, SeenPaperEntry, SeenHistoryResponse } from "@/types";
+
+interface SeenHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelectPaper: (paper: Paper) => void;
+}
+
+export function SeenHistory({ isOpen, onClose, onSelectPaper }: SeenHistoryProps) {
+  const [papers, setPapers] = useState<SeenPaperEntry[]>([]);
+  const [cursor, setCursor] = useState<string | undefined>();
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [unseeingId, setUnseeingId] = useState<string | null>(null);
+
+  const loadPage = useCallback(async (pageCursor?: string) => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (pageCursor) params.set("cursor", pageCursor);
+
+      const response = await fetch(`/api/seen?${params}`);
+      if (response.ok) {
+        const data: SeenHistoryResponse = await response.json();
+        setPapers((prev) => (pageCursor ? [...prev, ...data.papers] : data.papers));
+        setCursor(data.nextCursor);
+        setHasMore(data.hasMore);
+      }
+    } catch (error) {
+      console.error("Failed to load seen history:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadPage();
+    }
+  }, [isOpen, loadPage]);
+
+  async function unseePaper(paper: SeenPaperEntry) {
+    if (unseeingId) return;
+    setUnseeingId(paper.id);
+    try {
+      const response = await fetch(`/api/papers/${paper.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "unsee" }),
+      });
+
+      if (response.ok) {
+        setPapers((prev) => prev.filter((p) => p.id !== paper.id));
+      }
+    } catch (error) {
+      console.error("Failed to un-see paper:", error);
+    } finally {
+      setUnseeingId(null);
+    }
+  }
+
+  function formatSeenAt(date: Date) {
+    return new Date(date).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  }
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm">
+      <div className="h-full overflow-y-auto">
+        <div className="min-h-full bg-slate-900 text-white">
+          {/* Header */}
+          <div className="sticky top-0 z-10 bg-slate-900/95 backdrop-blur border-b border-slate-700 p-4">
+            <div className="max-w-3xl mx-auto flex items-center gap-3">
+              <button
+                onClick={onClose}
+                className="p-2 -ml-2 text-slate-400 hover:text-white transition-colors"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+              <h1 className="text-xl font-bold">Recently Seen</h1>
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="max-w-3xl mx-auto p-4 pb-20">
+            {!isLoading && papers.length === 0 && (
+              <div className="text-center py-12">
+                <div className="text-6xl mb-4">👀</div>
+                <h2 className="text-xl font-semibold mb-2">No history yet</h2>
+                <p className="text-slate-400 max-w-md mx-auto">
+                  Papers you scroll past in the feed show up here.
+                </p>
+              </div>
+            )}
+
+            {papers.length > 0 && (
+              <div className="space-y-4">
+                <p className="text-sm text-slate-500">
+                  Un-see a paper to let it show up in your feed again.
+                </p>
+                {papers.map((paper) => (
+                  <div
+                    key={paper.id}
+                    className="flex items-start gap-3 p-4 bg-slate-800 rounded-lg border border-slate-700"
+                  >
+                    <button
+                      onClick={() => onSelectPaper(paper)}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <h3 className="font-medium mb-1 line-clamp-2 hover:text-blue-300 transition-colors">
+                        {paper.title}
+                      </h3>
+                      <p className="text-sm text-slate-400 line-clamp-1">
+                        {paper.authors.slice(0, 3).join(", ")}
+                        {paper.authors.length > 3 && ` +${paper.authors.length - 3} more`}
+                      </p>
+                      <p className="text-xs text-slate-500 mt-1">
+                        {paper.discarded ? "Discarded" : "Seen"} {formatSeenAt(paper.seenAt)}
+                      </p>
+                    </button>
+                    <button
+                      onClick={() => unseePaper(paper)}
+                      disabled={unseeingId === paper.id}
+                      className="flex-shrink-0 px-3 py-1 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      Un-see
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {isLoading && (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin h-6 w-6 border-2 border-blue-400 border-t-transparent rounded-full"></div>
+              </div>
+            )}
+
+            {hasMore && !isLoading && (
+              <button
+                onClick={() => loadPage(cursor)}
+                className="block mx-auto mt-6 px-4 py-2 text-sm bg-slate-800 hover:bg-slate-750 rounded-lg transition-colors"
+              >
+                Load more
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FeedRank, User, UserPreferences } from "@/types";
+import { ARXIV_ARCHIVES, getCategory, resolveCategory } from "@/lib/taxonomy";
+
+interface SettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  user: User | null;
+  onSignOut: () => void;
+  onFeedSettingsChange: () => void;
+}
+
+export function Settings({
+  isOpen,
+  onClose,
+  user,
+  onSignOut,
+  onFeedSettingsChange,
+}: SettingsProps) {
+  const [saved, setSaved] = useState<UserPreferences | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [feedRank, setFeedRank] = useState<FeedRank>("chronological");
+  const [recencyWeight, setRecencyWeight] = useState(0.3);
+  const [filter, setFilter] = useState("");
+  const [expanded, setExpanded] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    async function loadPreferences() {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch("/api/preferences");
+        if (response.ok) {
+          const { preferences }: { preferences: UserPreferences } = await response.json();
+          // Older preferences may hold alias codes; show them as their canonical category
+          const categories = preferences.feedCategories.map((c) => resolveCategory(c) ?? c);
+          setSaved({ ...preferences, feedCategories: categories });
+          setSelected(categories);
+          setFeedRank(preferences.feedRank);
+          setRecencyWeight(preferences.recencyWeight);
+          // Open the archives that already have something selected
+          setExpanded(
+            ARXIV_ARCHIVES.filter((a) =>
+              a.categories.some((c) => categories.includes(c.aliasOf ?? c.code))
+            ).map((a) => a.code)
+          );
+        }
+      } catch (err) {
+        console.error("Failed to load preferences:", err);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadPreferences();
+  }, [isOpen]);
+
+  function toggleCategory(code: string) {
+    setSelected((prev) =>
+      prev.includes(code) ? prev.filter((c) => c !== code) : [...prev, code]
+    );
+  }
+
+  function toggleArchive(code: string) {
+    setExpanded((prev) =>
+      prev.includes(code) ? prev.filter((c) => c !== code) : [...prev, code]
+    );
+  }
+
+  async function savePreferences() {
+    if (selected.length === 0 || isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ feedCategories: selected, feedRank, recencyWeight }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to save settings");
+        return;
+      }
+
+      setSaved(data.preferences);
+      onFeedSettingsChange();
+      onClose();
+    } catch (err) {
+      console.error("Failed to save preferences:", err);
+      setError("Failed to save settings");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  if (!isOpen) return null;
+
+  const query = filter.trim().toLowerCase();
+  const archives = ARXIV_ARCHIVES.map((archive) => ({
+    ...archive,
+    categories: query
+      ? archive.categories.filter(
+          (c) =>
+            c.code.toLowerCase().includes(query) ||
+            c.name.toLowerCase().includes(query) ||
+            c.description.toLowerCase().includes(query) ||
+            archive.name.toLowerCase().includes(query)
+        )
+      : archive.categories,
+  })).filter((archive) => archive.categories.length > 0);
+
+  const hasChanges =
+    !!saved &&
+    (selected.length !== saved.feedCategories.length ||
+      selected.some((c) => !saved.feedCategories.includes(c)) ||
+      feedRank !== saved.feedRank ||
+      recencyWeight !== saved.recencyWeight);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm">
+      <div className="h-full overflow-y-auto">
+        <div className="min-h-full bg-slate-900 text-white">
+          {/* Header */}
+          <div className="sticky top-0 z-10 bg-slate-900/95 backdrop-blur border-b border-slate-700 p-4">
+            <div className="max-w-3xl mx-auto flex items-center gap-3">
+              <button
+                onClick={onClose}
+                className="p-2 -ml-2 text-slate-400 hover:text-white transition-colors"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+              <h1 className="text-xl font-bold flex-1">Settings</h1>
+              <button
+                onClick={savePreferences}
+                disabled={!hasChanges || selected.length === 0 || isSaving}
+                className="px-4 py-1.5 text-sm bg-blue-600 hover:bg-blue-500 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="max-w-3xl mx-auto p-4 pb-20">
+            {/* Account */}
+            <section className="mb-8">
+              <h2 className="text-lg font-semibold mb-3">Account</h2>
+              <div className="flex items-center justify-between p-4 bg-slate-800 rounded-lg border border-slate-700">
+                <div className="min-w-0">
+                  {user?.name && <p className="font-medium truncate">{user.name}</p>}
+                  <p className="text-sm text-slate-400 truncate">{user?.email}</p>
+                </div>
+                <button
+                  onClick={onSignOut}
+                  className="flex-shrink-0 px-3 py-1 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-lg transition-colors"
+                >
+                  Sign out
+                </button>
+              </div>
+            </section>
+
+            {/* Feed ranking */}
+            <section className="mb-8">
+              <h2 className="text-lg font-semibold mb-1">Feed order</h2>
+              <p className="text-sm text-slate-400 mb-4">
+                Personal ranking learns from the papers you save and discard.
+              </p>
+              <div className="flex gap-2 mb-4">
+                {(["chronological", "personal"] as FeedRank[]).map((rank) => (
+                  <button
+                    key={rank}
+                    onClick={() => setFeedRank(rank)}
+                    className={`px-3 py-1 text-sm rounded-full transition-colors ${
+                      feedRank === rank
+                        ? "bg-blue-600 text-white"
+                        : "bg-slate-800 text-slate-300 hover:bg-slate-700"
+                    }`}
+                  >
+                    {rank === "personal" ? "For you" : "Newest first"}
+                  </button>
+                ))}
+              </div>
+              {feedRank === "personal" && (
+                <label className="block">
+                  <div className="flex justify-between text-sm text-slate-400 mb-2">
+                    <span>Relevance</span>
+                    <span>Recency</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.1}
+                    value={recencyWeight}
+                    onChange={(e) => setRecencyWeight(parseFloat(e.target.value))}
+                    className="w-full accent-blue-500"
+                  />
+                </label>
+              )}
+            </section>
+
+            {/* Feed categories */}
+            <section>
+              <h2 className="text-lg font-semibold mb-1">Feed categories</h2>
+              <p className="text-sm text-slate-400 mb-4">
+                Your feed pulls new papers from these arXiv categories.
+              </p>
+
+              {selected.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {selected.map((code) => (
+                    <button
+                      key={code}
+                      onClick={() => toggleCategory(code)}
+                      title={getCategory(code)?.name}
+                      className="px-3 py-1 text-sm bg-blue-600/20 text-blue-300 rounded-full hover:bg-blue-600/30 transition-colors"
+                    >
+                      {code} ×
+                    </button>
+                  ))}
+                </div>
+              )}
+              {selected.length === 0 && (
+                <p className="text-sm text-amber-400 mb-4">Select at least one category.</p>
+              )}
+              {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+              <input
+                type="text"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Filter categories (e.g. robotics, math.PR)"
+                className="w-full px-4 py-2 mb-4 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+
+              {isLoading ? (
+                <div className="flex justify-center py-6">
+                  <div className="animate-spin h-6 w-6 border-2 border-blue-400 border-t-transparent rounded-full"></div>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {archives.map((archive) => {
+                    const isExpanded = !!query || expanded.includes(archive.code);
+                    const selectedCount = archive.categories.filter((c) =>
+                      selected.includes(c.code)
+                    ).length;
+
+                    return (
+                      <div
+                        key={archive.code}
+                        className="bg-slate-800 rounded-lg border border-slate-700"
+                      >
+                        <button
+                          onClick={() => toggleArchive(archive.code)}
+                          className="w-full flex items-center justify-between px-4 py-3 text-left"
+                        >
+                          <span className="font-medium">{archive.name}</span>
+                          <span className="text-sm text-slate-500">
+                            {selectedCount > 0 && `${selectedCount} selected · `}
+                            {isExpanded ? "−" : "+"}
+                          </span>
+                        </button>
+
+                        {isExpanded && (
+                          <div className="px-4 pb-3 space-y-1">
+                            {archive.categories.map((category) => {
+                              // Aliases toggle the category they stand for
+                              const code = category.aliasOf ?? category.code;
+                              return (
+                                <label
+                                  key={category.code}
+                                  title={category.description}
+                                  className="flex items-start gap-3 py-1 cursor-pointer"
+                                >
+                                  <input
+                                    type="checkbox"
+                                    checked={selected.includes(code)}
+                                    onChange={() => toggleCategory(code)}
+                                    className="w-4 h-4 mt-0.5 accent-blue-500"
+                                  />
+                                  <span className="text-sm">
+                                    {category.name}{" "}
+                                    <span className="text-slate-500">
+                                      {category.code}
+                                      {category.aliasOf && ` · same as ${category.aliasOf}`}
+                                    </span>
+                                  </span>
+                                </label>
+                              );
+                            })}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
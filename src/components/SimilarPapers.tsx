@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from "react";
+import { Paper, SimilarPaper } from "@/types";
+
+interface SimilarPapersProps {
+  paperId: string;
+  onSelectPaper: (paper: Paper) => void;
+}
+
+export function SimilarPapers({ paperId, onSelectPaper }: SimilarPapersProps) {
+  const [papers, setPapers] = useState<SimilarPaper[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  async function loadSimilar() {
+    if (isLoading) return;
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/papers/${paperId}/similar`);
+      if (response.ok) {
+        const data = await response.json();
+        setPapers(data.papers);
+      }
+    } catch (error) {
+      console.error("Failed to load similar papers:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  if (!papers) {
+    return (
+      <button
+        onClick={loadSimilar}
+        disabled={isLoading}
+        className="inline-flex items-center gap-2 px-4 py-2 mb-6 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm transition-colors disabled:opacity-50"
+      >
+        {isLoading ? (
+          <div className="animate-spin h-4 w-4 border-2 border-blue-400 border-t-transparent rounded-full"></div>
+        ) : (
+          <span>🧭</span>
+        )}
+        More like this
+      </button>
+    );
+  }
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-lg font-semibold mb-3 flex items-center gap-2">
+        <span>🧭</span> More like this
+      </h2>
+
+      {papers.length === 0 ? (
+        <p className="text-sm text-slate-400">No similar papers stored yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {papers.map((paper) => (
+            <button
+              key={paper.id}
+              onClick={() => onSelectPaper(paper)}
+              className="w-full flex items-start gap-3 p-3 bg-slate-800 hover:bg-slate-750 rounded-lg border border-slate-700 text-left transition-colors"
+            >
+              <div className="flex-1 min-w-0">
+                <h3 className="font-medium text-sm line-clamp-2">{paper.title}</h3>
+                <p className="text-xs text-slate-400 line-clamp-1 mt-1">
+                  {paper.authors.slice(0, 3).join(", ")}
+                  {paper.authors.length > 3 && ` +${paper.authors.length - 3} more`}
+                </p>
+              </div>
+              <span className="flex-shrink-0 text-xs text-slate-500">
+                {Math.round(paper.similarity * 100)}%
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
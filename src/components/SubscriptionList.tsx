@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Subscription } from "@/types";
+
+interface SubscriptionListProps {
+  onOpenSubscription: (subscription: Subscription) => void;
+}
+
+export function SubscriptionList({ onOpenSubscription }: SubscriptionListProps) {
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+
+  useEffect(() => {
+    async function loadSubscriptions() {
+      try {
+        const response = await fetch("/api/subscriptions");
+        // Signed-out users have no subscriptions to show
+        if (response.ok) {
+          const data = await response.json();
+          setSubscriptions(data.subscriptions);
+        }
+      } catch (error) {
+        console.error("Failed to load subscriptions:", error);
+      }
+    }
+    loadSubscriptions();
+  }, []);
+
+  async function handleDelete(id: string) {
+    try {
+      const response = await fetch(`/api/subscriptions/${id}`, { method: "DELETE" });
+      if (response.ok) {
+        setSubscriptions((prev) => prev.filter((s) => s.id !== id));
+      }
+    } catch (error) {
+      console.error("Failed to delete subscription:", error);
+    }
+  }
+
+  if (subscriptions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wide mb-3">
+        Subscriptions
+      </h2>
+      <div className="space-y-2">
+        {subscriptions.map((subscription) => (
+          <div
+            key={subscription.id}
+            className="flex items-center gap-2 bg-slate-800 hover:bg-slate-750 rounded-lg border border-slate-700 transition-colors"
+          >
+            <button
+              onClick={() => onOpenSubscription(subscription)}
+              className="flex-1 min-w-0 flex items-center gap-3 p-3 text-left"
+            >
+              <div className="flex-1 min-w-0">
+                <h3 className="font-medium text-sm truncate">{subscription.name}</h3>
+                <p className="text-xs text-slate-400 mt-0.5">
+                  {subscription.paperCount} papers
+                  {subscription.lastCheckedAt &&
+                    ` · checked ${new Date(subscription.lastCheckedAt).toLocaleString()}`}
+                </p>
+              </div>
+              {subscription.unreadCount > 0 && (
+                <span className="flex-shrink-0 px-2 py-0.5 text-xs font-medium bg-blue-600 text-white rounded-full">
+                  {subscription.unreadCount} new
+                </span>
+              )}
+            </button>
+            <button
+              onClick={() => handleDelete(subscription.id)}
+              className="px-3 py-3 text-slate-500 hover:text-white transition-colors"
+              title="Unsubscribe"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
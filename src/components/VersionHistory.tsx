@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from "react";
+import { PaperVersion } from "@/types";
+
+interface VersionHistoryProps {
+  paperId: string;
+  version: number;
+}
+
+export function VersionHistory({ paperId, version }: VersionHistoryProps) {
+  const [versions, setVersions] = useState<PaperVersion[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  async function loadVersions() {
+    if (isLoading) return;
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/papers/${paperId}/versions`);
+      if (response.ok) {
+        const data = await response.json();
+        setVersions(data.versions);
+      }
+    } catch (error) {
+      console.error("Failed to load versions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function formatDate(date: Date) {
+    return new Date(date).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+  }
+
+  if (!versions) {
+    return (
+      <button
+        onClick={loadVersions}
+        disabled={isLoading}
+        className="inline-flex items-center gap-2 px-4 py-2 mb-6 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm transition-colors disabled:opacity-50"
+      >
+        {isLoading ? (
+          <div className="animate-spin h-4 w-4 border-2 border-blue-400 border-t-transparent rounded-full"></div>
+        ) : (
+          <span>🕘</span>
+        )}
+        Version history (v{version})
+      </button>
+    );
+  }
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-lg font-semibold mb-3 flex items-center gap-2">
+        <span>🕘</span> Version history
+      </h2>
+
+      <div className="space-y-3">
+        {versions.map((v) => (
+          <div key={v.version} className="p-3 bg-slate-800 rounded-lg border border-slate-700">
+            <div className="flex items-baseline gap-2 text-sm">
+              <span className="font-medium">v{v.version}</span>
+              <span className="text-slate-400">
+                {v.submittedAt ? formatDate(v.submittedAt) : `seen ${formatDate(v.recordedAt)}`}
+              </span>
+            </div>
+            {v.comment && <p className="text-xs text-slate-400 mt-1">{v.comment}</p>}
+            {v.abstractDiff ? (
+              <p className="text-sm text-slate-300 leading-relaxed mt-2">
+                {v.abstractDiff.map((part, i) =>
+                  part.change === "added" ? (
+                    <ins key={i} className="bg-emerald-500/20 text-emerald-200 no-underline">
+                      {part.text}{" "}
+                    </ins>
+                  ) : part.change === "removed" ? (
+                    <del key={i} className="bg-red-500/20 text-red-300">
+                      {part.text}{" "}
+                    </del>
+                  ) : (
+                    <span key={i}>{part.text} </span>
+                  )
+                )}
+              </p>
+            ) : (
+              v.version > versions[versions.length - 1].version && (
+                <p className="text-xs text-slate-500 mt-1">Abstract unchanged</p>
+              )
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
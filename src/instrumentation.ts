@@ -0,0 +1,31 @@
+export async function register() {
+  // Background jobs need Node APIs and Prisma, so skip the edge runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // Before ingestion starts, so new versions land on the merged records
+    const { canonicalizePaperIds } = await import("@/services/papers");
+    try {
+      const merged = await canonicalizePaperIds();
+      if (merged > 0) {
+        console.log(`[Papers] Merged ${merged} per-version paper records`);
+      }
+    } catch (error) {
+      console.error("[Papers] Failed to merge per-version paper records:", error);
+    }
+
+    // Papers stored before authors were normalized, so author pages find them
+    const { linkUnlinkedPaperAuthors } = await import("@/services/authors");
+    try {
+      const linked = await linkUnlinkedPaperAuthors();
+      if (linked > 0) {
+        console.log(`[Authors] Linked authors of ${linked} older papers`);
+      }
+    } catch (error) {
+      console.error("[Authors] Failed to link authors of older papers:", error);
+    }
+
+    const { startIngestion } = await import("@/services/ingestion");
+    const { startSubscriptionRefresh } = await import("@/services/subscriptions");
+    startIngestion();
+    startSubscriptionRefresh();
+  }
+}
@@ -0,0 +1,21 @@
+// "John Smith, Jr." is not an inverted "Last, First" name
+const NAME_SUFFIX = /^(jr|sr|ii|iii|iv)\.?$/i;
+
+/**
+ * Key used to recognise the same author across papers: case, diacritics,
+ * punctuation and spacing are ignored, and "Last, First" is read as
+ * "First Last". Initials are kept, so "J. Smith" and "John Smith" stay apart.
+ */
+export function normalizeAuthorName(name: string): string {
+  const [last, ...rest] = name.split(",");
+  const isInverted =
+    rest.length === 1 && !!rest[0].trim() && !NAME_SUFFIX.test(rest[0].trim());
+  const ordered = isInverted ? `${rest[0]} ${last}` : name;
+
+  return ordered
+    .normalize("NFKD")
+    .replace(/\p{M}+/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
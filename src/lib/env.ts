@@ -0,0 +1,40 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// Load .env file explicitly to override system env vars
+function loadEnvFile(): Record<string, string> {
+  const envPath = path.resolve(process.cwd(), ".env");
+  const envVars: Record<string, string> = {};
+
+  try {
+    if (fs.existsSync(envPath)) {
+      const content = fs.readFileSync(envPath, "utf-8");
+      for (const line of content.split("\n")) {
+        const trimmed = line.trim();
+        if (trimmed && !trimmed.startsWith("#")) {
+          const [key, ...valueParts] = trimmed.split("=");
+          if (key && valueParts.length > 0) {
+            let value = valueParts.join("=").trim();
+            // Remove surrounding quotes if present
+            if ((value.startsWith('"') && value.endsWith('"')) ||
+                (value.startsWith("'") && value.endsWith("'"))) {
+              value = value.slice(1, -1);
+            }
+            envVars[key.trim()] = value;
+          }
+        }
+      }
+    }
+  } catch {
+    console.warn("[env] Could not read .env file, falling back to process.env");
+  }
+
+  return envVars;
+}
+
+const envFile = loadEnvFile();
+
+// Get env var, preferring .env file over system env
+export function getEnv(key: string): string | undefined {
+  return envFile[key] || process.env[key];
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { EvidenceSources, verifyEvidence } from "./evidence";
+
+const sources: EvidenceSources = {
+  abstract: "We propose a sparse attention pattern that scales linearly with document length.",
+  sections: [
+    {
+      id: "S2",
+      text: "Each token attends to a local window and to a few global tokens, which keeps memory linear.",
+    },
+    {
+      // Text extracted from a PDF, with words broken across lines
+      id: "S4",
+      text: "Our model improves ROUGE-L by 2.1 points on long-\nrange summa-\nrization benchmarks.",
+    },
+  ],
+  figures: [{ index: 2, caption: "Figure 2: Memory use grows linearly with the input length." }],
+};
+
+describe("verifyEvidence", () => {
+  it("keeps quotes despite differences in case, spacing and punctuation", () => {
+    const evidence = verifyEvidence(
+      [
+        {
+          claim: "contributions.0",
+          quote: "Each token attends to a  local window\nand to a few GLOBAL tokens",
+          section: "S2",
+        },
+        { claim: "contributions.1", quote: "a sparse-attention pattern, that scales linearly", section: "abstract" },
+      ],
+      sources
+    );
+
+    expect(evidence).toEqual({
+      "contributions.0": [
+        { quote: "Each token attends to a local window and to a few GLOBAL tokens", sectionId: "S2" },
+      ],
+      "contributions.1": [
+        { quote: "a sparse-attention pattern, that scales linearly", sectionId: "abstract" },
+      ],
+    });
+  });
+
+  it("matches words hyphenated across lines either way", () => {
+    const evidence = verifyEvidence(
+      [
+        { claim: "evaluation", quote: "improves ROUGE-L by 2.1 points on long-range", section: "S4" },
+        { claim: "evaluation", quote: "long-range summarization benchmarks", section: "S4" },
+      ],
+      sources
+    );
+
+    expect(evidence.evaluation).toEqual([
+      { quote: "improves ROUGE-L by 2.1 points on long-range", sectionId: "S4" },
+      { quote: "long-range summarization benchmarks", sectionId: "S4" },
+    ]);
+  });
+
+  it("drops quotes that aren't in the paper and claims left without any", () => {
+    const evidence = verifyEvidence(
+      [
+        { claim: "strengths.0", quote: "state of the art on every benchmark we tried", section: "S4" },
+        { claim: "limitations.0", quote: "memory linear", section: "S2" }, // Too short to count
+        { claim: "evaluation", quote: "improves ROUGE-L by 2.1 points", section: "S4" },
+      ],
+      sources
+    );
+
+    expect(evidence).toEqual({
+      evaluation: [{ quote: "improves ROUGE-L by 2.1 points", sectionId: "S4" }],
+    });
+  });
+
+  it("corrects the anchor when the quote is found elsewhere", () => {
+    const evidence = verifyEvidence(
+      [{ claim: "evaluation", quote: "Memory use grows linearly with the input length", section: "S2" }],
+      sources
+    );
+
+    expect(evidence.evaluation).toEqual([
+      { quote: "Memory use grows linearly with the input length", figureIndex: 2 },
+    ]);
+  });
+
+  it("checks quotes against the abstract and captions alone without full text", () => {
+    const abstractOnly = { ...sources, sections: [] };
+    const evidence = verifyEvidence(
+      [
+        { claim: "contributions.0", quote: "scales linearly with document length", section: "S3" },
+        { claim: "contributions.1", quote: "attends to a local window and to a few global tokens", section: "S2" },
+      ],
+      abstractOnly
+    );
+
+    expect(evidence).toEqual({
+      "contributions.0": [{ quote: "scales linearly with document length", sectionId: "abstract" }],
+    });
+  });
+
+  it("ignores malformed output", () => {
+    expect(verifyEvidence("not a list", sources)).toEqual({});
+    expect(
+      verifyEvidence(
+        [null, { claim: "summary", quote: "scales linearly with document length" }, { claim: "evaluation" }],
+        sources
+      )
+    ).toEqual({});
+  });
+});
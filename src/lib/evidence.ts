@@ -0,0 +1,125 @@
+import { DeepSummary, EvidenceSpan, PaperFigure, PaperSection } from "@/types";
+
+// Claims that have to be backed by quotes: "evaluation", "contributions.0", ...
+const EVIDENCE_PATH = /^(evaluation|(contributions|strengths|limitations)\.\d+)$/;
+
+// Quotes shorter than this (once normalized) match too easily to count
+const MIN_QUOTE_LENGTH = 20;
+const MAX_QUOTES_PER_CLAIM = 3;
+
+// The text a summary was written from, for checking its quotes against
+export interface EvidenceSources {
+  abstract: string;
+  sections: Pick<PaperSection, "id" | "text">[];
+  figures: Pick<PaperFigure, "index" | "caption">[];
+}
+
+// Compare words only, so quotes survive changes in punctuation, case and spacing
+function normalizeQuote(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+// Quotes are looked up without spaces, so that words PDF text breaks across
+// lines with a hyphen ("summa-\nrization", but also "long-\nrange") match
+// however the quote writes them
+function compact(text: string): string {
+  return normalizeQuote(text).replace(/ /g, "");
+}
+
+function compactSource(text: string): string {
+  return compact(text.replace(/(\p{L})-[ \t]*\n\s*(?=\p{L})/gu, "$1"));
+}
+
+/**
+ * Keep the quotes a model returned that really occur in the paper, with the
+ * anchor corrected when the quote was found somewhere other than claimed.
+ * `raw` is the model's `[{ claim, quote, section | figure }]` list, where
+ * `claim` is a path like "contributions.0"; anything malformed is dropped,
+ * and claims left without quotes are omitted.
+ */
+export function verifyEvidence(raw: unknown, sources: EvidenceSources): Record<string, EvidenceSpan[]> {
+  const texts: { anchor: Omit<EvidenceSpan, "quote">; text: string }[] = [
+    { anchor: { sectionId: "abstract" }, text: compactSource(sources.abstract) },
+    ...sources.sections.map((s) => ({ anchor: { sectionId: s.id }, text: compactSource(s.text) })),
+    ...sources.figures.map((f) => ({ anchor: { figureIndex: f.index }, text: compactSource(f.caption) })),
+  ];
+
+  const evidence: Record<string, EvidenceSpan[]> = {};
+  if (!Array.isArray(raw)) {
+    return evidence;
+  }
+
+  const byClaim = new Map<string, { quote?: unknown; section?: unknown; figure?: unknown }[]>();
+  for (const item of raw) {
+    const path = item?.claim;
+    if (typeof path !== "string" || !EVIDENCE_PATH.test(path)) continue;
+    byClaim.set(path, [...(byClaim.get(path) ?? []), item]);
+  }
+
+  for (const [path, items] of byClaim) {
+    const spans: EvidenceSpan[] = [];
+    for (const item of items) {
+      const quote = typeof item.quote === "string" ? item.quote.replace(/\s+/g, " ").trim() : "";
+      const needle = normalizeQuote(quote);
+      if (needle.length < MIN_QUOTE_LENGTH || spans.some((s) => normalizeQuote(s.quote) === needle)) {
+        continue;
+      }
+
+      // Prefer the anchor the model gave, then any text that contains the quote
+      const claimed = texts.find(
+        (t) =>
+          (t.anchor.sectionId !== undefined && t.anchor.sectionId === item.section) ||
+          (t.anchor.figureIndex !== undefined && item.figure != null && t.anchor.figureIndex === Number(item.figure))
+      );
+      const compacted = compact(quote);
+      const source = claimed?.text.includes(compacted)
+        ? claimed
+        : texts.find((t) => t.text.includes(compacted));
+      if (source) {
+        spans.push({ quote, ...source.anchor });
+      }
+      if (spans.length >= MAX_QUOTES_PER_CLAIM) break;
+    }
+    if (spans.length > 0) {
+      evidence[path] = spans;
+    }
+  }
+  return evidence;
+}
+
+export interface EvidenceFootnote {
+  number: number;
+  path: string;
+  span: EvidenceSpan;
+}
+
+/**
+ * Number a summary's quotes in reading order (contributions, evaluation,
+ * strengths, limitations) for display as footnotes. `byPath` lists the
+ * footnote numbers attached to each claim.
+ */
+export function numberEvidence(summary: DeepSummary): {
+  footnotes: EvidenceFootnote[];
+  byPath: Record<string, number[]>;
+} {
+  const paths = [
+    ...summary.contributions.map((_, i) => `contributions.${i}`),
+    "evaluation",
+    ...(summary.strengths ?? []).map((_, i) => `strengths.${i}`),
+    ...(summary.limitations ?? []).map((_, i) => `limitations.${i}`),
+  ];
+
+  const footnotes: EvidenceFootnote[] = [];
+  const byPath: Record<string, number[]> = {};
+  for (const path of paths) {
+    byPath[path] = (summary.evidence?.[path] ?? []).map((span) => {
+      footnotes.push({ number: footnotes.length + 1, path, span });
+      return footnotes.length;
+    });
+  }
+  return { footnotes, byPath };
+}
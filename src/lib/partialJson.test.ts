@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { parsePartialJSON } from "./partialJson";
+
+describe("parsePartialJSON", () => {
+  it("returns null until an object has started", () => {
+    expect(parsePartialJSON("")).toBeNull();
+    expect(parsePartialJSON("```json\n")).toBeNull();
+  });
+
+  it("closes a string value being written", () => {
+    expect(parsePartialJSON('{"problem": "Transformers sc')).toEqual({ problem: "Transformers sc" });
+  });
+
+  it("leaves out keys without a value yet", () => {
+    expect(parsePartialJSON('{"hook": "Done", "summ')).toEqual({ hook: "Done" });
+    expect(parsePartialJSON('{"hook": "Done", "summary":')).toEqual({ hook: "Done" });
+    expect(parsePartialJSON('{"hook": "Done", "summary": ')).toEqual({ hook: "Done" });
+  });
+
+  it("drops a dangling escape and keeps completed ones", () => {
+    expect(parsePartialJSON('{"hook": "a \\"quoted\\" word\\')).toEqual({ hook: 'a "quoted" word' });
+    expect(parsePartialJSON('{"hook": "line\\nbreak and \\u00e9')).toEqual({ hook: "line\nbreak and é" });
+  });
+
+  it("doesn't mistake braces and brackets inside strings for structure", () => {
+    expect(parsePartialJSON('{"hook": "uses {braces} and [brackets')).toEqual({
+      hook: "uses {braces} and [brackets",
+    });
+  });
+
+  it("closes nested arrays and objects", () => {
+    expect(parsePartialJSON('{"keyConcepts": ["sparse attention", "summ')).toEqual({
+      keyConcepts: ["sparse attention", "summ"],
+    });
+    expect(parsePartialJSON('{"evidence": [{"claim": "evaluation", "quote": "improves')).toEqual({
+      evidence: [{ claim: "evaluation", quote: "improves" }],
+    });
+    expect(parsePartialJSON('{"matrix": [[1, 2], [3')).toEqual({ matrix: [[1, 2], []] });
+  });
+
+  it("leaves out numbers and literals that may still grow", () => {
+    expect(parsePartialJSON('{"year": 20')).toEqual({});
+    expect(parsePartialJSON('{"year": 2024, "open": tr')).toEqual({ year: 2024 });
+    expect(parsePartialJSON('{"year": 2024}')).toEqual({ year: 2024 });
+  });
+
+  it("skips a code fence and stops at the end of the object", () => {
+    expect(parsePartialJSON('```json\n{"hook": "Done"}\n```')).toEqual({ hook: "Done" });
+    expect(parsePartialJSON('{"hook": "First"}{"hook": "Second"}')).toEqual({ hook: "First" });
+  });
+
+  it("returns null for text that can't be completed", () => {
+    expect(parsePartialJSON("{,}")).toBeNull();
+  });
+});
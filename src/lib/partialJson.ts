@@ -0,0 +1,102 @@
+/**
+ * Parse the start of a JSON object that is still being generated, closing
+ * whatever is open: `{"problem": "Transformers sc` reads as
+ * `{ problem: "Transformers sc" }`. Keys without a value yet and numbers or
+ * literals that may still grow are left out. Text before the first "{" (such
+ * as a Markdown code fence) is skipped. Returns null until there is an object.
+ */
+export function parsePartialJSON<T>(text: string): Partial<T> | null {
+  const start = text.indexOf("{");
+  if (start < 0) {
+    return null;
+  }
+
+  const stack: string[] = [];
+  let inString = false;
+  let isKey = false;
+  let escaped = false;
+  let expectingKey = false;
+  let scalarStart = -1;
+  // Where the text can be cut and closed to form valid JSON
+  let safeEnd = -1;
+  let safeClosers = "";
+
+  const closers = () =>
+    stack
+      .map((open) => (open === "{" ? "}" : "]"))
+      .reverse()
+      .join("");
+  const markSafe = (end: number) => {
+    safeEnd = end;
+    safeClosers = closers();
+  };
+
+  let i = start;
+  for (; i < text.length && !(stack.length === 0 && i > start); i++) {
+    const c = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (c === "\\") {
+        escaped = true;
+      } else if (c === '"') {
+        inString = false;
+        if (!isKey) markSafe(i + 1);
+      }
+      continue;
+    }
+
+    if (scalarStart >= 0 && /[\s,}\]]/.test(c)) {
+      scalarStart = -1;
+      markSafe(i);
+    }
+
+    switch (c) {
+      case '"':
+        inString = true;
+        isKey = stack[stack.length - 1] === "{" && expectingKey;
+        break;
+      case "{":
+      case "[":
+        stack.push(c);
+        expectingKey = c === "{";
+        markSafe(i + 1);
+        break;
+      case "}":
+      case "]":
+        stack.pop();
+        expectingKey = false;
+        markSafe(i + 1);
+        break;
+      case ":":
+        expectingKey = false;
+        break;
+      case ",":
+        expectingKey = stack[stack.length - 1] === "{";
+        break;
+      default:
+        if (scalarStart < 0 && /[-\d.tfn]/.test(c)) {
+          scalarStart = i;
+        }
+    }
+  }
+
+  let candidate: string;
+  if (inString && !isKey) {
+    // Close the string value being written, minus a dangling escape
+    const body = text.slice(start, escaped ? i - 1 : i);
+    candidate = `${body}"${closers()}`;
+  } else if (stack.length === 0 && scalarStart < 0) {
+    candidate = text.slice(start, i);
+  } else {
+    candidate = text.slice(start, safeEnd) + safeClosers;
+  }
+
+  try {
+    const value = JSON.parse(candidate);
+    return value && typeof value === "object" && !Array.isArray(value) ? (value as Partial<T>) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  arraySchema,
+  enumSchema,
+  integerSchema,
+  nullableSchema,
+  objectSchema,
+  stringSchema,
+  validateSchema,
+} from "./schema";
+
+const schema = objectSchema({
+  hook: stringSchema(),
+  keyConcepts: arraySchema(stringSchema()),
+  year: integerSchema(),
+  sortBy: enumSchema(["relevance", "submittedDate"]),
+  venue: nullableSchema(stringSchema()),
+});
+
+const valid = {
+  hook: "Sparse attention scales to long documents",
+  keyConcepts: ["sparse attention", "summarization"],
+  year: 2024,
+  sortBy: "relevance",
+  venue: null,
+};
+
+describe("validateSchema", () => {
+  it("accepts a conforming value", () => {
+    expect(validateSchema(schema, valid)).toEqual([]);
+    expect(validateSchema(schema, { ...valid, venue: "ICSE" })).toEqual([]);
+  });
+
+  it("reports wrong types with the path to the value", () => {
+    expect(
+      validateSchema(schema, { ...valid, hook: 42, keyConcepts: ["ok", 3], year: 2024.5 })
+    ).toEqual([
+      "$.hook: expected string, got integer",
+      "$.keyConcepts[1]: expected string, got integer",
+      "$.year: expected integer, got number",
+    ]);
+    expect(validateSchema(schema, [valid])).toEqual(["$: expected object, got array"]);
+  });
+
+  it("reports missing required fields", () => {
+    const rest: Partial<typeof valid> = { ...valid };
+    delete rest.hook;
+    delete rest.venue;
+
+    expect(validateSchema(schema, rest)).toEqual(["$.hook: missing", "$.venue: missing"]);
+  });
+
+  it("reports values outside an enum, including null unless nullable", () => {
+    expect(validateSchema(schema, { ...valid, sortBy: "newest" })).toEqual([
+      '$.sortBy: expected one of "relevance", "submittedDate"',
+    ]);
+    expect(validateSchema(schema, { ...valid, sortBy: null })).toEqual([
+      "$.sortBy: expected string, got null",
+    ]);
+    expect(validateSchema(nullableSchema(enumSchema(["a"])), null)).toEqual([]);
+  });
+
+  it("allows properties the schema doesn't mention", () => {
+    expect(validateSchema(schema, { ...valid, confidence: 0.9 })).toEqual([]);
+  });
+
+  it("accepts integers where numbers are expected", () => {
+    expect(validateSchema({ type: "number" }, 3)).toEqual([]);
+  });
+});
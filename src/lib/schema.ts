@@ -0,0 +1,103 @@
+/**
+ * The subset of JSON Schema used to describe AI output. The same schema is
+ * sent to providers that support structured output and used to check every
+ * response, so it sticks to what OpenAI's strict mode accepts: every object
+ * lists all of its properties as required and allows no others, and optional
+ * values are nullable instead.
+ */
+type SchemaType = "string" | "number" | "integer" | "boolean" | "array" | "object" | "null";
+
+export interface JSONSchema {
+  type: SchemaType | SchemaType[];
+  description?: string;
+  enum?: (string | null)[];
+  items?: JSONSchema;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: false;
+}
+
+// --- Builders ---------------------------------------------------------------
+
+export function stringSchema(description?: string): JSONSchema {
+  return { type: "string", ...(description && { description }) };
+}
+
+export function integerSchema(description?: string): JSONSchema {
+  return { type: "integer", ...(description && { description }) };
+}
+
+export function enumSchema(values: string[], description?: string): JSONSchema {
+  return { type: "string", enum: values, ...(description && { description }) };
+}
+
+export function arraySchema(items: JSONSchema, description?: string): JSONSchema {
+  return { type: "array", items, ...(description && { description }) };
+}
+
+export function objectSchema(properties: Record<string, JSONSchema>, description?: string): JSONSchema {
+  return {
+    type: "object",
+    properties,
+    required: Object.keys(properties),
+    additionalProperties: false,
+    ...(description && { description }),
+  };
+}
+
+export function nullableSchema(schema: JSONSchema): JSONSchema {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return {
+    ...schema,
+    type: [...types, "null"],
+    ...(schema.enum && { enum: [...schema.enum, null] }),
+  };
+}
+
+// --- Validation -------------------------------------------------------------
+
+function typeOf(value: unknown): SchemaType | "undefined" {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  if (typeof value === "string" || typeof value === "boolean" || typeof value === "object") {
+    return typeof value as SchemaType;
+  }
+  return "undefined";
+}
+
+/**
+ * Check a value against a schema. Returns one line per problem, each starting
+ * with the path to the offending value ("contributions[2]: expected string,
+ * got number"), or an empty array if the value conforms. Properties the
+ * schema doesn't mention are allowed.
+ */
+export function validateSchema(schema: JSONSchema, value: unknown, path = "$"): string[] {
+  const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const actual = typeOf(value);
+  // An integer is a number too
+  if (!allowed.includes(actual as SchemaType) && !(actual === "integer" && allowed.includes("number"))) {
+    return [`${path}: expected ${allowed.join(" or ")}, got ${actual}`];
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | null)) {
+    return [`${path}: expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`];
+  }
+
+  if (actual === "array" && schema.items) {
+    const items = schema.items;
+    return (value as unknown[]).flatMap((item, i) => validateSchema(items, item, `${path}[${i}]`));
+  }
+
+  if (actual === "object" && schema.properties) {
+    const object = value as Record<string, unknown>;
+    return Object.entries(schema.properties).flatMap(([key, property]) =>
+      key in object
+        ? validateSchema(property, object[key], `${path}.${key}`)
+        : schema.required?.includes(key)
+          ? [`${path}.${key}: missing`]
+          : []
+    );
+  }
+  return [];
+}
@@ -0,0 +1,155 @@
+import { normalizeCategories } from "@/lib/taxonomy";
+import { SearchField, SearchFilters, SearchOperator, SearchTerm } from "@/types";
+
+export const SEARCH_FIELDS: { field: SearchField; label: string }[] = [
+  { field: "all", label: "Any field" },
+  { field: "ti", label: "Title" },
+  { field: "au", label: "Author" },
+  { field: "abs", label: "Abstract" },
+];
+
+export const SEARCH_OPERATORS: { operator: SearchOperator; label: string }[] = [
+  { operator: "AND", label: "and" },
+  { operator: "OR", label: "or" },
+  { operator: "ANDNOT", label: "not" },
+];
+
+const MAX_TERMS = 10;
+const MAX_CATEGORIES = 20;
+const MAX_VALUE_LENGTH = 200;
+
+export function getSearchFieldLabel(field: SearchField): string {
+  return SEARCH_FIELDS.find((f) => f.field === field)?.label ?? field;
+}
+
+/** Filters for a plain free-text query. */
+export function plainSearchFilters(query: string): SearchFilters {
+  return { terms: [{ field: "all", value: query.trim(), operator: "AND" }], categories: [] };
+}
+
+/**
+ * Whether the filters select anything. Excluding terms only narrow a search
+ * down, so on their own they aren't enough.
+ */
+export function hasSearchCriteria(filters: SearchFilters): boolean {
+  return (
+    filters.terms.some((t) => t.operator !== "ANDNOT") ||
+    filters.categories.length > 0 ||
+    !!filters.dateFrom ||
+    !!filters.dateTo
+  );
+}
+
+function sanitizeToken(token: string): string {
+  return token
+    .replace(/[^\p{L}\p{N}\s'.-]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * The words and phrases a term matches, stripped of anything a query syntax
+ * could interpret. Author names are always one phrase; other values split into
+ * words, keeping "quoted phrases" together.
+ */
+export function searchTokens(term: SearchTerm): string[] {
+  if (term.field === "au") {
+    const name = sanitizeToken(term.value);
+    return name ? [name] : [];
+  }
+
+  const tokens: string[] = [];
+  for (const match of term.value.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const token = sanitizeToken(match[1] ?? match[2]);
+    if (token) tokens.push(token);
+  }
+  return tokens;
+}
+
+function isValidDate(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !Number.isNaN(Date.parse(value)) &&
+    new Date(value).toISOString().startsWith(value)
+  );
+}
+
+/**
+ * Check filters from an untrusted source (a request body or AI output).
+ * Returns the usable part plus a description of everything that was dropped,
+ * so callers can decide whether to reject the input or carry on.
+ */
+export function normalizeSearchFilters(input: unknown): {
+  filters: SearchFilters;
+  problems: string[];
+} {
+  const filters: SearchFilters = { terms: [], categories: [] };
+  const problems: string[] = [];
+
+  if (!input || typeof input !== "object") {
+    return { filters, problems: ["filters must be an object"] };
+  }
+  const raw = input as Record<string, unknown>;
+
+  if (raw.terms !== undefined && !Array.isArray(raw.terms)) {
+    problems.push("terms must be an array");
+  }
+  for (const rawTerm of Array.isArray(raw.terms) ? raw.terms : []) {
+    const { field, value, operator = "AND" } = (rawTerm || {}) as Record<string, unknown>;
+    if (!SEARCH_FIELDS.some((f) => f.field === field)) {
+      problems.push(`Unknown search field: ${String(field)}`);
+    } else if (!SEARCH_OPERATORS.some((o) => o.operator === operator)) {
+      problems.push(`Unknown operator: ${String(operator)}`);
+    } else if (typeof value !== "string" || !value.trim()) {
+      problems.push(`Empty ${getSearchFieldLabel(field as SearchField).toLowerCase()} term`);
+    } else if (value.length > MAX_VALUE_LENGTH) {
+      problems.push(`Search terms are limited to ${MAX_VALUE_LENGTH} characters`);
+    } else {
+      filters.terms.push({
+        field: field as SearchField,
+        value: value.trim(),
+        operator: operator as SearchOperator,
+      });
+    }
+  }
+  if (filters.terms.length > MAX_TERMS) {
+    problems.push(`At most ${MAX_TERMS} search terms are allowed`);
+    filters.terms = filters.terms.slice(0, MAX_TERMS);
+  }
+
+  if (raw.categories !== undefined) {
+    if (!Array.isArray(raw.categories) || raw.categories.some((c) => typeof c !== "string")) {
+      problems.push("categories must be an array of category codes");
+    } else {
+      const { categories, unknown } = normalizeCategories(raw.categories);
+      if (unknown.length > 0) {
+        problems.push(`Unknown categories: ${unknown.join(", ")}`);
+      }
+      if (categories.length > MAX_CATEGORIES) {
+        problems.push(`At most ${MAX_CATEGORIES} categories are allowed`);
+      }
+      filters.categories = categories.slice(0, MAX_CATEGORIES);
+    }
+  }
+
+  for (const key of ["dateFrom", "dateTo"] as const) {
+    const value = raw[key];
+    if (value === undefined || value === null || value === "") continue;
+    if (isValidDate(value)) {
+      filters[key] = value;
+    } else {
+      problems.push(`${key} must be a YYYY-MM-DD date`);
+    }
+  }
+  if (filters.dateFrom && filters.dateTo && filters.dateFrom > filters.dateTo) {
+    problems.push("dateFrom must not be after dateTo");
+    delete filters.dateTo;
+  }
+
+  if (!hasSearchCriteria(filters)) {
+    problems.push("Add a search term, category or date range");
+  }
+
+  return { filters, problems };
+}
@@ -0,0 +1,29 @@
+import { cookies } from "next/headers";
+import { getUserBySessionToken } from "@/services/auth";
+import { User } from "@/types";
+
+export const SESSION_COOKIE = "scrollxiv_session";
+
+// Resolve the signed-in user from the session cookie of the current request
+export async function getCurrentUser(): Promise<User | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  return token ? getUserBySessionToken(token) : null;
+}
+
+export async function getSessionToken(): Promise<string | undefined> {
+  return (await cookies()).get(SESSION_COOKIE)?.value;
+}
+
+export async function setSessionCookie(token: string, expiresAt: Date): Promise<void> {
+  (await cookies()).set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  });
+}
+
+export async function clearSessionCookie(): Promise<void> {
+  (await cookies()).delete(SESSION_COOKIE);
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from "vitest";
+import { eventStreamResponse, readEventStream } from "./sse";
+
+describe("eventStreamResponse", () => {
+  it("streams events and closes when run finishes", async () => {
+    const response = eventStreamResponse(async (send) => {
+      send("partial", { text: "Hel" });
+      send("done", { text: "Hello" });
+    }, vi.fn());
+
+    const events: [string, unknown][] = [];
+    await readEventStream(response, (event, data) => events.push([event, data]));
+
+    expect(events).toEqual([
+      ["partial", { text: "Hel" }],
+      ["done", { text: "Hello" }],
+    ]);
+  });
+
+  it("lets run finish after the client disconnects", async () => {
+    let resume!: () => void;
+    const paused = new Promise<void>((resolve) => (resume = resolve));
+    const onError = vi.fn();
+    const finished = vi.fn();
+
+    const response = eventStreamResponse(async (send) => {
+      send("partial", { text: "Hel" });
+      await paused;
+      send("partial", { text: "Hell" });
+      send("done", { text: "Hello" });
+      finished();
+    }, onError);
+
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+    resume();
+    await vi.waitFor(() => expect(finished).toHaveBeenCalled());
+
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Server-sent events for routes that report progress before their result.
+ * Each event is a name and a JSON payload.
+ */
+export type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * A text/event-stream response fed by `run`. The stream ends when `run`
+ * settles; if it throws, `onError` decides the payload of a final "error"
+ * event, since the status code has already been sent. If the client
+ * disconnects, `run` still finishes (so its result can be stored) and
+ * further events are dropped.
+ */
+export function eventStreamResponse(
+  run: (send: SendEvent) => Promise<void>,
+  onError: (error: unknown) => unknown
+): Response {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        if (cancelled) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+      try {
+        await run(send);
+      } catch (error) {
+        send("error", onError(error));
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
+
+/**
+ * Read a text/event-stream response in the browser, calling `onEvent` with
+ * each event's name and parsed payload as it arrives.
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const events = buffer.split("\n\n");
+    buffer = done ? "" : events.pop()!;
+    for (const block of events) {
+      const event = block.match(/^event: (.*)$/m)?.[1] ?? "message";
+      const data = block
+        .split("\n")
+        .filter((line) => line.startsWith("data: "))
+        .map((line) => line.slice(6))
+        .join("\n");
+      if (data) onEvent(event, JSON.parse(data));
+    }
+    if (done) break;
+  }
+}
@@ -0,0 +1,401 @@
+// The arXiv subject taxonomy (https://arxiv.org/category_taxonomy), grouped
+// by archive. Archives without subdivisions (e.g. gr-qc) have a single
+// category whose code is the archive code.
+//
+// Some categories are aliases of one another (math.IT and cs.IT are the same
+// subject). Alias entries stay listed under their own archive so they can be
+// browsed there, but point at the canonical code through `aliasOf`; lookups
+// and validation resolve them to the canonical category.
+
+export interface ArxivCategory {
+  code: string;
+  name: string;
+  description: string;
+  shortName?: string; // Compact label for chips, defaults to name
+  aliasOf?: string; // Canonical code when this code is a cross-list alias
+}
+
+export interface ArxivArchive {
+  code: string;
+  name: string;
+  categories: ArxivCategory[];
+}
+
+export const ARXIV_ARCHIVES: ArxivArchive[] = [
+  {
+    code: "cs",
+    name: "Computer Science",
+    categories: [
+      { code: "cs.AI", name: "Artificial Intelligence", shortName: "AI", description: "All areas of AI except vision, robotics, machine learning, multiagent systems, and computation and language, which have their own categories. Covers expert systems, theorem proving, knowledge representation, planning and uncertainty in AI." },
+      { code: "cs.AR", name: "Hardware Architecture", description: "Systems organization and hardware architecture." },
+      { code: "cs.CC", name: "Computational Complexity", description: "Models of computation, complexity classes, structural complexity, complexity tradeoffs, upper and lower bounds." },
+      { code: "cs.CE", name: "Computational Engineering, Finance, and Science", description: "Applications of computer science to the mathematical modeling of complex systems in science, engineering and finance." },
+      { code: "cs.CG", name: "Computational Geometry", description: "Geometric algorithms, data structures and their analysis." },
+      { code: "cs.CL", name: "Computation and Language", shortName: "NLP", description: "Natural language processing, computational linguistics and speech and language technology." },
+      { code: "cs.CR", name: "Cryptography and Security", shortName: "Security", description: "Cryptography, authentication, public key systems, proof-carrying code and other security topics." },
+      { code: "cs.CV", name: "Computer Vision and Pattern Recognition", shortName: "Computer Vision", description: "Image processing, computer vision, pattern recognition and scene understanding." },
+      { code: "cs.CY", name: "Computers and Society", description: "Impact of computers on society, computer ethics, information technology and public policy, legal aspects of computing and computers in education." },
+      { code: "cs.DB", name: "Databases", description: "Database management, data mining and data processing." },
+      { code: "cs.DC", name: "Distributed, Parallel, and Cluster Computing", shortName: "Distributed Computing", description: "Fault tolerance, distributed algorithms, stability, parallel computation and cluster computing." },
+      { code: "cs.DL", name: "Digital Libraries", description: "Design and analysis of algorithms for digital libraries, storage and retrieval of documents, and bibliometrics." },
+      { code: "cs.DM", name: "Discrete Mathematics", description: "Combinatorics, graph theory and applications of probability in computer science." },
+      { code: "cs.DS", name: "Data Structures and Algorithms", shortName: "Algorithms", description: "Data structures and analysis of algorithms." },
+      { code: "cs.ET", name: "Emerging Technologies", description: "Computing approaches based on technologies beyond CMOS, such as nanoscale, photonic, spin-based, superconducting, biological and quantum devices." },
+      { code: "cs.FL", name: "Formal Languages and Automata Theory", description: "Automata theory, formal language theory, grammars and combinatorics on words." },
+      { code: "cs.GL", name: "General Literature", description: "Introductory material, survey material, predictions of future trends, biographies and miscellaneous computer-science related material." },
+      { code: "cs.GR", name: "Graphics", description: "All aspects of computer graphics." },
+      { code: "cs.GT", name: "Computer Science and Game Theory", shortName: "Game Theory", description: "Theoretical and applied aspects at the intersection of computer science and game theory, including mechanism design and learning in games." },
+      { code: "cs.HC", name: "Human-Computer Interaction", shortName: "HCI", description: "Human factors, user interfaces and collaborative computing." },
+      { code: "cs.IR", name: "Information Retrieval", description: "Indexing, dictionaries, retrieval, content and analysis." },
+      { code: "cs.IT", name: "Information Theory", description: "Theoretical and experimental aspects of information theory and coding." },
+      { code: "cs.LG", name: "Machine Learning", description: "All aspects of machine learning research, including supervised, unsupervised and reinforcement learning, bandits, robustness, explanation, fairness and methodology." },
+      { code: "cs.LO", name: "Logic in Computer Science", description: "Finite model theory, logics of programs, modal logic and program verification." },
+      { code: "cs.MA", name: "Multiagent Systems", description: "Distributed artificial intelligence, intelligent agents and coordinated interactions." },
+      { code: "cs.MM", name: "Multimedia", description: "Multimedia systems, including audio, video and interactive media." },
+      { code: "cs.MS", name: "Mathematical Software", description: "Software for mathematical computation and its design and evaluation." },
+      { code: "cs.NA", name: "Numerical Analysis", aliasOf: "math.NA", description: "Numerical algorithms for problems in analysis and algebra, and scientific computation." },
+      { code: "cs.NE", name: "Neural and Evolutionary Computing", shortName: "Neural/Evolutionary", description: "Neural networks, connectionism, genetic algorithms, artificial life and adaptive behavior." },
+      { code: "cs.NI", name: "Networking and Internet Architecture", shortName: "Networking", description: "Network architecture and design, network protocols and internetworking." },
+      { code: "cs.OH", name: "Other Computer Science", description: "Documents that do not fit anywhere else in computer science." },
+      { code: "cs.OS", name: "Operating Systems", description: "Operating system design, process management, memory management and file systems." },
+      { code: "cs.PF", name: "Performance", description: "Performance measurement and evaluation, queueing and simulation." },
+      { code: "cs.PL", name: "Programming Languages", description: "Programming language semantics, language features, programming approaches and compilers." },
+      { code: "cs.RO", name: "Robotics", description: "Robot design, control, perception, planning and learning for robots." },
+      { code: "cs.SC", name: "Symbolic Computation", description: "Software, algorithms and applications of symbolic and algebraic manipulation." },
+      { code: "cs.SD", name: "Sound", description: "Computer audio, including music, speech and sound analysis, synthesis and processing." },
+      { code: "cs.SE", name: "Software Engineering", description: "Design tools, software metrics, testing and debugging, programming environments and requirements." },
+      { code: "cs.SI", name: "Social and Information Networks", description: "Design, analysis and modeling of social and information networks, including their applications to online information access and communication." },
+      { code: "cs.SY", name: "Systems and Control", aliasOf: "eess.SY", description: "Theoretical and experimental research on automatic control systems." },
+    ],
+  },
+  {
+    code: "econ",
+    name: "Economics",
+    categories: [
+      { code: "econ.EM", name: "Econometrics", description: "Econometric theory and practice, including estimation, hypothesis testing, causal inference and forecasting." },
+      { code: "econ.GN", name: "General Economics", description: "General methodological, applied and empirical contributions to economics." },
+      { code: "econ.TH", name: "Theoretical Economics", description: "Contract theory, decision theory, game theory, general equilibrium, mechanism design and social choice." },
+    ],
+  },
+  {
+    code: "eess",
+    name: "Electrical Engineering and Systems Science",
+    categories: [
+      { code: "eess.AS", name: "Audio and Speech Processing", shortName: "Audio & Speech", description: "Theory and methods for processing signals representing audio, speech and language, and their applications." },
+      { code: "eess.IV", name: "Image and Video Processing", shortName: "Image & Video", description: "Theory, algorithms and architectures for the formation, capture, processing, communication, analysis and display of images and video." },
+      { code: "eess.SP", name: "Signal Processing", description: "Theory, algorithms, performance analysis and applications of signal and data analysis, including physical modeling, processing, detection and parameter estimation." },
+      { code: "eess.SY", name: "Systems and Control", description: "Analysis and design of control systems, including feedback, estimation, optimization and networked and cyber-physical systems." },
+    ],
+  },
+  {
+    code: "math",
+    name: "Mathematics",
+    categories: [
+      { code: "math.AC", name: "Commutative Algebra", description: "Commutative rings, modules, ideals, homological algebra and computational aspects." },
+      { code: "math.AG", name: "Algebraic Geometry", description: "Algebraic varieties, stacks, sheaves, schemes, moduli spaces and complex geometry." },
+      { code: "math.AP", name: "Analysis of PDEs", description: "Existence and uniqueness, boundary conditions, linear and non-linear operators, stability and qualitative theory of partial differential equations." },
+      { code: "math.AT", name: "Algebraic Topology", description: "Homotopy theory, homological algebra and algebraic treatments of manifolds." },
+      { code: "math.CA", name: "Classical Analysis and ODEs", description: "Special functions, orthogonal polynomials, harmonic analysis, ODEs, differential relations and calculus of variations." },
+      { code: "math.CO", name: "Combinatorics", description: "Discrete mathematics, graph theory, enumeration, combinatorial optimization and Ramsey theory." },
+      { code: "math.CT", name: "Category Theory", description: "Enriched categories, topoi, abelian categories, monoidal categories and homological algebra." },
+      { code: "math.CV", name: "Complex Variables", description: "Holomorphic functions, automorphic group actions and forms, pseudoconvexity and complex geometry." },
+      { code: "math.DG", name: "Differential Geometry", description: "Complex, contact, Riemannian, pseudo-Riemannian and Finsler geometry, relativity and gauge theory." },
+      { code: "math.DS", name: "Dynamical Systems", description: "Dynamics of differential equations and flows, mechanics, classical few-body problems, iterations and complex dynamics." },
+      { code: "math.FA", name: "Functional Analysis", description: "Banach spaces, function spaces, real functions, integral transforms, theory of distributions and measure theory." },
+      { code: "math.GM", name: "General Mathematics", description: "Mathematical material of general interest and topics not covered elsewhere." },
+      { code: "math.GN", name: "General Topology", description: "Continuum theory, point-set topology, spaces with algebraic structure and foundations." },
+      { code: "math.GR", name: "Group Theory", description: "Finite groups, topological groups, representation theory, cohomology and classification and structure." },
+      { code: "math.GT", name: "Geometric Topology", description: "Manifolds, orbifolds, polyhedra, cell complexes, foliations and geometric structures." },
+      { code: "math.HO", name: "History and Overview", description: "Biographies, philosophy of mathematics, mathematics education, recreational mathematics and communication of mathematics." },
+      { code: "math.IT", name: "Information Theory", aliasOf: "cs.IT", description: "Theoretical and experimental aspects of information theory and coding." },
+      { code: "math.KT", name: "K-Theory and Homology", description: "Algebraic and topological K-theory, relations with topology, commutative algebra and operator algebras." },
+      { code: "math.LO", name: "Logic", description: "Logic, set theory, point-set topology and formal mathematics." },
+      { code: "math.MG", name: "Metric Geometry", description: "Euclidean, hyperbolic, discrete, convex and coarse geometry, and comparisons in Riemannian geometry." },
+      { code: "math.MP", name: "Mathematical Physics", aliasOf: "math-ph", description: "Applications of mathematics to problems in physics and mathematical methods for such applications." },
+      { code: "math.NA", name: "Numerical Analysis", description: "Numerical algorithms for problems in analysis and algebra, and scientific computation." },
+      { code: "math.NT", name: "Number Theory", description: "Prime numbers, diophantine equations, analytic number theory, algebraic number theory and arithmetic geometry." },
+      { code: "math.OA", name: "Operator Algebras", description: "Algebras of operators on Hilbert space, C*-algebras, von Neumann algebras and non-commutative geometry." },
+      { code: "math.OC", name: "Optimization and Control", description: "Operations research, linear programming, control theory, systems theory, optimal control and game theory." },
+      { code: "math.PR", name: "Probability", description: "Theory and applications of probability and stochastic processes." },
+      { code: "math.QA", name: "Quantum Algebra", description: "Quantum groups, skein theories, operadic and diagrammatic algebra and quantum field theory." },
+      { code: "math.RA", name: "Rings and Algebras", description: "Non-commutative rings and algebras, non-associative algebras, universal algebra and lattice theory." },
+      { code: "math.RT", name: "Representation Theory", description: "Linear representations of algebras and groups, Lie theory, associative algebras and multilinear algebra." },
+      { code: "math.SG", name: "Symplectic Geometry", description: "Hamiltonian systems, symplectic flows and classical integrable systems." },
+      { code: "math.SP", name: "Spectral Theory", description: "Schrödinger operators, operators on manifolds, general differential operators and numerical studies." },
+      { code: "math.ST", name: "Statistics Theory", description: "Applied, computational and theoretical statistics, including statistical inference, regression, time series and multivariate analysis." },
+    ],
+  },
+  {
+    code: "astro-ph",
+    name: "Astrophysics",
+    categories: [
+      { code: "astro-ph.CO", name: "Cosmology and Nongalactic Astrophysics", shortName: "Cosmology", description: "Phenomenology of early universe, cosmic microwave background, dark matter, cosmic strings and large-scale structure." },
+      { code: "astro-ph.EP", name: "Earth and Planetary Astrophysics", shortName: "Planetary", description: "Interplanetary medium, planetary physics, extrasolar planets and the formation of the solar system." },
+      { code: "astro-ph.GA", name: "Astrophysics of Galaxies", shortName: "Galaxies", description: "Phenomena pertaining to galaxies or the Milky Way, including star clusters, interstellar medium and galactic structure." },
+      { code: "astro-ph.HE", name: "High Energy Astrophysical Phenomena", shortName: "High Energy Astro", description: "Cosmic ray production, gamma ray and X-ray astronomy, supernovae, neutron stars, pulsars and black holes." },
+      { code: "astro-ph.IM", name: "Instrumentation and Methods for Astrophysics", shortName: "Astro Instrumentation", description: "Detector and telescope design, experiment proposals, and methods for data analysis and statistics." },
+      { code: "astro-ph.SR", name: "Solar and Stellar Astrophysics", shortName: "Solar & Stellar", description: "White dwarfs, brown dwarfs, stellar evolution, stellar populations and helioseismology." },
+    ],
+  },
+  {
+    code: "cond-mat",
+    name: "Condensed Matter",
+    categories: [
+      { code: "cond-mat.dis-nn", name: "Disordered Systems and Neural Networks", shortName: "Disordered Systems", description: "Glasses and spin glasses, random and quasiperiodic systems, transport and localization, and neural networks." },
+      { code: "cond-mat.mes-hall", name: "Mesoscale and Nanoscale Physics", shortName: "Mesoscale Physics", description: "Semiconducting nanostructures, quantum dots, wires and wells, single electronics, spintronics and the quantum Hall effect." },
+      { code: "cond-mat.mtrl-sci", name: "Materials Science", description: "Techniques, synthesis, characterization, structure and properties of materials." },
+      { code: "cond-mat.other", name: "Other Condensed Matter", description: "Work in condensed matter that does not fit into the other categories." },
+      { code: "cond-mat.quant-gas", name: "Quantum Gases", description: "Ultracold atomic and molecular gases, Bose-Einstein condensation and Feshbach resonances." },
+      { code: "cond-mat.soft", name: "Soft Condensed Matter", shortName: "Soft Matter", description: "Membranes, polymers, liquid crystals, glasses, colloids and granular matter." },
+      { code: "cond-mat.stat-mech", name: "Statistical Mechanics", description: "Phase transitions, thermodynamics, field theory, non-equilibrium phenomena and turbulence." },
+      { code: "cond-mat.str-el", name: "Strongly Correlated Electrons", shortName: "Strongly Correlated", description: "Quantum magnetism, non-Fermi liquids, spin liquids, quantum criticality and charge density waves." },
+      { code: "cond-mat.supr-con", name: "Superconductivity", description: "Superconductivity: theory, models, experiment and superflow in helium." },
+    ],
+  },
+  {
+    code: "gr-qc",
+    name: "General Relativity and Quantum Cosmology",
+    categories: [
+      { code: "gr-qc", name: "General Relativity and Quantum Cosmology", shortName: "GR & Quantum Cosmology", description: "Gravitational physics, including experiments and observations related to gravity, classical and quantum gravity and gravitational waves." },
+    ],
+  },
+  {
+    code: "hep-ex",
+    name: "High Energy Physics - Experiment",
+    categories: [
+      { code: "hep-ex", name: "High Energy Physics - Experiment", shortName: "HEP Experiment", description: "Results from high-energy and particle physics experiments and their detectors." },
+    ],
+  },
+  {
+    code: "hep-lat",
+    name: "High Energy Physics - Lattice",
+    categories: [
+      { code: "hep-lat", name: "High Energy Physics - Lattice", shortName: "Lattice", description: "Lattice field theory, including phenomenology, algorithms and hardware for lattice computations." },
+    ],
+  },
+  {
+    code: "hep-ph",
+    name: "High Energy Physics - Phenomenology",
+    categories: [
+      { code: "hep-ph", name: "High Energy Physics - Phenomenology", shortName: "HEP Phenomenology", description: "Theoretical particle physics and its interrelation with experiment, including prediction of observable quantities." },
+    ],
+  },
+  {
+    code: "hep-th",
+    name: "High Energy Physics - Theory",
+    categories: [
+      { code: "hep-th", name: "High Energy Physics - Theory", shortName: "HEP Theory", description: "Formal aspects of quantum field theory, string theory, supersymmetry and supergravity." },
+    ],
+  },
+  {
+    code: "math-ph",
+    name: "Mathematical Physics",
+    categories: [
+      { code: "math-ph", name: "Mathematical Physics", description: "Applications of mathematics to problems in physics and development of mathematical methods for such applications." },
+    ],
+  },
+  {
+    code: "nlin",
+    name: "Nonlinear Sciences",
+    categories: [
+      { code: "nlin.AO", name: "Adaptation and Self-Organizing Systems", shortName: "Self-Organizing Systems", description: "Adaptation, self-organizing systems, statistical physics, fluctuating systems and evolutionary models." },
+      { code: "nlin.CD", name: "Chaotic Dynamics", description: "Dynamical systems, chaos, quantum chaos, topological dynamics and turbulence." },
+      { code: "nlin.CG", name: "Cellular Automata and Lattice Gases", shortName: "Cellular Automata", description: "Computational methods, time series analysis, signal processing, wavelets and lattice gases." },
+      { code: "nlin.PS", name: "Pattern Formation and Solitons", description: "Pattern formation, coherent structures and solitons." },
+      { code: "nlin.SI", name: "Exactly Solvable and Integrable Systems", shortName: "Integrable Systems", description: "Exactly solvable systems, integrable PDEs and ODEs, Painlevé analysis and integrable discrete maps." },
+    ],
+  },
+  {
+    code: "nucl-ex",
+    name: "Nuclear Experiment",
+    categories: [
+      { code: "nucl-ex", name: "Nuclear Experiment", description: "Experimental results in nuclear physics, including fundamental interactions, nuclear structure and heavy-ion collisions." },
+    ],
+  },
+  {
+    code: "nucl-th",
+    name: "Nuclear Theory",
+    categories: [
+      { code: "nucl-th", name: "Nuclear Theory", description: "Theory of nuclear structure and nuclear reactions, nuclear equation of state and nuclear astrophysics." },
+    ],
+  },
+  {
+    code: "physics",
+    name: "Physics",
+    categories: [
+      { code: "physics.acc-ph", name: "Accelerator Physics", description: "Accelerator theory and simulation, technology, experiments and applications." },
+      { code: "physics.ao-ph", name: "Atmospheric and Oceanic Physics", shortName: "Atmospheric & Oceanic", description: "Atmospheric and oceanic physics and physical chemistry, biogeophysics and climate science." },
+      { code: "physics.app-ph", name: "Applied Physics", description: "Applications of physics to new technology, including electronic devices, optics, photonics and microwave engineering." },
+      { code: "physics.atm-clus", name: "Atomic and Molecular Clusters", shortName: "Clusters", description: "Atomic and molecular clusters, nanoparticles and their geometric, electronic, optical and chemical properties." },
+      { code: "physics.atom-ph", name: "Atomic Physics", description: "Atomic and molecular structure, spectra, collisions and data; atoms and molecules in external fields." },
+      { code: "physics.bio-ph", name: "Biological Physics", description: "Molecular biophysics, cellular biophysics, neurological biophysics and medical physics." },
+      { code: "physics.chem-ph", name: "Chemical Physics", description: "Experimental, computational and theoretical physics of atoms, molecules and clusters." },
+      { code: "physics.class-ph", name: "Classical Physics", description: "Newtonian and relativistic dynamics, many-particle systems, planetary motions, thermodynamics and classical electromagnetism." },
+      { code: "physics.comp-ph", name: "Computational Physics", description: "All aspects of computational science applied to physics." },
+      { code: "physics.data-an", name: "Data Analysis, Statistics and Probability", shortName: "Physics Data Analysis", description: "Methods, software and hardware for physics data analysis, including uncertainty analysis and statistical methods." },
+      { code: "physics.ed-ph", name: "Physics Education", description: "Report of results of a research study, laboratory experience or curriculum in physics education." },
+      { code: "physics.flu-dyn", name: "Fluid Dynamics", description: "Turbulence, instabilities, incompressible and compressible flows, boundary layers and fluid-structure interaction." },
+      { code: "physics.gen-ph", name: "General Physics", description: "General physics topics that do not fit a more specific category." },
+      { code: "physics.geo-ph", name: "Geophysics", description: "Atmospheric physics, biogeosciences, computational geophysics, geomagnetism, hydrology and seismology." },
+      { code: "physics.hist-ph", name: "History and Philosophy of Physics", shortName: "History of Physics", description: "History and philosophy of all branches of physics, astrophysics and cosmology, including appreciations of physicists." },
+      { code: "physics.ins-det", name: "Instrumentation and Detectors", shortName: "Instrumentation", description: "Instrumentation and detectors for research in natural science, including optical, molecular, atomic, nuclear and particle physics." },
+      { code: "physics.med-ph", name: "Medical Physics", description: "Radiation therapy, biomedical imaging, health physics and biomedical optics." },
+      { code: "physics.optics", name: "Optics", description: "Adaptive optics, nonlinear optics, optical tweezers, photonics, lasers and quantum optics." },
+      { code: "physics.plasm-ph", name: "Plasma Physics", description: "Fundamental plasma physics, magnetically confined plasmas, inertial confinement, space and astrophysical plasmas." },
+      { code: "physics.pop-ph", name: "Popular Physics", description: "Physics written for a general audience." },
+      { code: "physics.soc-ph", name: "Physics and Society", description: "Structure, dynamics and collective behavior of societies and groups, quantitative analysis of social networks and econophysics." },
+      { code: "physics.space-ph", name: "Space Physics", description: "Space plasma physics, heliophysics, space weather, planetary magnetospheres and ionospheres." },
+    ],
+  },
+  {
+    code: "quant-ph",
+    name: "Quantum Physics",
+    categories: [
+      { code: "quant-ph", name: "Quantum Physics", shortName: "Quantum", description: "Quantum mechanics, quantum information and computation, quantum optics and foundations of quantum theory." },
+    ],
+  },
+  {
+    code: "q-bio",
+    name: "Quantitative Biology",
+    categories: [
+      { code: "q-bio.BM", name: "Biomolecules", description: "DNA, RNA, proteins, lipids and their structure, folding and interactions." },
+      { code: "q-bio.CB", name: "Cell Behavior", description: "Cell-cell signaling and interaction, morphogenesis and development, apoptosis and immunology." },
+      { code: "q-bio.GN", name: "Genomics", description: "DNA sequencing and assembly, gene and motif finding, RNA editing and alternative splicing, genomic structure and processes." },
+      { code: "q-bio.MN", name: "Molecular Networks", description: "Gene regulation, signal transduction, proteomics, metabolomics and gene and enzymatic networks." },
+      { code: "q-bio.NC", name: "Neurons and Cognition", shortName: "Neuroscience", description: "Synapse, cortex, neuronal dynamics, neural networks, sensorimotor control, behavior and attention." },
+      { code: "q-bio.OT", name: "Other Quantitative Biology", description: "Work in quantitative biology that does not fit into the other categories." },
+      { code: "q-bio.PE", name: "Populations and Evolution", description: "Population dynamics, spatio-temporal and epidemiological models, dynamic speciation, co-evolution and biodiversity." },
+      { code: "q-bio.QM", name: "Quantitative Methods", description: "All experimental, numerical, statistical and mathematical contributions of value to biology." },
+      { code: "q-bio.SC", name: "Subcellular Processes", description: "Assembly and control of subcellular structures, molecular motors, transport and subcellular localization." },
+      { code: "q-bio.TO", name: "Tissues and Organs", description: "Blood flow in vessels, biomechanics of bones, electrical waves and endocrine system." },
+    ],
+  },
+  {
+    code: "q-fin",
+    name: "Quantitative Finance",
+    categories: [
+      { code: "q-fin.CP", name: "Computational Finance", description: "Computational methods, including Monte Carlo, PDE, lattice and other numerical methods with applications to financial modeling." },
+      { code: "q-fin.EC", name: "Economics", aliasOf: "econ.GN", description: "General methodological, applied and empirical contributions to economics." },
+      { code: "q-fin.GN", name: "General Finance", description: "Development of general quantitative methodologies with applications in finance." },
+      { code: "q-fin.MF", name: "Mathematical Finance", description: "Mathematical and analytical methods of finance, including stochastic, probabilistic and functional analysis." },
+      { code: "q-fin.PM", name: "Portfolio Management", description: "Security selection and optimization, capital allocation, investment strategies and performance measurement." },
+      { code: "q-fin.PR", name: "Pricing of Securities", description: "Valuation and hedging of financial securities, their derivatives and structured products." },
+      { code: "q-fin.RM", name: "Risk Management", description: "Measurement and management of financial risks in trading, banking, insurance, corporate and other applications." },
+      { code: "q-fin.ST", name: "Statistical Finance", description: "Statistical, econometric and econophysics analyses with applications to financial markets and economic data." },
+      { code: "q-fin.TR", name: "Trading and Market Microstructure", shortName: "Trading", description: "Market microstructure, liquidity, exchange and auction design, automated trading and agent-based modeling." },
+    ],
+  },
+  {
+    code: "stat",
+    name: "Statistics",
+    categories: [
+      { code: "stat.AP", name: "Applications", shortName: "Applied Statistics", description: "Biology, education, epidemiology, engineering, environmental sciences, medical, physical sciences, quality control and social sciences." },
+      { code: "stat.CO", name: "Computation", shortName: "Statistical Computing", description: "Algorithms, simulation and visualization." },
+      { code: "stat.ME", name: "Methodology", shortName: "Statistical Methodology", description: "Design, surveys, model selection, multiple testing, multivariate methods, signal and image processing, time series and survival analysis." },
+      { code: "stat.ML", name: "Machine Learning", shortName: "Statistics ML", description: "Machine learning papers with a statistical or theoretical grounding, covering supervised, unsupervised and semi-supervised learning and graphical models." },
+      { code: "stat.OT", name: "Other Statistics", description: "Work in statistics that does not fit into the other categories." },
+      { code: "stat.TH", name: "Statistics Theory", aliasOf: "math.ST", description: "Asymptotics, Bayesian inference, decision theory, estimation, foundations, inference and testing." },
+    ],
+  },
+];
+
+const CATEGORIES_BY_CODE = new Map(
+  ARXIV_ARCHIVES.flatMap((archive) => archive.categories.map((c) => [c.code, c]))
+);
+
+// Lowercased code -> code, so user and model input like "CS.lg" still resolves
+const CODES_BY_LOWERCASE = new Map(
+  Array.from(CATEGORIES_BY_CODE.keys()).map((code) => [code.toLowerCase(), code])
+);
+
+/** Whether `code` is a category or alias in the taxonomy. */
+export function isArxivCategory(code: string): boolean {
+  return CATEGORIES_BY_CODE.has(code);
+}
+
+/**
+ * Resolve a category code (case-insensitive, aliases allowed) to its
+ * canonical code, or null if no such category exists.
+ */
+export function resolveCategory(code: string): string | null {
+  const exact = CODES_BY_LOWERCASE.get(code.trim().toLowerCase());
+  if (!exact) {
+    return null;
+  }
+  return CATEGORIES_BY_CODE.get(exact)?.aliasOf ?? exact;
+}
+
+/** Canonical category for a code, following aliases. */
+export function getCategory(code: string): ArxivCategory | undefined {
+  const canonical = resolveCategory(code);
+  return canonical ? CATEGORIES_BY_CODE.get(canonical) : undefined;
+}
+
+export function getArchive(code: string): ArxivArchive | undefined {
+  const archiveCode = code.split(".")[0];
+  return ARXIV_ARCHIVES.find((a) => a.code === archiveCode);
+}
+
+/** Compact display label for chips; unknown codes are shown as-is. */
+export function getCategoryLabel(code: string): string {
+  const category = getCategory(code);
+  return category ? category.shortName ?? category.name : code;
+}
+
+/**
+ * Validate a list of category codes: aliases are mapped to their canonical
+ * code, duplicates are dropped and unknown codes are returned separately.
+ */
+export function normalizeCategories(codes: string[]): {
+  categories: string[];
+  unknown: string[];
+} {
+  const categories = new Set<string>();
+  const unknown: string[] = [];
+
+  for (const code of codes) {
+    const canonical = resolveCategory(code);
+    if (canonical) {
+      categories.add(canonical);
+    } else {
+      unknown.push(code);
+    }
+  }
+
+  return { categories: Array.from(categories), unknown };
+}
+
+/**
+ * All codes that name the same subject as `code` (the canonical code plus its
+ * aliases). Cross-listed papers may carry either, so DB filters match on all.
+ */
+export function getEquivalentCodes(code: string): string[] {
+  const canonical = resolveCategory(code);
+  if (!canonical) {
+    return [code];
+  }
+  return [
+    canonical,
+    ...Array.from(CATEGORIES_BY_CODE.values())
+      .filter((c) => c.aliasOf === canonical)
+      .map((c) => c.code),
+  ];
+}
+
+type Categorized = { categories: string[]; primaryCategory?: string };
+
+/**
+ * A paper's main category. Papers stored before it was recorded fall back to
+ * their first category, which arXiv lists first.
+ */
+export function getPrimaryCategory(paper: Categorized): string | undefined {
+  return paper.primaryCategory ?? paper.categories[0];
+}
+
+/** A paper's categories with the primary one first, for chips. */
+export function categoriesPrimaryFirst(paper: Categorized): string[] {
+  const primary = getPrimaryCategory(paper);
+  return primary
+    ? [primary, ...paper.categories.filter((c) => c !== primary)]
+    : paper.categories;
+}
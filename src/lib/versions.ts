@@ -0,0 +1,67 @@
+import { AbstractDiffPart } from "@/types";
+
+// "2401.12345v2" or "hep-th/9901001v3"; the version suffix is optional
+const VERSIONED_ID = /^(.+?)v(\d+)$/;
+
+/**
+ * Split an arXiv ID into the canonical ID shared by every version and the
+ * version number, which is null when the ID has no suffix.
+ */
+export function splitArxivId(id: string): { baseId: string; version: number | null } {
+  const match = id.trim().match(VERSIONED_ID);
+  return match
+    ? { baseId: match[1], version: parseInt(match[2]) }
+    : { baseId: id.trim(), version: null };
+}
+
+// Largest abstracts compared word by word; longer ones are shown as replaced
+const MAX_DIFF_WORDS = 2000;
+
+/**
+ * Word-level diff between two versions of an abstract, as runs of unchanged,
+ * removed and added text. Whitespace differences alone don't count.
+ */
+export function diffWords(before: string, after: string): AbstractDiffPart[] {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+
+  if (a.length * b.length > MAX_DIFF_WORDS * MAX_DIFF_WORDS) {
+    return [
+      { change: "removed", text: a.join(" ") },
+      { change: "added", text: b.join(" ") },
+    ];
+  }
+
+  // Longest common subsequence lengths of every pair of suffixes
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: AbstractDiffPart[] = [];
+  const push = (change: AbstractDiffPart["change"], word: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.change === change) {
+      last.text += ` ${word}`;
+    } else {
+      parts.push({ change, text: word });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push(null, a[i]);
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  return parts;
+}
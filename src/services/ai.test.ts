@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ArxivPaper, PaperSummary } from "@/types";
+
+// Each streamed request replays the next of these responses in small pieces
+const responses: string[] = [];
+const requests: { messages: { role: string; content: string }[] }[] = [];
+
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class {
+    messages = {
+      stream(params: (typeof requests)[number]) {
+        requests.push(structuredClone(params));
+        const text = responses.shift() ?? "";
+        return {
+          async *[Symbol.asyncIterator]() {
+            for (let i = 0; i < text.length; i += 7) {
+              yield {
+                type: "content_block_delta",
+                delta: { type: "input_json_delta", partial_json: text.slice(i, i + 7) },
+              };
+            }
+          },
+          finalMessage: async () => ({ stop_reason: "end_turn" }),
+        };
+      },
+    };
+  },
+}));
+
+import { AIOutputError, summarizePaper } from "./ai";
+
+const paper = {
+  arxivId: "2402.18001",
+  title: "Sparse Attention for Long Document Summarization",
+  authors: ["Jane Doe"],
+  abstract: "We propose a sparse attention pattern.",
+  categories: ["cs.CL"],
+  publishedDate: new Date("2024-02-28"),
+  pdfUrl: "https://arxiv.org/pdf/2402.18001",
+} as ArxivPaper;
+
+const summary: PaperSummary = {
+  hook: "Sparse attention makes long documents affordable",
+  keyConcepts: ["sparse attention"],
+  summary: "A linear attention pattern for summarization.",
+  whyMatters: "Long inputs no longer need truncating.",
+};
+
+describe("summarizePaper", () => {
+  beforeEach(() => {
+    vi.stubEnv("AI_PROVIDER", "claude");
+    vi.stubEnv("ANTHROPIC_API_KEY", "sk-ant-test");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    responses.length = 0;
+    requests.length = 0;
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("streams partial fields as they are written", async () => {
+    responses.push(JSON.stringify(summary));
+    const partials: Partial<PaperSummary>[] = [];
+
+    await expect(summarizePaper(paper, (p) => partials.push(p))).resolves.toEqual(summary);
+
+    expect(partials[0]).toEqual({});
+    expect(partials).toContainEqual({ hook: "Sparse atten" });
+    expect(partials.at(-1)).toEqual(summary);
+  });
+
+  it("resets and reads the repaired response from scratch", async () => {
+    const invalid = { hook: "A first attempt", keyConcepts: "not a list" };
+    responses.push(JSON.stringify(invalid), JSON.stringify(summary));
+    const events: unknown[] = [];
+
+    const result = await summarizePaper(
+      paper,
+      (partial) => events.push(partial),
+      () => events.push("reset")
+    );
+
+    expect(result).toEqual(summary);
+    const reset = events.indexOf("reset");
+    expect(events.lastIndexOf("reset")).toBe(reset);
+    expect(events[reset - 1]).toEqual(invalid);
+    // The repaired response's partials build up from nothing again
+    expect(events[reset + 1]).toEqual({});
+    expect(events.slice(reset + 1)).toContainEqual({ hook: "Sparse atten" });
+    expect(events.at(-1)).toEqual(summary);
+
+    // The repair request carries the rejected response and what was wrong with it
+    expect(requests[1].messages.slice(1)).toEqual([
+      { role: "assistant", content: JSON.stringify(invalid) },
+      {
+        role: "user",
+        content: expect.stringContaining("$.keyConcepts: expected array, got string"),
+      },
+    ]);
+  });
+
+  it("gives up when the repaired response is invalid too", async () => {
+    responses.push("{}", '{"hook": 1}');
+    const onReset = vi.fn();
+
+    await expect(summarizePaper(paper, () => {}, onReset)).rejects.toBeInstanceOf(AIOutputError);
+    expect(onReset).toHaveBeenCalledTimes(1);
+    expect(requests).toHaveLength(2);
+  });
+});
@@ -1,48 +1,36 @@
 import Anthropic from "@anthropic-ai/sdk";
 import OpenAI from "openai";
-import { ArxivPaper, PaperSummary, SearchQuery, PaperFigure, SelectedFigure, DeepSummary } from "@/types";
-import * as fs from "fs";
-import * as path from "path";
+import {
+  ArxivPaper,
+  PaperSummary,
+  SearchQuery,
+  PaperFigure,
+  SelectedFigure,
+  DeepSummary,
+  DeepSummaryGrounding,
+  ChatRole,
+} from "@/types";
+import { getEnv } from "@/lib/env";
+import {
+  JSONSchema,
+  arraySchema,
+  enumSchema,
+  integerSchema,
+  nullableSchema,
+  objectSchema,
+  stringSchema,
+  validateSchema,
+} from "@/lib/schema";
+import { verifyEvidence } from "@/lib/evidence";
+import { parsePartialJSON } from "@/lib/partialJson";
+import { ARXIV_ARCHIVES } from "@/lib/taxonomy";
+import { hasSearchCriteria, normalizeSearchFilters, plainSearchFilters } from "@/lib/searchFilters";
+import { PaperFullText } from "@/services/fulltext";
 
 type AIProvider = "claude" | "openai";
 
-// Load .env file explicitly to override system env vars
-function loadEnvFile(): Record<string, string> {
-  const envPath = path.resolve(process.cwd(), ".env");
-  const envVars: Record<string, string> = {};
-
-  try {
-    if (fs.existsSync(envPath)) {
-      const content = fs.readFileSync(envPath, "utf-8");
-      for (const line of content.split("\n")) {
-        const trimmed = line.trim();
-        if (trimmed && !trimmed.startsWith("#")) {
-          const [key, ...valueParts] = trimmed.split("=");
-          if (key && valueParts.length > 0) {
-            let value = valueParts.join("=").trim();
-            // Remove surrounding quotes if present
-            if ((value.startsWith('"') && value.endsWith('"')) ||
-                (value.startsWith("'") && value.endsWith("'"))) {
-              value = value.slice(1, -1);
-            }
-            envVars[key.trim()] = value;
-          }
-        }
-      }
-    }
-  } catch (error) {
-    console.warn("[AI] Could not read .env file, falling back to process.env");
-  }
-
-  return envVars;
-}
-
-const envFile = loadEnvFile();
-
-// Get env var, preferring .env file over system env
-function getEnv(key: string): string | undefined {
-  return envFile[key] || process.env[key];
-}
+const CLAUDE_MODEL = "claude-sonnet-4-20250514";
+const OPENAI_MODEL = "gpt-4o";
 
 function getProvider(): AIProvider {
   const provider = getEnv("AI_PROVIDER")?.toLowerCase() || "claude";
@@ -70,99 +58,470 @@ Guidelines:
 - State what is genuinely new versus incremental
 - Assume the reader has a strong CS background`;
 
-const SEARCH_PROMPT = `Convert this natural language search into an arXiv API query.
+const SUMMARY_OUTPUT: AIOutput = {
+  name: "paper_summary",
+  description: "A concise technical summary of a research paper",
+  schema: objectSchema({
+    hook: stringSchema(),
+    keyConcepts: arraySchema(stringSchema()),
+    summary: stringSchema(),
+    whyMatters: stringSchema(),
+  }),
+};
+
+const SEARCH_PROMPT = `Convert this natural language search into structured arXiv search filters.
 
 User query: "{query}"
+Today's date: {today}
 
-ArXiv categories reference:
-- cs.AI: Artificial Intelligence
-- cs.LG: Machine Learning
-- cs.CL: Computation and Language (NLP)
-- cs.CV: Computer Vision
-- cs.NE: Neural and Evolutionary Computing
-- stat.ML: Machine Learning (Statistics)
-- cs.RO: Robotics
-- cs.CR: Cryptography and Security
+ArXiv categories reference (only use codes from this list):
+{categoryReference}
+
+Search terms match one field: "all" (any field), "ti" (title), "au" (author name), "abs" (abstract).
+Each term is joined to the terms before it with "AND", "OR" or "ANDNOT" (exclude).
+Use "au" only for people the user names, and dates only when the user asks for a time period.
 
 Respond ONLY with valid JSON (no markdown):
 {
-  "searchQuery": "keywords to search for (space-separated)",
-  "categories": ["relevant", "category", "codes"],
+  "filters": {
+    "terms": [{"field": "all", "value": "keywords to search for", "operator": "AND"}],
+    "categories": ["relevant", "category", "codes"],
+    "dateFrom": "YYYY-MM-DD or null",
+    "dateTo": "YYYY-MM-DD or null"
+  },
   "sortBy": "relevance" or "submittedDate",
   "explanation": "brief explanation of why these parameters match user intent"
 }`;
 
-async function callClaude(prompt: string, maxTokens: number = 1024): Promise<string> {
+const SEARCH_OUTPUT: AIOutput = {
+  name: "search_query",
+  description: "Structured arXiv search filters for a natural language query",
+  schema: objectSchema({
+    filters: objectSchema({
+      terms: arraySchema(
+        objectSchema({
+          field: enumSchema(["all", "ti", "au", "abs"]),
+          value: stringSchema(),
+          operator: enumSchema(["AND", "OR", "ANDNOT"]),
+        })
+      ),
+      categories: arraySchema(stringSchema()),
+      dateFrom: nullableSchema(stringSchema("YYYY-MM-DD")),
+      dateTo: nullableSchema(stringSchema("YYYY-MM-DD")),
+    }),
+    sortBy: enumSchema(["relevance", "submittedDate"]),
+    explanation: stringSchema(),
+  }),
+};
+
+// --- Errors -----------------------------------------------------------------
+
+/** Base class for AI failures; `status` is what to report to our own API clients. */
+export class AIError extends Error {
+  readonly status: number = 502;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "AIError";
+  }
+}
+
+/** The selected provider has no API key. */
+export class AINotConfiguredError extends AIError {
+  readonly status = 503;
+
+  constructor(readonly provider: AIProvider) {
+    super(`${provider === "openai" ? "OPENAI_API_KEY" : "ANTHROPIC_API_KEY"} is not configured`);
+    this.name = "AINotConfiguredError";
+  }
+}
+
+/** The provider's API failed or refused the request. */
+export class AIProviderError extends AIError {
+  readonly status: number;
+
+  constructor(
+    message: string,
+    readonly upstreamStatus: number | null,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "AIProviderError";
+    this.status = upstreamStatus === 429 ? 429 : 502;
+  }
+}
+
+/** The model's output still didn't match the schema after asking for a repair. */
+export class AIOutputError extends AIError {
+  constructor(
+    readonly output: string,
+    readonly issues: string[]
+  ) {
+    super(`The AI returned an invalid ${output}`);
+    this.name = "AIOutputError";
+  }
+}
+
+function toProviderError(error: unknown): unknown {
+  if (error instanceof Anthropic.APIError || error instanceof OpenAI.APIError) {
+    const provider = error instanceof Anthropic.APIError ? "Claude" : "OpenAI";
+    return new AIProviderError(`${provider} API error: ${error.message}`, error.status ?? null, { cause: error });
+  }
+  return error;
+}
+
+// --- Completions ------------------------------------------------------------
+
+// A turn of a conversation sent to the models
+export interface ChatTurn {
+  role: ChatRole;
+  content: string;
+}
+
+// Structured output: the JSON the model has to produce, which providers that
+// support it are held to natively (Claude through a forced tool call, OpenAI
+// through a strict JSON schema)
+interface AIOutput {
+  name: string;
+  description: string;
+  schema: JSONSchema;
+}
+
+interface CompletionRequest {
+  system?: string;
+  messages: ChatTurn[];
+  maxTokens: number;
+  output?: AIOutput;
+  onText?: (delta: string) => void; // Streams the completion, passing on each piece as it arrives
+}
+
+interface Completion {
+  text: string; // With an output schema, the JSON produced
+  truncated: boolean; // Stopped at maxTokens
+}
+
+function logKey(provider: string, apiKey: string | undefined) {
+  console.log(`[AI] Using ${provider} with key from .env: ${apiKey ? apiKey.slice(0, 10) + "..." + apiKey.slice(-4) : "NOT SET"}`);
+}
+
+async function callClaude(request: CompletionRequest): Promise<Completion> {
   const apiKey = getEnv("ANTHROPIC_API_KEY");
-  console.log(`[AI] Using Claude with key from .env: ${apiKey ? apiKey.slice(0, 10) + "..." + apiKey.slice(-4) : "NOT SET"}`);
+  logKey("Claude", apiKey);
 
   const client = new Anthropic({
     apiKey,
   });
 
-  const response = await client.messages.create({
-    model: "claude-sonnet-4-20250514",
-    max_tokens: maxTokens,
-    messages: [{ role: "user", content: prompt }],
-  });
+  const { output } = request;
+  const params: Anthropic.MessageCreateParamsNonStreaming = {
+    model: CLAUDE_MODEL,
+    max_tokens: request.maxTokens,
+    ...(request.system ? { system: request.system } : {}),
+    messages: request.messages,
+    ...(output
+      ? {
+          tools: [
+            {
+              name: output.name,
+              description: output.description,
+              input_schema: output.schema as Anthropic.Tool.InputSchema,
+            },
+          ],
+          tool_choice: { type: "tool", name: output.name },
+        }
+      : {}),
+  };
+
+  if (request.onText) {
+    let text = "";
+    const stream = client.messages.stream(params);
+    for await (const event of stream) {
+      if (event.type !== "content_block_delta") continue;
+      const delta =
+        event.delta.type === "text_delta"
+          ? event.delta.text
+          : event.delta.type === "input_json_delta"
+            ? event.delta.partial_json
+            : "";
+      if (delta) {
+        text += delta;
+        request.onText(delta);
+      }
+    }
+    const message = await stream.finalMessage();
+    return { text, truncated: message.stop_reason === "max_tokens" };
+  }
 
+  const response = await client.messages.create(params);
+  const toolBlock = response.content.find((block) => block.type === "tool_use");
   const textBlock = response.content.find((block) => block.type === "text");
-  return textBlock?.type === "text" ? textBlock.text : "";
+  return {
+    text:
+      toolBlock?.type === "tool_use"
+        ? JSON.stringify(toolBlock.input)
+        : textBlock?.type === "text"
+          ? textBlock.text
+          : "",
+    truncated: response.stop_reason === "max_tokens",
+  };
 }
 
-async function callOpenAI(prompt: string, maxTokens: number = 1024): Promise<string> {
+async function callOpenAI(request: CompletionRequest): Promise<Completion> {
   const apiKey = getEnv("OPENAI_API_KEY");
-  console.log(`[AI] Using OpenAI with key from .env: ${apiKey ? apiKey.slice(0, 10) + "..." + apiKey.slice(-4) : "NOT SET"}`);
+  logKey("OpenAI", apiKey);
 
   const client = new OpenAI({
     apiKey,
   });
 
-  const response = await client.chat.completions.create({
-    model: "gpt-4o",
-    messages: [{ role: "user", content: prompt }],
+  const { output } = request;
+  const params = {
+    model: OPENAI_MODEL,
+    messages: request.system
+      ? [{ role: "system" as const, content: request.system }, ...request.messages]
+      : request.messages,
+    max_tokens: request.maxTokens,
+    ...(output
+      ? {
+          response_format: {
+            type: "json_schema" as const,
+            json_schema: {
+              name: output.name,
+              description: output.description,
+              schema: output.schema as unknown as Record<string, unknown>,
+              strict: true,
+            },
+          },
+        }
+      : {}),
+  };
+
+  if (request.onText) {
+    let text = "";
+    let truncated = false;
+    const stream = await client.chat.completions.create({ ...params, stream: true });
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        request.onText(delta);
+      }
+      truncated ||= chunk.choices[0]?.finish_reason === "length";
+    }
+    return { text, truncated };
+  }
+
+  const response = await client.chat.completions.create(params);
+  return {
+    text: response.choices[0]?.message?.content || "",
+    truncated: response.choices[0]?.finish_reason === "length",
+  };
+}
+
+function checkConfigured(provider: AIProvider) {
+  if (!getEnv(provider === "openai" ? "OPENAI_API_KEY" : "ANTHROPIC_API_KEY")) {
+    throw new AINotConfiguredError(provider);
+  }
+}
+
+async function callAI(request: CompletionRequest): Promise<Completion> {
+  const provider = getProvider();
+  checkConfigured(provider);
+  try {
+    return provider === "openai" ? await callOpenAI(request) : await callClaude(request);
+  } catch (error) {
+    throw toProviderError(error);
+  }
+}
+
+async function* streamClaude(
+  system: string,
+  messages: ChatTurn[],
+  maxTokens: number
+): AsyncGenerator<string> {
+  const client = new Anthropic({ apiKey: getEnv("ANTHROPIC_API_KEY") });
+  const stream = client.messages.stream({
+    model: CLAUDE_MODEL,
     max_tokens: maxTokens,
+    system,
+    messages,
   });
 
-  return response.choices[0]?.message?.content || "";
+  for await (const event of stream) {
+    if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+      yield event.delta.text;
+    }
+  }
 }
 
-async function callAI(prompt: string, maxTokens: number = 1024): Promise<string> {
+async function* streamOpenAI(
+  system: string,
+  messages: ChatTurn[],
+  maxTokens: number
+): AsyncGenerator<string> {
+  const client = new OpenAI({ apiKey: getEnv("OPENAI_API_KEY") });
+  const stream = await client.chat.completions.create({
+    model: OPENAI_MODEL,
+    messages: [{ role: "system", content: system }, ...messages],
+    max_tokens: maxTokens,
+    stream: true,
+  });
+
+  for await (const chunk of stream) {
+    const text = chunk.choices[0]?.delta?.content;
+    if (text) {
+      yield text;
+    }
+  }
+}
+
+// Like callAI, for a free-form conversation, yielding the reply as it is generated
+async function* streamAI(system: string, messages: ChatTurn[], maxTokens: number = 1024): AsyncGenerator<string> {
   const provider = getProvider();
+  checkConfigured(provider);
+  try {
+    yield* provider === "openai"
+      ? streamOpenAI(system, messages, maxTokens)
+      : streamClaude(system, messages, maxTokens);
+  } catch (error) {
+    throw toProviderError(error);
+  }
+}
 
-  if (provider === "openai") {
-    if (!getEnv("OPENAI_API_KEY")) {
-      throw new Error("OPENAI_API_KEY is not configured");
+// --- Structured output ------------------------------------------------------
+
+// Follow-up requests for a corrected response before giving up
+const MAX_REPAIR_ATTEMPTS = 1;
+
+const REPAIR_PROMPT = `Your response could not be used:
+{issues}
+
+Respond again with the complete corrected JSON only, following the same format.`;
+
+// Problems reported back to the model; the first few say enough
+const MAX_REPORTED_ISSUES = 10;
+
+function parseOutput(completion: Completion, schema: JSONSchema): { value: unknown; issues: string[] } {
+  if (completion.truncated) {
+    return { value: null, issues: ["The response was cut off at the length limit; keep every field shorter"] };
+  }
+  // Remove markdown code blocks if present
+  const cleaned = completion.text.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+  let value: unknown;
+  try {
+    value = JSON.parse(cleaned);
+  } catch (error) {
+    return { value: null, issues: [`Not valid JSON: ${error instanceof Error ? error.message : error}`] };
+  }
+  return { value, issues: validateSchema(schema, value) };
+}
+
+/**
+ * Run a prompt whose answer has to match `output.schema`. A response that
+ * doesn't parse or validate is sent back with the problems found, once;
+ * if the repaired one fails too, an AIOutputError is thrown. `onPartial`
+ * follows each response as it streams in, and `onReset` is called before a
+ * repaired response starts, since it replaces everything sent so far.
+ */
+async function callAIForJSON<T>(
+  output: AIOutput,
+  prompt: string,
+  options: {
+    maxTokens?: number;
+    onPartial?: (partial: Partial<T>) => void;
+    onReset?: () => void;
+  } = {}
+): Promise<T> {
+  const messages: ChatTurn[] = [{ role: "user", content: prompt }];
+  for (let attempt = 0; ; attempt++) {
+    if (attempt > 0) {
+      options.onReset?.();
+    }
+    const completion = await callAI({
+      messages,
+      maxTokens: options.maxTokens ?? 1024,
+      output,
+      onText: options.onPartial && partialJSONReader(options.onPartial),
+    });
+    const { value, issues } = parseOutput(completion, output.schema);
+    if (issues.length === 0) {
+      return value as T;
     }
-    return callOpenAI(prompt, maxTokens);
-  } else {
-    if (!getEnv("ANTHROPIC_API_KEY")) {
-      throw new Error("ANTHROPIC_API_KEY is not configured");
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw new AIOutputError(output.name, issues);
     }
-    return callClaude(prompt, maxTokens);
+
+    console.warn(`[AI] Invalid ${output.name}, asking for a repair: ${issues.slice(0, 3).join("; ")}`);
+    messages.push(
+      { role: "assistant", content: completion.text || "(empty response)" },
+      {
+        role: "user",
+        content: REPAIR_PROMPT.replace("{issues}", () =>
+          issues.slice(0, MAX_REPORTED_ISSUES).map((issue) => `- ${issue}`).join("\n")
+        ),
+      }
+    );
   }
 }
 
-function parseJSON<T>(text: string): T {
-  // Remove markdown code blocks if present
-  const cleaned = text.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
-  return JSON.parse(cleaned) as T;
+// An onText callback that re-reads the JSON generated so far and passes on
+// the fields it has whenever they change
+function partialJSONReader<T>(onPartial: (partial: Partial<T>) => void): (delta: string) => void {
+  let text = "";
+  let last = "";
+  return (delta) => {
+    text += delta;
+    const partial = parsePartialJSON<T>(text);
+    const serialized = JSON.stringify(partial);
+    if (partial && serialized !== last) {
+      last = serialized;
+      onPartial(partial);
+    }
+  };
 }
 
-export async function summarizePaper(paper: ArxivPaper): Promise<PaperSummary> {
+/**
+ * `onPartial` receives the fields written so far while the summary is
+ * generated; after `onReset` they start over.
+ */
+export async function summarizePaper(
+  paper: ArxivPaper,
+  onPartial?: (partial: Partial<PaperSummary>) => void,
+  onReset?: () => void
+): Promise<PaperSummary> {
   const prompt = SUMMARIZE_PROMPT.replace("{title}", paper.title)
     .replace("{authors}", paper.authors.join(", "))
     .replace("{abstract}", paper.abstract)
     .replace("{categories}", paper.categories.join(", "));
 
-  const response = await callAI(prompt);
-  return parseJSON<PaperSummary>(response);
+  return callAIForJSON<PaperSummary>(SUMMARY_OUTPUT, prompt, { onPartial, onReset });
 }
 
+// Every canonical category, one "- code: name" line each
+const CATEGORY_REFERENCE = ARXIV_ARCHIVES.flatMap((archive) =>
+  archive.categories
+    .filter((c) => !c.aliasOf)
+    .map((c) => `- ${c.code}: ${archive.code === c.code ? c.name : `${archive.name} - ${c.name}`}`)
+).join("\n");
+
 export async function interpretSearch(query: string): Promise<SearchQuery> {
-  const prompt = SEARCH_PROMPT.replace("{query}", query);
-  const response = await callAI(prompt);
-  return parseJSON<SearchQuery>(response);
+  const prompt = SEARCH_PROMPT.replace("{categoryReference}", CATEGORY_REFERENCE)
+    .replace("{today}", new Date().toISOString().slice(0, 10))
+    .replace("{query}", query);
+  const interpreted = await callAIForJSON<SearchQuery>(SEARCH_OUTPUT, prompt);
+
+  // Drop anything the filters can't express (e.g. made-up categories) rather
+  // than sending it to arXiv
+  const { filters, problems } = normalizeSearchFilters(interpreted.filters);
+  if (problems.length > 0) {
+    console.warn(`[AI] Ignoring invalid search filters: ${problems.join("; ")}`);
+  }
+
+  return {
+    filters: hasSearchCriteria(filters) ? filters : plainSearchFilters(query),
+    sortBy: interpreted.sortBy === "submittedDate" ? "submittedDate" : "relevance",
+    explanation: interpreted.explanation,
+  };
 }
 
 const SELECT_FIGURE_PROMPT = `You are selecting the most visually compelling figure from an arXiv paper for a TikTok-style feed.
@@ -190,6 +549,15 @@ If no figures are suitable (all are tables, equations, or low quality), respond:
   "reason": "No suitable visual figures found"
 }`;
 
+const FIGURE_OUTPUT: AIOutput = {
+  name: "figure_selection",
+  description: "The figure chosen to represent a paper, or 0 for none",
+  schema: objectSchema({
+    selectedIndex: integerSchema("1-based figure index, or 0 if no figure is suitable"),
+    reason: stringSchema(),
+  }),
+};
+
 export async function selectBestFigure(
   paper: ArxivPaper,
   figures: PaperFigure[]
@@ -206,10 +574,9 @@ export async function selectBestFigure(
     .replace("{abstract}", paper.abstract.substring(0, 1000))
     .replace("{figures}", figuresText);
 
-  const response = await callAI(prompt);
-  const result = parseJSON<{ selectedIndex: number; reason: string }>(response);
+  const result = await callAIForJSON<{ selectedIndex: number; reason: string }>(FIGURE_OUTPUT, prompt);
 
-  if (result.selectedIndex === 0 || result.selectedIndex > figures.length) {
+  if (result.selectedIndex < 1 || result.selectedIndex > figures.length) {
     return null;
   }
 
@@ -230,6 +597,9 @@ Categories: {categories}
 Available Figures:
 {figures}
 
+Paper Body:
+{body}
+
 IMPORTANT: The reader has already seen the abstract. Do NOT repeat basic information like "this paper proposes X" or restate what the paper is about. Instead, go DEEPER into implementation specifics, technical mechanisms, and architectural choices.
 
 Respond ONLY with valid JSON (no markdown):
@@ -259,6 +629,15 @@ Respond ONLY with valid JSON (no markdown):
       "description": "Technical content shown (architecture diagram, ablation results, etc.)",
       "significance": "What this reveals about the method that isn't obvious from text"
     }
+  ],
+  "claimSections": [
+    { "claim": "problem", "sections": ["S1"] },
+    { "claim": "contributions.0", "sections": ["S3"] },
+    { "claim": "evaluation", "sections": ["S4", "S5"] }
+  ],
+  "evidence": [
+    { "claim": "contributions.0", "quote": "A sentence copied exactly from the paper", "section": "S3", "figure": null },
+    { "claim": "evaluation", "quote": "Another exact sentence, here from a figure caption", "section": null, "figure": 2 }
   ]
 }
 
@@ -266,26 +645,200 @@ Guidelines:
 - NEVER repeat phrases from the abstract verbatim
 - Focus on implementation SPECIFICS: architecture details, hyperparameters, training tricks, inference optimizations
 - Include concrete numbers, dimensions, layer counts when inferable
+- When the paper body is given, take numbers, hyperparameters and results ONLY from it; never estimate a figure the body doesn't state
+- In claimSections, map each field (and each list item by its index, e.g. "strengths.1", "figureAnalysis.0") to the IDs of the body sections it is drawn from, as given in [brackets]. Omit fields not supported by any section; use [] when there is no body
+- In evidence, back every contribution, the evaluation, and every strength and limitation with 1-2 sentences copied EXACTLY (word for word) from the paper body, the abstract (section "abstract") or a figure caption (its figure number, with section null). Any number you state must appear in a quoted sentence. If nothing in the text supports a claim, leave it out of evidence rather than paraphrasing or inventing a quote
 - Explain the "secret sauce" - what makes this approach actually work
 - For figureAnalysis, only include 2-3 most informative figures`;
 
+const DEEP_SUMMARY_OUTPUT: AIOutput = {
+  name: "deep_summary",
+  description: "An in-depth technical analysis of a research paper, with its sources",
+  schema: objectSchema({
+    category: stringSchema(),
+    problem: stringSchema(),
+    contributions: arraySchema(stringSchema()),
+    technicalApproach: stringSchema(),
+    priorWork: stringSchema(),
+    evaluation: stringSchema(),
+    strengths: arraySchema(stringSchema()),
+    limitations: arraySchema(stringSchema()),
+    implications: stringSchema(),
+    figureAnalysis: arraySchema(
+      objectSchema({
+        figureIndex: integerSchema(),
+        description: stringSchema(),
+        significance: stringSchema(),
+      })
+    ),
+    // Lists rather than maps keyed by claim, since strict schemas can't have open keys
+    claimSections: arraySchema(
+      objectSchema({
+        claim: stringSchema('Field path, e.g. "problem" or "contributions.0"'),
+        sections: arraySchema(stringSchema()),
+      })
+    ),
+    evidence: arraySchema(
+      objectSchema({
+        claim: stringSchema('Field path, e.g. "evaluation" or "strengths.1"'),
+        quote: stringSchema(),
+        section: nullableSchema(stringSchema()),
+        figure: nullableSchema(integerSchema()),
+      })
+    ),
+  }),
+};
+
+// Body sections headed by the IDs the model refers to them by
+function formatSections(fullText: PaperFullText): string {
+  return fullText.sections.map((s) => `[${s.id}] ${s.title}\n${s.text}`).join("\n\n");
+}
+
+// Claims in claimSections are DeepSummary field paths: "problem", "contributions.0", ...
+const CLAIM_PATH = /^(problem|technicalApproach|priorWork|evaluation|implications|(contributions|strengths|limitations|figureAnalysis)\.\d+)$/;
+
+// Keep only well-formed paths pointing at sections that were actually sent
+function groundSummary(
+  claimSections: unknown,
+  fullText: PaperFullText | null
+): DeepSummaryGrounding {
+  if (!fullText) {
+    return { source: "abstract", sections: [], claimSections: {} };
+  }
+  const known = new Set(fullText.sections.map((s) => s.id));
+  const claims: Record<string, string[]> = {};
+  if (Array.isArray(claimSections)) {
+    for (const { claim, sections } of claimSections) {
+      const valid = Array.isArray(sections) ? sections.filter((id) => known.has(id)) : [];
+      if (typeof claim === "string" && CLAIM_PATH.test(claim) && valid.length > 0) {
+        claims[claim] = Array.from(new Set([...(claims[claim] ?? []), ...valid]));
+      }
+    }
+  }
+  return {
+    source: fullText.source,
+    sections: fullText.sections.map(({ id, title }) => ({ id, title })),
+    claimSections: claims,
+  };
+}
+
+/**
+ * `fullText` should already be cut down to the context budget (see
+ * selectSections); without it the analysis rests on the abstract alone.
+ * `onPartial` receives the sections written so far while it is generated;
+ * after `onReset` they start over.
+ */
 export async function generateDeepSummary(
   paper: ArxivPaper,
-  figures: PaperFigure[]
+  figures: PaperFigure[],
+  fullText: PaperFullText | null = null,
+  onPartial?: (partial: Partial<DeepSummary>) => void,
+  onReset?: () => void
 ): Promise<DeepSummary> {
   const figuresText =
     figures.length > 0
       ? figures.map((f) => `Figure ${f.index}: "${f.caption}"`).join("\n")
       : "No figures available";
+  const bodyText = fullText
+    ? formatSections(fullText)
+    : "Not available; work from the abstract and figure captions.";
 
   const prompt = DEEP_SUMMARY_PROMPT.replace("{title}", paper.title)
     .replace("{authors}", paper.authors.join(", "))
     .replace("{abstract}", paper.abstract)
     .replace("{categories}", paper.categories.join(", "))
-    .replace("{figures}", figuresText);
+    .replace("{figures}", figuresText)
+    .replace("{body}", () => bodyText);
+
+  // Grounding and evidence only mean something once checked, at the end
+  const { claimSections, evidence, ...summary } = await callAIForJSON<
+    Omit<DeepSummary, "evidence"> & { claimSections: unknown; evidence: unknown }
+  >(DEEP_SUMMARY_OUTPUT, prompt, {
+    maxTokens: 3072,
+    onPartial:
+      onPartial &&
+      ((partial) => {
+        const sections = { ...partial };
+        delete sections.claimSections;
+        delete sections.evidence;
+        onPartial(sections as Partial<DeepSummary>);
+      }),
+    onReset,
+  });
+  return {
+    ...summary,
+    grounding: groundSummary(claimSections, fullText),
+    // Quotes that can't be found in the paper are dropped, leaving the claim unsupported
+    evidence: verifyEvidence(evidence, {
+      abstract: paper.abstract,
+      sections: fullText?.sections ?? [],
+      figures,
+    }),
+  };
+}
+
+const CHAT_PROMPT = `You are an expert computer science researcher answering questions about one research paper. Answer from the material below: the abstract, an earlier in-depth analysis and sections of the paper body, each marked with its ID in [brackets].
+
+Paper Title: {title}
+Authors: {authors}
+Abstract: {abstract}
+
+Earlier Analysis:
+{analysis}
 
-  const response = await callAI(prompt, 2048);
-  return parseJSON<DeepSummary>(response);
+Paper Body:
+{body}
+
+Guidelines:
+- Be concise and specific; use Markdown for lists, equations and code
+- Cite the body sections you rely on by their ID, e.g. [S3]
+- If the material doesn't answer the question, say so rather than guessing at details like hyperparameters or numbers
+- For comparisons with work the paper doesn't discuss, say clearly which parts come from general knowledge rather than from the paper`;
+
+// Text fields of a deep summary, for use as context
+function formatDeepSummary(summary: DeepSummary): string {
+  return [
+    `Problem: ${summary.problem}`,
+    `Contributions:\n${summary.contributions.map((c) => `- ${c}`).join("\n")}`,
+    `Technical approach: ${summary.technicalApproach}`,
+    `Prior work: ${summary.priorWork}`,
+    `Evaluation: ${summary.evaluation}`,
+    `Limitations:\n${(summary.limitations ?? []).map((l) => `- ${l}`).join("\n")}`,
+  ].join("\n\n");
+}
+
+/**
+ * Answer the last question in `history` about a paper, streamed as it is
+ * generated. `fullText` should already be cut down to the context budget.
+ */
+export function streamPaperAnswer(
+  paper: ArxivPaper,
+  deepSummary: DeepSummary | null,
+  fullText: PaperFullText | null,
+  history: ChatTurn[]
+): AsyncGenerator<string> {
+  const system = CHAT_PROMPT.replace("{title}", paper.title)
+    .replace("{authors}", paper.authors.join(", "))
+    .replace("{abstract}", paper.abstract)
+    .replace("{analysis}", () => (deepSummary ? formatDeepSummary(deepSummary) : "Not available."))
+    .replace("{body}", () =>
+      fullText
+        ? formatSections(fullText)
+        : "Not available; answer from the abstract and the analysis."
+    );
+
+  // A question whose answer failed is followed by the next question; the
+  // APIs expect turns to alternate, so run them together
+  const turns: ChatTurn[] = [];
+  for (const turn of history) {
+    const last = turns[turns.length - 1];
+    if (last?.role === turn.role) {
+      last.content += `\n\n${turn.content}`;
+    } else {
+      turns.push({ ...turn });
+    }
+  }
+  return streamAI(system, turns, 2048);
 }
 
 export function isAIConfigured(): boolean {
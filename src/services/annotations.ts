@@ -0,0 +1,158 @@
+import { prisma } from "@/lib/prisma";
+import { Note as PrismaNote, Highlight as PrismaHighlight } from "@prisma/client";
+import { Note, NoteSearchResult, Highlight, Paper, DeepSummary } from "@/types";
+
+const DEEP_SUMMARY_TEXT_FIELDS = [
+  "problem",
+  "technicalApproach",
+  "priorWork",
+  "evaluation",
+  "implications",
+] as const;
+
+const DEEP_SUMMARY_LIST_FIELDS = ["contributions", "strengths", "limitations"] as const;
+
+function toNote(dbNote: PrismaNote): Note {
+  return {
+    id: dbNote.id,
+    paperId: dbNote.paperId,
+    body: dbNote.body,
+    createdAt: dbNote.createdAt,
+    updatedAt: dbNote.updatedAt,
+  };
+}
+
+function toHighlight(dbHighlight: PrismaHighlight): Highlight {
+  return {
+    id: dbHighlight.id,
+    paperId: dbHighlight.paperId,
+    field: dbHighlight.field,
+    start: dbHighlight.start,
+    end: dbHighlight.end,
+    text: dbHighlight.text,
+    createdAt: dbHighlight.createdAt,
+  };
+}
+
+/**
+ * Resolve a highlight field path ("abstract", "deepSummary.problem",
+ * "deepSummary.contributions.0") to the text it refers to, or null if the
+ * path is unknown or the paper has no such text.
+ */
+export function getHighlightFieldText(paper: Paper, field: string): string | null {
+  if (field === "abstract") {
+    return paper.abstract;
+  }
+
+  const [root, key, index, ...rest] = field.split(".");
+  if (root !== "deepSummary" || !paper.deepSummary || rest.length > 0) {
+    return null;
+  }
+
+  const deepSummary: DeepSummary = paper.deepSummary;
+  if (index === undefined) {
+    const textKey = DEEP_SUMMARY_TEXT_FIELDS.find((f) => f === key);
+    return textKey ? deepSummary[textKey] || null : null;
+  }
+
+  const listKey = DEEP_SUMMARY_LIST_FIELDS.find((f) => f === key);
+  if (!listKey || !/^\d+$/.test(index)) {
+    return null;
+  }
+  return deepSummary[listKey]?.[parseInt(index)] ?? null;
+}
+
+export async function getNotes(userId: string, paperId: string): Promise<Note[]> {
+  const notes = await prisma.note.findMany({
+    where: { userId, paperId },
+    orderBy: { createdAt: "asc" },
+  });
+  return notes.map(toNote);
+}
+
+export async function getNotesForPapers(
+  userId: string,
+  paperIds: string[]
+): Promise<Map<string, Note[]>> {
+  const notes = await prisma.note.findMany({
+    where: { userId, paperId: { in: paperIds } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const byPaper = new Map<string, Note[]>();
+  for (const note of notes) {
+    byPaper.set(note.paperId, [...(byPaper.get(note.paperId) || []), toNote(note)]);
+  }
+  return byPaper;
+}
+
+export async function getNoteById(userId: string, id: string): Promise<Note | null> {
+  const note = await prisma.note.findFirst({ where: { id, userId } });
+  return note ? toNote(note) : null;
+}
+
+export async function createNote(
+  userId: string,
+  paperId: string,
+  body: string
+): Promise<Note> {
+  const note = await prisma.note.create({
+    data: { userId, paperId, body },
+  });
+  return toNote(note);
+}
+
+export async function updateNote(id: string, body: string): Promise<Note> {
+  const note = await prisma.note.update({
+    where: { id },
+    data: { body },
+  });
+  return toNote(note);
+}
+
+export async function deleteNote(userId: string, id: string): Promise<void> {
+  await prisma.note.deleteMany({ where: { id, userId } });
+}
+
+export async function searchNotes(
+  userId: string,
+  query: string,
+  limit: number = 20
+): Promise<NoteSearchResult[]> {
+  const notes = await prisma.note.findMany({
+    where: { userId, body: { contains: query } },
+    include: { paper: { select: { id: true, arxivId: true, title: true } } },
+    orderBy: { updatedAt: "desc" },
+    take: limit,
+  });
+  return notes.map((n) => ({ ...toNote(n), paper: n.paper }));
+}
+
+export async function getHighlights(
+  userId: string,
+  paperId: string
+): Promise<Highlight[]> {
+  const highlights = await prisma.highlight.findMany({
+    where: { userId, paperId },
+    orderBy: [{ field: "asc" }, { start: "asc" }],
+  });
+  return highlights.map(toHighlight);
+}
+
+export async function createHighlight(
+  userId: string,
+  paperId: string,
+  field: string,
+  start: number,
+  end: number,
+  text: string
+): Promise<Highlight> {
+  const highlight = await prisma.highlight.create({
+    data: { userId, paperId, field, start, end, text },
+  });
+  return toHighlight(highlight);
+}
+
+export async function deleteHighlight(userId: string, id: string): Promise<void> {
+  await prisma.highlight.deleteMany({ where: { id, userId } });
+}
@@ -0,0 +1,29 @@
+// ar5iv renders arXiv LaTeX sources as HTML, which is where figures and the
+// paper body are read from
+const AR5IV_BASE = "https://ar5iv.labs.arxiv.org/html";
+
+export function getAr5ivUrl(arxivId: string): string {
+  // Stored IDs have no version suffix, but IDs straight from arXiv might
+  const cleanId = arxivId.replace(/v\d+$/, "");
+  return `${AR5IV_BASE}/${cleanId}`;
+}
+
+/**
+ * Fetch the ar5iv rendering of a paper. Throws with a short, displayable
+ * message when there is none or ar5iv fails.
+ */
+export async function fetchAr5ivHtml(arxivId: string): Promise<string> {
+  const response = await fetch(getAr5ivUrl(arxivId), {
+    headers: {
+      "User-Agent": "ScrollXiv/1.0 (Academic paper browser)",
+    },
+  });
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      throw new Error("ar5iv rendering not available");
+    }
+    throw new Error(`ar5iv returned ${response.status}`);
+  }
+  return response.text();
+}
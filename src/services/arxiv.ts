@@ -1,57 +1,14 @@
-import { parseStringPromise } from "xml2js";
-import { ArxivPaper, DEFAULT_CATEGORIES } from "@/types";
-
-const ARXIV_API_BASE = "http://export.arxiv.org/api/query";
-
-interface ArxivEntry {
-  id: string[];
-  title: string[];
-  summary: string[];
-  author: Array<{ name: string[] }>;
-  published: string[];
-  category: Array<{ $: { term: string } }>;
-  link: Array<{ $: { href: string; title?: string } }>;
-}
-
-interface ArxivResponse {
-  feed: {
-    entry?: ArxivEntry[];
-    "opensearch:totalResults"?: string[];
-  };
-}
-
-function cleanText(text: string): string {
-  return text.replace(/\s+/g, " ").trim();
-}
-
-function extractArxivId(url: string): string {
-  const match = url.match(/abs\/(.+)$/);
-  return match ? match[1] : url;
-}
-
-function parseEntry(entry: ArxivEntry): ArxivPaper {
-  const id = entry.id[0];
-  const arxivId = extractArxivId(id);
-
-  const pdfLink = entry.link.find((l) => l.$.title === "pdf");
-  const pdfUrl = pdfLink ? pdfLink.$.href : `https://arxiv.org/pdf/${arxivId}`;
-
-  return {
-    arxivId,
-    title: cleanText(entry.title[0]),
-    authors: entry.author.map((a) => a.name[0]),
-    abstract: cleanText(entry.summary[0]),
-    categories: entry.category.map((c) => c.$.term),
-    publishedDate: new Date(entry.published[0]),
-    pdfUrl,
-  };
-}
+import { getEquivalentCodes } from "@/lib/taxonomy";
+import { searchTokens } from "@/lib/searchFilters";
+import { ArxivRequestOptions, getArxivClient } from "@/services/arxivClient";
+import { ArxivPaper, DEFAULT_CATEGORIES, SearchFilters, SearchTerm } from "@/types";
 
 export async function fetchFromArxiv(
   categories: string[] = DEFAULT_CATEGORIES,
   maxResults: number = 20,
   start: number = 0,
-  sortBy: "submittedDate" | "relevance" = "submittedDate"
+  sortBy: "submittedDate" | "relevance" = "submittedDate",
+  options: ArxivRequestOptions = {}
 ): Promise<{ papers: ArxivPaper[]; total: number }> {
   const categoryQuery = categories.map((cat) => `cat:${cat}`).join("+OR+");
   const searchQuery = `(${categoryQuery})`;
@@ -64,59 +21,87 @@ export async function fetchFromArxiv(
     sortOrder: "descending",
   });
 
-  const response = await fetch(`${ARXIV_API_BASE}?${params}`);
-  if (!response.ok) {
-    throw new Error(`arXiv API error: ${response.status}`);
+  return getArxivClient().query(params, options);
+}
+
+// arXiv dates are YYYYMMDDHHMM in GMT
+function toArxivDate(date: string, endOfDay: boolean): string {
+  return `${date.replace(/-/g, "")}${endOfDay ? "2359" : "0000"}`;
+}
+
+function formatTerm(term: SearchTerm): string | null {
+  const clauses = searchTokens(term).map((token) => `${term.field}:"${token}"`);
+  if (clauses.length === 0) {
+    return null;
   }
+  return clauses.length === 1 ? clauses[0] : `(${clauses.join(" AND ")})`;
+}
 
-  const xml = await response.text();
-  const result = (await parseStringPromise(xml)) as ArxivResponse;
+/**
+ * Build an arXiv `search_query` from structured filters. Terms are combined
+ * left to right with their operators; every value is quoted and stripped of
+ * query syntax, so user input can only ever match text. Leading excluding
+ * terms are applied after categories and dates.
+ */
+export function buildArxivQuery(filters: SearchFilters): string {
+  let expression: string | null = null;
+  const exclusions: string[] = [];
+
+  for (const term of filters.terms) {
+    const formatted = formatTerm(term);
+    if (!formatted) continue;
+
+    if (expression === null) {
+      if (term.operator === "ANDNOT") {
+        exclusions.push(formatted);
+      } else {
+        expression = formatted;
+      }
+    } else {
+      expression = `(${expression} ${term.operator} ${formatted})`;
+    }
+  }
 
-  const entries = result.feed.entry || [];
-  const total = parseInt(result.feed["opensearch:totalResults"]?.[0] || "0");
+  const parts = expression ? [expression] : [];
+  const categories = filters.categories.flatMap(getEquivalentCodes);
+  if (categories.length > 0) {
+    parts.push(`(${categories.map((cat) => `cat:${cat}`).join(" OR ")})`);
+  }
+  if (filters.dateFrom || filters.dateTo) {
+    const from = filters.dateFrom ? toArxivDate(filters.dateFrom, false) : "199101010000";
+    const to = filters.dateTo
+      ? toArxivDate(filters.dateTo, true)
+      : toArxivDate(new Date().toISOString().slice(0, 10), true);
+    parts.push(`submittedDate:[${from} TO ${to}]`);
+  }
+  if (parts.length === 0) {
+    throw new Error("Search filters select nothing");
+  }
 
-  return {
-    papers: entries.map(parseEntry),
-    total,
-  };
+  return exclusions.reduce(
+    (query, excluded) => `(${query}) ANDNOT ${excluded}`,
+    parts.join(" AND ")
+  );
 }
 
 export async function searchArxiv(
-  query: string,
-  categories?: string[],
+  filters: SearchFilters,
   maxResults: number = 20,
-  sortBy: "submittedDate" | "relevance" = "relevance"
+  sortBy: "submittedDate" | "relevance" = "relevance",
+  start: number = 0,
+  options: ArxivRequestOptions = {}
 ): Promise<{ papers: ArxivPaper[]; total: number }> {
-  let searchQuery = `all:${query.replace(/\s+/g, "+")}`;
-
-  if (categories && categories.length > 0) {
-    const categoryQuery = categories.map((cat) => `cat:${cat}`).join("+OR+");
-    searchQuery = `(${searchQuery})+AND+(${categoryQuery})`;
-  }
+  const searchQuery = buildArxivQuery(filters);
 
   const params = new URLSearchParams({
     search_query: searchQuery,
-    start: "0",
+    start: start.toString(),
     max_results: maxResults.toString(),
     sortBy: sortBy,
     sortOrder: "descending",
   });
 
-  const response = await fetch(`${ARXIV_API_BASE}?${params}`);
-  if (!response.ok) {
-    throw new Error(`arXiv API error: ${response.status}`);
-  }
-
-  const xml = await response.text();
-  const result = (await parseStringPromise(xml)) as ArxivResponse;
-
-  const entries = result.feed.entry || [];
-  const total = parseInt(result.feed["opensearch:totalResults"]?.[0] || "0");
-
-  return {
-    papers: entries.map(parseEntry),
-    total,
-  };
+  return getArxivClient().query(params, options);
 }
 
 export async function fetchPaperById(
@@ -126,18 +111,6 @@ export async function fetchPaperById(
     id_list: arxivId,
   });
 
-  const response = await fetch(`${ARXIV_API_BASE}?${params}`);
-  if (!response.ok) {
-    throw new Error(`arXiv API error: ${response.status}`);
-  }
-
-  const xml = await response.text();
-  const result = (await parseStringPromise(xml)) as ArxivResponse;
-
-  const entries = result.feed.entry || [];
-  if (entries.length === 0) {
-    return null;
-  }
-
-  return parseEntry(entries[0]);
+  const { papers } = await getArxivClient().query(params);
+  return papers[0] ?? null;
 }
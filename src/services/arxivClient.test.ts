@@ -0,0 +1,190 @@
+import { readFileSync } from "fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  ArxivQueryError,
+  ArxivRateLimitError,
+  ArxivUnavailableError,
+  createArxivClient,
+} from "./arxivClient";
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./__fixtures__/arxiv/${name}`, import.meta.url), "utf-8");
+}
+
+function respond(status: number, body = "", headers: Record<string, string> = {}): Response {
+  return new Response(body, { status, headers });
+}
+
+const params = new URLSearchParams({ search_query: "cat:cs.CL", max_results: "2" });
+
+describe("arXiv client", () => {
+  const fetchStub = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fetchStub.mockReset();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("parses a recorded feed", async () => {
+    fetchStub.mockResolvedValue(respond(200, fixture("search-results.xml")));
+    const client = createArxivClient({ fetch: fetchStub, requestIntervalMs: 0 });
+
+    const { papers, total } = await client.query(params);
+
+    expect(fetchStub).toHaveBeenCalledWith(
+      `http://export.arxiv.org/api/query?${params}`,
+      expect.anything()
+    );
+    expect(total).toBe(4817);
+    expect(papers.map((p) => p.arxivId)).toEqual(["2402.18001", "2403.00042"]);
+    expect(papers[0]).toMatchObject({
+      title: "Sparse Attention for Long Document Summarization",
+      authors: ["Jane Doe", "Wei Zhang"],
+      affiliations: [["MIT"], []],
+      version: 2,
+      comment: "12 pages, 5 figures",
+      primaryCategory: "cs.CL",
+      pdfUrl: "http://arxiv.org/pdf/2402.18001v2",
+    });
+    expect(papers[1]).toMatchObject({ doi: "10.1145/3597503.3639000", journalRef: "ICSE 2024" });
+  });
+
+  it("reports an error entry as a rejected query without retrying", async () => {
+    fetchStub.mockResolvedValue(respond(200, fixture("query-error.xml")));
+    const client = createArxivClient({ fetch: fetchStub, requestIntervalMs: 0 });
+
+    const error = await client.query(params).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ArxivQueryError);
+    expect(error.message).toBe("arXiv rejected the query: incorrect id format for 1234.notanid");
+    expect(error.status).toBe(400);
+    expect(fetchStub).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports a 429 with its Retry-After", async () => {
+    fetchStub.mockResolvedValue(respond(429, "", { "Retry-After": "120" }));
+    const client = createArxivClient({ fetch: fetchStub, requestIntervalMs: 0, maxAttempts: 1 });
+
+    const error = await client.query(params).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ArxivRateLimitError);
+    expect(error.retryAfterSeconds).toBe(120);
+    expect(error.status).toBe(429);
+  });
+
+  it("waits out a Retry-After in the background", async () => {
+    vi.useFakeTimers();
+    fetchStub
+      .mockResolvedValueOnce(respond(503, "", { "Retry-After": "30" }))
+      .mockResolvedValueOnce(respond(200, fixture("search-results.xml")));
+    const client = createArxivClient({ fetch: fetchStub, requestIntervalMs: 0 });
+
+    const feed = client.query(params);
+    await vi.advanceTimersByTimeAsync(29_999);
+    expect(fetchStub).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(feed).resolves.toMatchObject({ total: 4817 });
+    expect(fetchStub).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up on interactive requests rather than wait past their budget", async () => {
+    fetchStub.mockResolvedValue(respond(429, "", { "Retry-After": "30" }));
+    const client = createArxivClient({
+      fetch: fetchStub,
+      requestIntervalMs: 0,
+      interactiveMaxWaitMs: 20_000,
+    });
+
+    await expect(client.query(params, { interactive: true })).rejects.toBeInstanceOf(
+      ArxivRateLimitError
+    );
+    expect(fetchStub).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries a 503 with exponential backoff, then reports arXiv unavailable", async () => {
+    vi.useFakeTimers();
+    fetchStub.mockImplementation(async () => respond(503));
+    const client = createArxivClient({ fetch: fetchStub, requestIntervalMs: 0, maxAttempts: 3 });
+
+    const feed = client.query(params).catch((e) => e);
+    await vi.advanceTimersByTimeAsync(2_999);
+    expect(fetchStub).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchStub).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(5_999);
+    expect(fetchStub).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    const error = await feed;
+    expect(fetchStub).toHaveBeenCalledTimes(3);
+    expect(error).toBeInstanceOf(ArxivUnavailableError);
+    expect(error).toMatchObject({ upstreamStatus: 503, status: 503 });
+  });
+
+  it("does not retry other client errors", async () => {
+    fetchStub.mockResolvedValue(respond(404));
+    const client = createArxivClient({ fetch: fetchStub, requestIntervalMs: 0 });
+
+    await expect(client.request("http://export.arxiv.org/missing")).rejects.toMatchObject({
+      upstreamStatus: 404,
+      retryable: false,
+    });
+    expect(fetchStub).toHaveBeenCalledTimes(1);
+  });
+
+  it("times out requests arXiv doesn't answer", async () => {
+    // Hangs until the client aborts the request
+    fetchStub.mockImplementation(
+      (_url, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+        })
+    );
+    const client = createArxivClient({
+      fetch: fetchStub,
+      requestIntervalMs: 0,
+      timeoutMs: 20,
+      maxAttempts: 1,
+    });
+
+    const error = await client.query(params).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ArxivUnavailableError);
+    expect(error.message).toMatch(/^arXiv did not respond within/);
+  });
+
+  it("answers repeated queries from the cache until the TTL passes", async () => {
+    vi.useFakeTimers();
+    fetchStub.mockImplementation(async () => respond(200, fixture("search-results.xml")));
+    const client = createArxivClient({
+      fetch: fetchStub,
+      requestIntervalMs: 0,
+      cacheTtlMs: 60_000,
+    });
+
+    const first = await client.query(params);
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(await client.query(params)).toBe(first);
+    expect(fetchStub).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    await client.query(params);
+    expect(fetchStub).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not cache failures", async () => {
+    fetchStub
+      .mockResolvedValueOnce(respond(200, fixture("query-error.xml")))
+      .mockResolvedValueOnce(respond(200, fixture("search-results.xml")));
+    const client = createArxivClient({ fetch: fetchStub, requestIntervalMs: 0 });
+
+    await expect(client.query(params)).rejects.toBeInstanceOf(ArxivQueryError);
+    await expect(client.query(params)).resolves.toMatchObject({ total: 4817 });
+  });
+});
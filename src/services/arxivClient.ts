@@ -0,0 +1,376 @@
+import { parseStringPromise } from "xml2js";
+import { splitArxivId } from "@/lib/versions";
+import { ArxivPaper } from "@/types";
+
+/**
+ * Shared transport for arXiv's APIs. Every request goes through one queue that
+ * starts at most one request per interval (arXiv asks for one every three
+ * seconds), times out, and is retried with exponential backoff while arXiv is
+ * throttling or failing. Query API responses are parsed here and cached for a
+ * few minutes, so repeated searches and feed loads don't cost a request each.
+ *
+ * Retries stop once a request has been waited on for its budget: minutes for
+ * background jobs, seconds for interactive requests that a user is waiting on.
+ */
+const ARXIV_API_BASE = "http://export.arxiv.org/api/query";
+
+const DEFAULT_REQUEST_INTERVAL_MS = 3000;
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_CACHE_TTL_MS = 5 * 60_000;
+const DEFAULT_MAX_WAIT_MS = 15 * 60_000;
+const DEFAULT_INTERACTIVE_MAX_WAIT_MS = 20_000;
+
+// Backoff before the second attempt, doubled for each one after
+const RETRY_BASE_DELAY_MS = 3000;
+// Retry-After values beyond this are capped rather than waited out
+const MAX_RETRY_AFTER_SECONDS = 600;
+
+const MAX_CACHE_ENTRIES = 200;
+
+// --- Errors -----------------------------------------------------------------
+
+/** Base class for arXiv failures; `status` is what to report to our own API clients. */
+export class ArxivError extends Error {
+  readonly status: number = 502;
+  readonly retryable: boolean = false;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "ArxivError";
+  }
+}
+
+/** arXiv asked us to slow down (429, or 503 with Retry-After). */
+export class ArxivRateLimitError extends ArxivError {
+  readonly status = 429;
+  readonly retryable = true;
+
+  constructor(readonly retryAfterSeconds: number | null) {
+    super("arXiv is rate limiting requests");
+    this.name = "ArxivRateLimitError";
+  }
+}
+
+/** arXiv rejected the query itself, e.g. a malformed search or ID. Not retried. */
+export class ArxivQueryError extends ArxivError {
+  readonly status = 400;
+
+  constructor(message: string) {
+    super(`arXiv rejected the query: ${message}`);
+    this.name = "ArxivQueryError";
+  }
+}
+
+/** arXiv couldn't be reached, timed out, failed or sent something unreadable. */
+export class ArxivUnavailableError extends ArxivError {
+  readonly status = 503;
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    readonly upstreamStatus: number | null = null,
+    options?: { cause?: unknown; retryable?: boolean }
+  ) {
+    super(message, options);
+    this.name = "ArxivUnavailableError";
+    this.retryable = options?.retryable ?? true;
+  }
+}
+
+// --- Atom feed parsing ------------------------------------------------------
+
+// Elements in the arxiv: namespace carry an xmlns attribute, so xml2js
+// yields { _, $ } for them instead of a plain string
+type ArxivText = Array<string | { _?: string }>;
+
+interface ArxivEntry {
+  id?: string[];
+  title?: string[];
+  summary?: string[];
+  author?: Array<{ name: string[]; "arxiv:affiliation"?: ArxivText }>;
+  published?: string[];
+  updated?: string[];
+  "arxiv:comment"?: ArxivText;
+  "arxiv:journal_ref"?: ArxivText;
+  "arxiv:doi"?: ArxivText;
+  "arxiv:primary_category"?: Array<{ $: { term: string } }>;
+  category?: Array<{ $: { term: string } }>;
+  link?: Array<{ $: { href: string; title?: string } }>;
+}
+
+interface ArxivResponse {
+  feed?: {
+    entry?: ArxivEntry[];
+    "opensearch:totalResults"?: ArxivText;
+  };
+}
+
+export interface ArxivFeed {
+  papers: ArxivPaper[];
+  total: number;
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function arxivText(value: ArxivText | undefined): string | undefined {
+  const node = value?.[0];
+  const text = typeof node === "string" ? node : node?._;
+  return text ? cleanText(text) || undefined : undefined;
+}
+
+function extractArxivId(url: string): string {
+  const match = url.match(/abs\/(.+)$/);
+  return match ? match[1] : url;
+}
+
+function parseEntry(entry: ArxivEntry): ArxivPaper {
+  const { baseId: arxivId, version } = splitArxivId(extractArxivId(entry.id?.[0] ?? ""));
+  const authors = entry.author ?? [];
+  const affiliations = authors.map((a) =>
+    (a["arxiv:affiliation"] ?? []).flatMap((affiliation) => arxivText([affiliation]) ?? [])
+  );
+
+  const pdfLink = entry.link?.find((l) => l.$.title === "pdf");
+  const pdfUrl = pdfLink ? pdfLink.$.href : `https://arxiv.org/pdf/${arxivId}`;
+
+  return {
+    arxivId,
+    title: cleanText(entry.title?.[0] ?? ""),
+    authors: authors.map((a) => a.name[0]),
+    abstract: cleanText(entry.summary?.[0] ?? ""),
+    categories: (entry.category ?? []).map((c) => c.$.term),
+    publishedDate: new Date(entry.published?.[0] ?? ""),
+    pdfUrl,
+    version: version ?? undefined,
+    updatedDate: entry.updated ? new Date(entry.updated[0]) : undefined,
+    comment: arxivText(entry["arxiv:comment"]),
+    primaryCategory: entry["arxiv:primary_category"]?.[0]?.$.term,
+    journalRef: arxivText(entry["arxiv:journal_ref"]),
+    doi: arxivText(entry["arxiv:doi"]),
+    affiliations: affiliations.some((a) => a.length > 0) ? affiliations : undefined,
+  };
+}
+
+/**
+ * Parse a query API response. arXiv reports bad queries as a feed with a
+ * single entry whose ID points into /api/errors, which becomes an
+ * ArxivQueryError. Exported for replaying recorded responses.
+ */
+export async function parseArxivFeed(xml: string): Promise<ArxivFeed> {
+  let result: ArxivResponse;
+  try {
+    result = (await parseStringPromise(xml)) as ArxivResponse;
+  } catch (error) {
+    throw new ArxivUnavailableError("arXiv returned a malformed response", null, {
+      cause: error,
+      retryable: false,
+    });
+  }
+  if (!result?.feed) {
+    throw new ArxivUnavailableError("arXiv returned a response without a feed", null, {
+      retryable: false,
+    });
+  }
+
+  const entries = result.feed.entry ?? [];
+  const errorEntry = entries.find((e) => e.id?.[0]?.includes("/api/errors"));
+  if (errorEntry) {
+    throw new ArxivQueryError(cleanText(errorEntry.summary?.[0] ?? "unknown error"));
+  }
+
+  // Entries without an ID are placeholders arXiv sometimes pads pages with
+  const papers = entries.filter((e) => e.id?.[0]).map(parseEntry);
+  const total = parseInt(arxivText(result.feed["opensearch:totalResults"]) || "");
+  return { papers, total: Number.isFinite(total) ? total : papers.length };
+}
+
+// --- Client -----------------------------------------------------------------
+
+export interface ArxivClientOptions {
+  fetch?: typeof fetch; // Swap in a stub to replay recorded responses
+  requestIntervalMs?: number;
+  timeoutMs?: number;
+  maxAttempts?: number;
+  cacheTtlMs?: number; // 0 turns caching off
+  maxWaitMs?: number; // Total time a request may take, including queueing and retries
+  interactiveMaxWaitMs?: number; // The same for interactive requests
+}
+
+export interface ArxivRequestOptions {
+  /** Someone is waiting on the response, so fail within seconds rather than minutes. */
+  interactive?: boolean;
+}
+
+export interface ArxivClient {
+  /** GET a URL on one of arXiv's services, queued and retried. Returns the body. */
+  request(url: string, options?: ArxivRequestOptions): Promise<string>;
+  /** Like `request`, for binary downloads such as PDFs. */
+  requestBytes(url: string, options?: ArxivRequestOptions): Promise<Uint8Array>;
+  /** Run a query API request with the given parameters and parse the feed. */
+  query(params: URLSearchParams, options?: ArxivRequestOptions): Promise<ArxivFeed>;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseRetryAfter(response: Response): number | null {
+  const seconds = parseInt(response.headers.get("Retry-After") || "");
+  return seconds > 0 ? Math.min(seconds, MAX_RETRY_AFTER_SECONDS) : null;
+}
+
+function classifyResponse(response: Response): ArxivError {
+  const retryAfter = parseRetryAfter(response);
+  if (response.status === 429 || (response.status === 503 && retryAfter)) {
+    return new ArxivRateLimitError(retryAfter);
+  }
+  if (response.status === 400) {
+    return new ArxivQueryError(`HTTP ${response.status}`);
+  }
+  return new ArxivUnavailableError(`arXiv error: ${response.status}`, response.status, {
+    retryable: response.status >= 500,
+  });
+}
+
+export function createArxivClient(options: ArxivClientOptions = {}): ArxivClient {
+  const fetchImpl = options.fetch ?? fetch;
+  const requestIntervalMs = options.requestIntervalMs ?? DEFAULT_REQUEST_INTERVAL_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+  const maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+  const interactiveMaxWaitMs = options.interactiveMaxWaitMs ?? DEFAULT_INTERACTIVE_MAX_WAIT_MS;
+
+  let queue: Promise<void> = Promise.resolve();
+  let nextSlotAt = 0;
+  // Holds in-flight queries too, so identical concurrent queries share a request
+  const cache = new Map<string, { expiresAt: number; feed: Promise<ArxivFeed> }>();
+
+  // Resolves when this request may start; slots are handed out in call order
+  function waitForSlot(): Promise<void> {
+    const slot = queue.then(async () => {
+      const wait = nextSlotAt - Date.now();
+      if (wait > 0) {
+        await sleep(wait);
+      }
+      nextSlotAt = Date.now() + requestIntervalMs;
+    });
+    queue = slot;
+    return slot;
+  }
+
+  async function attempt<T>(
+    url: string,
+    read: (response: Response) => Promise<T>,
+    deadline: number
+  ): Promise<T> {
+    await waitForSlot();
+    // The last attempt only gets what is left of the budget
+    const attemptTimeoutMs = Math.min(timeoutMs, deadline - Date.now());
+    if (attemptTimeoutMs <= 0) {
+      throw new ArxivUnavailableError("Timed out waiting for a turn to query arXiv", null, {
+        retryable: false,
+      });
+    }
+    let response: Response;
+    try {
+      response = await fetchImpl(url, { signal: AbortSignal.timeout(attemptTimeoutMs) });
+      if (response.ok) {
+        return await read(response);
+      }
+    } catch (error) {
+      const timedOut = error instanceof DOMException && error.name === "TimeoutError";
+      throw new ArxivUnavailableError(
+        timedOut
+          ? `arXiv did not respond within ${Math.round(attemptTimeoutMs / 1000)}s`
+          : `Could not reach arXiv: ${error instanceof Error ? error.message : error}`,
+        null,
+        { cause: error }
+      );
+    }
+    throw classifyResponse(response);
+  }
+
+  async function withRetries<T>(
+    url: string,
+    read: (response: Response) => Promise<T>,
+    requestOptions: ArxivRequestOptions = {}
+  ): Promise<T> {
+    const deadline =
+      Date.now() + (requestOptions.interactive ? interactiveMaxWaitMs : maxWaitMs);
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      try {
+        return await attempt(url, read, deadline);
+      } catch (error) {
+        if (!(error instanceof ArxivError) || !error.retryable || attemptNumber >= maxAttempts) {
+          throw error;
+        }
+        const delayMs =
+          error instanceof ArxivRateLimitError && error.retryAfterSeconds
+            ? error.retryAfterSeconds * 1000
+            : RETRY_BASE_DELAY_MS * 2 ** (attemptNumber - 1);
+        // Report the failure now rather than retry past the budget
+        if (Date.now() + delayMs >= deadline) {
+          throw error;
+        }
+        console.warn(`[arXiv] ${error.message}; retrying in ${Math.round(delayMs / 1000)}s`);
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  function request(url: string, requestOptions?: ArxivRequestOptions): Promise<string> {
+    return withRetries(url, (response) => response.text(), requestOptions);
+  }
+
+  function requestBytes(url: string, requestOptions?: ArxivRequestOptions): Promise<Uint8Array> {
+    return withRetries(
+      url,
+      async (response) => new Uint8Array(await response.arrayBuffer()),
+      requestOptions
+    );
+  }
+
+  function query(params: URLSearchParams, requestOptions?: ArxivRequestOptions): Promise<ArxivFeed> {
+    const url = `${ARXIV_API_BASE}?${params}`;
+    const now = Date.now();
+
+    const cached = cache.get(url);
+    if (cached && cached.expiresAt > now) {
+      return cached.feed;
+    }
+
+    const feed = request(url, requestOptions).then(parseArxivFeed);
+    if (cacheTtlMs > 0) {
+      cache.delete(url);
+      cache.set(url, { expiresAt: now + cacheTtlMs, feed });
+      feed.catch(() => {
+        if (cache.get(url)?.feed === feed) cache.delete(url);
+      });
+
+      for (const [key, entry] of cache) {
+        if (cache.size <= MAX_CACHE_ENTRIES && entry.expiresAt > now) break;
+        cache.delete(key);
+      }
+    }
+    return feed;
+  }
+
+  return { request, requestBytes, query };
+}
+
+// Kept on globalThis: instrumentation and route handlers are bundled
+// separately, and they all have to share one request queue
+const globalForArxiv = globalThis as unknown as { arxivClient: ArxivClient | undefined };
+
+export function getArxivClient(): ArxivClient {
+  return (globalForArxiv.arxivClient ??= createArxivClient());
+}
+
+/** Replace the shared client, e.g. with one that replays recorded responses. */
+export function setArxivClient(client: ArxivClient): void {
+  globalForArxiv.arxivClient = client;
+}
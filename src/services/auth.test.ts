@@ -0,0 +1,50 @@
+import { Prisma } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", async () => {
+  const { createFakePrisma } = await import("@/test/fakePrisma");
+  return { prisma: createFakePrisma() };
+});
+
+import { prisma } from "@/lib/prisma";
+import { FakePrisma } from "@/test/fakePrisma";
+import { AccountConflictError, createLocalUser, upsertExternalUser } from "./auth";
+
+const db = prisma as unknown as FakePrisma;
+
+describe("creating accounts", () => {
+  beforeEach(() => {
+    db.user.rows.length = 0;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("hands the legacy owner's data to exactly one of two concurrent first accounts", async () => {
+    await db.user.create({
+      data: { id: "legacy-owner", email: "legacy-owner@invalid", provider: "legacy" },
+    });
+
+    const users = await Promise.all([
+      upsertExternalUser("proxy", "ann", "ann@example.com"),
+      upsertExternalUser("proxy", "bo", "bo@example.com"),
+    ]);
+
+    expect(users.filter((u) => u.id === "legacy-owner")).toHaveLength(1);
+    expect(db.user.rows.map((u) => u.email).sort()).toEqual(["ann@example.com", "bo@example.com"]);
+  });
+
+  it("reports an email registered concurrently as a conflict", async () => {
+    vi.spyOn(db.user, "create").mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError("Unique constraint failed on the fields: (`email`)", {
+        code: "P2002",
+        clientVersion: Prisma.prismaVersion.client,
+      })
+    );
+
+    await expect(createLocalUser("Ann@Example.com", "password1")).rejects.toEqual(
+      new AccountConflictError("ann@example.com")
+    );
+  });
+});
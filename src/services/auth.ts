@@ -0,0 +1,256 @@
+import { prisma } from "@/lib/prisma";
+import { getEnv } from "@/lib/env";
+import { Prisma, User as PrismaUser } from "@prisma/client";
+import { User } from "@/types";
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+const SCRYPT_KEY_LENGTH = 64;
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Placeholder owner of the data in databases upgraded from before accounts
+// existed (see prisma/upgrades/add-users.sql); the first account takes it over
+const LEGACY_OWNER_ID = "legacy-owner";
+const LEGACY_PROVIDER = "legacy";
+
+/** An email (e.g. of an external identity) already belongs to a different account. */
+export class AccountConflictError extends Error {
+  constructor(readonly email: string) {
+    super(`${email} is already used by another account`);
+    this.name = "AccountConflictError";
+  }
+}
+
+/**
+ * A way of signing in. The local provider checks email/password credentials;
+ * other providers (e.g. a trusted SSO proxy) resolve the user from the request.
+ * Providers return the signed-in user, or null to reject the attempt.
+ */
+export interface AuthProvider {
+  name: string;
+  authenticate(input: {
+    credentials: Record<string, unknown>;
+    headers: Headers;
+  }): Promise<User | null>;
+}
+
+function toUser(dbUser: PrismaUser): User {
+  return {
+    id: dbUser.id,
+    email: dbUser.email,
+    name: dbUser.name,
+    provider: dbUser.provider,
+  };
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltB64, hashB64] = stored.split("$");
+  if (scheme !== "scrypt" || !saltB64 || !hashB64) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashB64, "base64");
+  const actual = await scryptAsync(password, Buffer.from(saltB64, "base64"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+function hashSessionToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export async function getUserByEmail(email: string): Promise<User | null> {
+  const user = await prisma.user.findUnique({
+    where: { email: normalizeEmail(email) },
+  });
+  return user ? toUser(user) : null;
+}
+
+// Turn the unclaimed legacy owner, if there is one, into the new account;
+// otherwise create it. The claim is a single conditional update, so of two
+// concurrent first accounts only one gets the legacy data.
+async function createAccount(data: Prisma.UserCreateInput & { email: string }): Promise<PrismaUser> {
+  try {
+    const { count } = await prisma.user.updateMany({
+      where: { id: LEGACY_OWNER_ID, provider: LEGACY_PROVIDER },
+      data,
+    });
+    return count > 0
+      ? await prisma.user.findUniqueOrThrow({ where: { id: LEGACY_OWNER_ID } })
+      : await prisma.user.create({ data });
+  } catch (error) {
+    // Another request registered the email since it was checked
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new AccountConflictError(data.email);
+    }
+    throw error;
+  }
+}
+
+export async function createLocalUser(
+  email: string,
+  password: string,
+  name?: string | null
+): Promise<User> {
+  const data = {
+    email: normalizeEmail(email),
+    name: name || null,
+    passwordHash: await hashPassword(password),
+    provider: "local",
+  };
+  return toUser(await createAccount(data));
+}
+
+// Find or create the account for an identity vouched for by an external provider
+export async function upsertExternalUser(
+  provider: string,
+  providerId: string,
+  email: string,
+  name?: string | null
+): Promise<User> {
+  const normalized = normalizeEmail(email);
+  const [linked, emailOwner] = await Promise.all([
+    prisma.user.findUnique({ where: { provider_providerId: { provider, providerId } } }),
+    prisma.user.findUnique({ where: { email: normalized } }),
+  ]);
+  // Signing in through a provider never takes over an account made another way
+  if (emailOwner && emailOwner.id !== linked?.id) {
+    throw new AccountConflictError(normalized);
+  }
+
+  if (linked) {
+    const user = await prisma.user.update({
+      where: { id: linked.id },
+      data: { email: normalized, name: name || undefined },
+    });
+    return toUser(user);
+  }
+  return toUser(
+    await createAccount({ provider, providerId, email: normalized, name: name || null })
+  );
+}
+
+export async function createSession(
+  userId: string
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await prisma.session.create({
+    data: { tokenHash: hashSessionToken(token), userId, expiresAt },
+  });
+
+  return { token, expiresAt };
+}
+
+export async function getUserBySessionToken(token: string): Promise<User | null> {
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashSessionToken(token) },
+    include: { user: true },
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  if (session.expiresAt < new Date()) {
+    await prisma.session.deleteMany({ where: { id: session.id } });
+    return null;
+  }
+
+  return toUser(session.user);
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  await prisma.session.deleteMany({
+    where: { tokenHash: hashSessionToken(token) },
+  });
+}
+
+const localProvider: AuthProvider = {
+  name: "local",
+  async authenticate({ credentials }) {
+    const { email, password } = credentials;
+    if (typeof email !== "string" || typeof password !== "string") {
+      return null;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: normalizeEmail(email) },
+    });
+    if (!user?.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+      return null;
+    }
+    return toUser(user);
+  },
+};
+
+// Trusts an identity header set by an authenticating reverse proxy
+// (oauth2-proxy, Cloudflare Access, ...). Only enable this behind such a proxy.
+const proxyProvider: AuthProvider = {
+  name: "proxy",
+  async authenticate({ headers }) {
+    const emailHeader = getEnv("AUTH_PROXY_EMAIL_HEADER") || "x-forwarded-email";
+    const userHeader = getEnv("AUTH_PROXY_USER_HEADER") || "x-forwarded-user";
+
+    const email = headers.get(emailHeader);
+    if (!email) {
+      return null;
+    }
+    return upsertExternalUser("proxy", headers.get(userHeader) || email, email);
+  },
+};
+
+const providers = new Map<string, AuthProvider>([
+  [localProvider.name, localProvider],
+  [proxyProvider.name, proxyProvider],
+]);
+
+export function registerAuthProvider(provider: AuthProvider): void {
+  providers.set(provider.name, provider);
+}
+
+// Providers enabled through AUTH_PROVIDERS (comma separated, default "local")
+export function getEnabledAuthProviders(): string[] {
+  return (getEnv("AUTH_PROVIDERS") || "local")
+    .split(",")
+    .map((p) => p.trim())
+    .filter((p) => providers.has(p));
+}
+
+export function getAuthProvider(name: string): AuthProvider | null {
+  return getEnabledAuthProviders().includes(name) ? providers.get(name) ?? null : null;
+}
+
+// Operators, who may start jobs that load the shared arXiv queue, are listed
+// by email in AUTH_ADMIN_EMAILS (comma separated)
+export function isAdmin(user: User): boolean {
+  return (getEnv("AUTH_ADMIN_EMAILS") || "")
+    .split(",")
+    .map(normalizeEmail)
+    .includes(normalizeEmail(user.email));
+}
+
+export function isRegistrationEnabled(): boolean {
+  return (
+    getEnabledAuthProviders().includes("local") &&
+    getEnv("AUTH_ALLOW_REGISTRATION") !== "false"
+  );
+}
@@ -0,0 +1,153 @@
+import { prisma } from "@/lib/prisma";
+import { normalizeAuthorName } from "@/lib/authors";
+import { Author as PrismaAuthor } from "@prisma/client";
+import { Author, Paper } from "@/types";
+import { searchArxiv } from "@/services/arxiv";
+import {
+  getPapersWithoutAuthors,
+  syncPaperAuthors,
+  toPaper,
+  upsertPapers,
+} from "@/services/papers";
+
+// Stored papers from before authors were normalized, linked per batch at startup
+const LINK_BATCH_SIZE = 500;
+
+// Newest papers fetched from arXiv per author backfill
+const ARXIV_BACKFILL_SIZE = 50;
+
+type AuthorWithCount = PrismaAuthor & { _count: { papers: number } };
+
+function toAuthor(dbAuthor: AuthorWithCount, isFollowed: boolean): Author {
+  return {
+    id: dbAuthor.id,
+    name: dbAuthor.name,
+    paperCount: dbAuthor._count.papers,
+    isFollowed,
+  };
+}
+
+const withPaperCount = { _count: { select: { papers: true } } } as const;
+
+async function isFollowing(userId: string, authorId: string): Promise<boolean> {
+  const follow = await prisma.authorFollow.findUnique({
+    where: { userId_authorId: { userId, authorId } },
+  });
+  return !!follow;
+}
+
+export async function getAuthor(userId: string, id: string): Promise<Author | null> {
+  const author = await prisma.author.findUnique({
+    where: { id },
+    include: withPaperCount,
+  });
+  return author ? toAuthor(author, await isFollowing(userId, id)) : null;
+}
+
+/**
+ * Link every paper stored before authors were normalized to its authors.
+ * Run once at startup; papers stored since are linked as they are upserted.
+ * Returns how many papers were looked at.
+ */
+export async function linkUnlinkedPaperAuthors(): Promise<number> {
+  let total = 0;
+  let afterId: string | undefined;
+  for (;;) {
+    // Papers whose author list has no usable name stay unlinked, so page by
+    // ID instead of waiting for the unlinked set to empty
+    const papers = await getPapersWithoutAuthors(LINK_BATCH_SIZE, afterId);
+    if (papers.length === 0) {
+      return total;
+    }
+    await syncPaperAuthors(papers);
+    total += papers.length;
+    afterId = papers[papers.length - 1].id;
+  }
+}
+
+/** Find an author by any spelling of their name that normalizes the same way. */
+export async function findAuthorByName(userId: string, name: string): Promise<Author | null> {
+  const author = await prisma.author.findUnique({
+    where: { normalizedName: normalizeAuthorName(name) },
+    include: withPaperCount,
+  });
+  return author ? toAuthor(author, await isFollowing(userId, author.id)) : null;
+}
+
+export async function getAuthorPapers(
+  authorId: string,
+  cursor?: string,
+  limit: number = 20
+): Promise<{ papers: Paper[]; nextCursor?: string }> {
+  const links = await prisma.paperAuthor.findMany({
+    where: { authorId },
+    include: { paper: true },
+    orderBy: [{ paper: { publishedDate: "desc" } }, { id: "asc" }],
+    take: limit + 1,
+    cursor: cursor ? { id: cursor } : undefined,
+    skip: cursor ? 1 : 0,
+  });
+
+  const hasMore = links.length > limit;
+  const page = hasMore ? links.slice(0, limit) : links;
+  const nextCursor = hasMore ? page[page.length - 1].id : undefined;
+
+  return {
+    papers: page.map((l) => toPaper(l.paper)),
+    nextCursor,
+  };
+}
+
+/**
+ * Fetch the author's newest papers from arXiv with an `au:` search and store
+ * them. arXiv matches names loosely, so only papers that list this author
+ * (by normalized name) end up on their page. Returns how many were new.
+ */
+export async function backfillAuthorPapers(authorId: string): Promise<number> {
+  const author = await prisma.author.findUniqueOrThrow({ where: { id: authorId } });
+  const before = await prisma.paperAuthor.count({ where: { authorId } });
+
+  const { papers } = await searchArxiv(
+    { terms: [{ field: "au", value: author.name, operator: "AND" }], categories: [] },
+    ARXIV_BACKFILL_SIZE,
+    "submittedDate",
+    0,
+    { interactive: true }
+  );
+  await upsertPapers(papers);
+
+  const after = await prisma.paperAuthor.count({ where: { authorId } });
+  return after - before;
+}
+
+export async function followAuthor(userId: string, authorId: string): Promise<void> {
+  await prisma.authorFollow.upsert({
+    where: { userId_authorId: { userId, authorId } },
+    update: {},
+    create: { userId, authorId },
+  });
+}
+
+export async function unfollowAuthor(userId: string, authorId: string): Promise<void> {
+  await prisma.authorFollow.deleteMany({
+    where: { userId, authorId },
+  });
+}
+
+export async function listFollowedAuthors(userId: string): Promise<Author[]> {
+  const follows = await prisma.authorFollow.findMany({
+    where: { userId },
+    include: { author: { include: withPaperCount } },
+    orderBy: { author: { name: "asc" } },
+  });
+  return follows.map((f) => toAuthor(f.author, true));
+}
+
+// Normalized names of the authors a user follows, for feed ranking
+export async function getFollowedAuthorNames(userId: string): Promise<string[]> {
+  const follows = await prisma.authorFollow.findMany({
+    where: { userId },
+    select: { author: { select: { normalizedName: true } } },
+  });
+  return follows.map((f) => f.author.normalizedName);
+}
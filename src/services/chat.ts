@@ -0,0 +1,80 @@
+import { prisma } from "@/lib/prisma";
+import {
+  ChatMessage as PrismaChatMessage,
+  ChatThread as PrismaChatThread,
+} from "@prisma/client";
+import { ChatMessage, ChatRole, ChatThread } from "@/types";
+
+// Longest thread title, taken from the first question
+const MAX_TITLE_LENGTH = 80;
+
+function toChatMessage(dbMessage: PrismaChatMessage): ChatMessage {
+  return {
+    id: dbMessage.id,
+    role: dbMessage.role as ChatRole,
+    content: dbMessage.content,
+    createdAt: dbMessage.createdAt,
+  };
+}
+
+function toChatThread(dbThread: PrismaChatThread & { messages: PrismaChatMessage[] }): ChatThread {
+  return {
+    id: dbThread.id,
+    paperId: dbThread.paperId,
+    title: dbThread.title,
+    messages: dbThread.messages.map(toChatMessage),
+    createdAt: dbThread.createdAt,
+    updatedAt: dbThread.updatedAt,
+  };
+}
+
+const withMessages = { messages: { orderBy: { createdAt: "asc" as const } } };
+
+/** A user's threads about a paper, most recently active first. */
+export async function getChatThreads(userId: string, paperId: string): Promise<ChatThread[]> {
+  const threads = await prisma.chatThread.findMany({
+    where: { userId, paperId },
+    include: withMessages,
+    orderBy: { updatedAt: "desc" },
+  });
+  return threads.map(toChatThread);
+}
+
+export async function getChatThread(userId: string, id: string): Promise<ChatThread | null> {
+  const thread = await prisma.chatThread.findFirst({
+    where: { id, userId },
+    include: withMessages,
+  });
+  return thread ? toChatThread(thread) : null;
+}
+
+export async function createChatThread(
+  userId: string,
+  paperId: string,
+  question: string
+): Promise<ChatThread> {
+  const title =
+    question.length > MAX_TITLE_LENGTH ? `${question.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : question;
+  const thread = await prisma.chatThread.create({
+    data: { userId, paperId, title },
+    include: withMessages,
+  });
+  return toChatThread(thread);
+}
+
+export async function addChatMessage(
+  threadId: string,
+  role: ChatRole,
+  content: string
+): Promise<ChatMessage> {
+  const [message] = await prisma.$transaction([
+    prisma.chatMessage.create({ data: { threadId, role, content } }),
+    // Bump the thread so it sorts as recently active
+    prisma.chatThread.update({ where: { id: threadId }, data: { updatedAt: new Date() } }),
+  ]);
+  return toChatMessage(message);
+}
+
+export async function deleteChatThread(userId: string, id: string): Promise<void> {
+  await prisma.chatThread.deleteMany({ where: { id, userId } });
+}
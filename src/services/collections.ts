@@ -0,0 +1,155 @@
+import { prisma } from "@/lib/prisma";
+import { Collection as PrismaCollection } from "@prisma/client";
+import { Collection, CollectionMembership, CollectionPaperEntry, Paper } from "@/types";
+import { toPaper } from "@/services/papers";
+
+type CollectionWithCount = PrismaCollection & { _count: { papers: number } };
+
+function toCollection(dbCollection: CollectionWithCount): Collection {
+  return {
+    id: dbCollection.id,
+    name: dbCollection.name,
+    description: dbCollection.description,
+    paperCount: dbCollection._count.papers,
+    createdAt: dbCollection.createdAt,
+    updatedAt: dbCollection.updatedAt,
+  };
+}
+
+const withPaperCount = { _count: { select: { papers: true } } } as const;
+
+export async function listCollections(userId: string): Promise<Collection[]> {
+  const collections = await prisma.collection.findMany({
+    where: { userId },
+    include: withPaperCount,
+    orderBy: { updatedAt: "desc" },
+  });
+  return collections.map(toCollection);
+}
+
+// Only returns the collection if it belongs to the given user
+export async function getCollection(
+  userId: string,
+  id: string
+): Promise<Collection | null> {
+  const collection = await prisma.collection.findFirst({
+    where: { id, userId },
+    include: withPaperCount,
+  });
+  return collection ? toCollection(collection) : null;
+}
+
+export async function createCollection(
+  userId: string,
+  name: string,
+  description?: string | null
+): Promise<Collection> {
+  const collection = await prisma.collection.create({
+    data: { userId, name, description: description || null },
+    include: withPaperCount,
+  });
+  return toCollection(collection);
+}
+
+export async function updateCollection(
+  id: string,
+  data: { name?: string; description?: string | null }
+): Promise<Collection> {
+  const collection = await prisma.collection.update({
+    where: { id },
+    data,
+    include: withPaperCount,
+  });
+  return toCollection(collection);
+}
+
+export async function deleteCollection(userId: string, id: string): Promise<void> {
+  await prisma.collection.deleteMany({
+    where: { id, userId },
+  });
+}
+
+export async function getCollectionPapers(
+  collectionId: string,
+  cursor?: string,
+  limit: number = 20
+): Promise<{ papers: CollectionPaperEntry[]; nextCursor?: string }> {
+  const entries = await prisma.collectionPaper.findMany({
+    where: { collectionId },
+    include: { paper: true },
+    orderBy: [{ createdAt: "desc" }, { id: "asc" }],
+    take: limit + 1,
+    cursor: cursor ? { id: cursor } : undefined,
+    skip: cursor ? 1 : 0,
+  });
+
+  const hasMore = entries.length > limit;
+  const page = hasMore ? entries.slice(0, limit) : entries;
+  const nextCursor = hasMore ? page[page.length - 1].id : undefined;
+
+  return {
+    papers: page.map((e) => ({
+      ...toPaper(e.paper),
+      note: e.note,
+      addedAt: e.createdAt,
+    })),
+    nextCursor,
+  };
+}
+
+export async function getAllCollectionPapers(collectionId: string): Promise<Paper[]> {
+  const entries = await prisma.collectionPaper.findMany({
+    where: { collectionId },
+    include: { paper: true },
+    orderBy: { createdAt: "desc" },
+  });
+  return entries.map((e) => toPaper(e.paper));
+}
+
+export async function getPaperMemberships(
+  userId: string,
+  paperId: string
+): Promise<CollectionMembership[]> {
+  const entries = await prisma.collectionPaper.findMany({
+    where: { paperId, collection: { userId } },
+    orderBy: { createdAt: "asc" },
+  });
+  return entries.map((e) => ({
+    collectionId: e.collectionId,
+    note: e.note,
+    addedAt: e.createdAt,
+  }));
+}
+
+export async function addPaperToCollection(
+  collectionId: string,
+  paperId: string,
+  note?: string | null
+): Promise<CollectionMembership> {
+  const entry = await prisma.collectionPaper.upsert({
+    where: { collectionId_paperId: { collectionId, paperId } },
+    update: note !== undefined ? { note: note || null } : {},
+    create: { collectionId, paperId, note: note || null },
+  });
+
+  // Bump the collection so recently used ones sort first in the picker
+  await prisma.collection.update({
+    where: { id: collectionId },
+    data: { updatedAt: new Date() },
+  });
+
+  return {
+    collectionId: entry.collectionId,
+    note: entry.note,
+    addedAt: entry.createdAt,
+  };
+}
+
+export async function removePaperFromCollection(
+  collectionId: string,
+  paperId: string
+): Promise<void> {
+  await prisma.collectionPaper.deleteMany({
+    where: { collectionId, paperId },
+  });
+}
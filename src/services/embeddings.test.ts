@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Paper } from "@/types";
+
+vi.mock("@/services/papers", () => ({
+  getPaperEmbedding: vi.fn(),
+  getPapersWithoutEmbedding: vi.fn(),
+  updatePaperEmbedding: vi.fn(),
+  findNearestPapers: vi.fn(),
+}));
+
+import {
+  findNearestPapers,
+  getPaperEmbedding,
+  getPapersWithoutEmbedding,
+  updatePaperEmbedding,
+} from "@/services/papers";
+import { getEmbeddingProvider, getSimilarPapers, localEmbedding } from "./embeddings";
+
+function paper(id: string, title: string, abstract = ""): Paper {
+  return { id, title, abstract } as Paper;
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+describe("localEmbedding", () => {
+  it("is deterministic and unit length", () => {
+    const vector = localEmbedding("Sparse attention for long documents");
+    expect(localEmbedding("Sparse attention for long documents")).toEqual(vector);
+    expect(dot(vector, vector)).toBeCloseTo(1);
+  });
+
+  it("ignores case, punctuation and stopwords", () => {
+    expect(localEmbedding("The Sparse-Attention of transformers")).toEqual(
+      localEmbedding("sparse attention transformers")
+    );
+  });
+
+  it("places overlapping texts closer than unrelated ones", () => {
+    const query = localEmbedding("Sparse attention transformers for long document summarization");
+    const related = localEmbedding("Efficient sparse attention for long document transformers");
+    const unrelated = localEmbedding("Bayesian optimization of chemical reaction yields");
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated));
+    expect(dot(query, related)).toBeGreaterThan(0.3);
+  });
+
+  it("returns a zero vector for text without words", () => {
+    expect(localEmbedding("the of and", 8)).toEqual(new Array(8).fill(0));
+  });
+});
+
+describe("getSimilarPapers", () => {
+  const query = paper("p1", "Sparse attention", "For long documents");
+
+  beforeEach(() => {
+    vi.mocked(getPaperEmbedding).mockResolvedValue(null);
+    vi.mocked(getPapersWithoutEmbedding).mockResolvedValue([]);
+    vi.mocked(findNearestPapers).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.clearAllMocks();
+  });
+
+  it("stores the query paper's vector and backfills under the same model", async () => {
+    const { model } = getEmbeddingProvider();
+    const backfill = [paper("p2", "Dense retrieval")];
+    vi.mocked(getPapersWithoutEmbedding).mockResolvedValue(backfill);
+
+    const result = await getSimilarPapers(query, 5);
+
+    expect(result.model).toBe(model);
+    expect(updatePaperEmbedding).toHaveBeenCalledWith("p1", model, expect.any(Array));
+    expect(getPapersWithoutEmbedding).toHaveBeenCalledWith(model, expect.any(Number));
+    expect(updatePaperEmbedding).toHaveBeenCalledWith("p2", model, expect.any(Array));
+    expect(findNearestPapers).toHaveBeenCalledWith(expect.any(Array), model, 5, ["p1"]);
+  });
+
+  it("reuses a stored vector from the configured model", async () => {
+    const { model } = getEmbeddingProvider();
+    vi.mocked(getPaperEmbedding).mockResolvedValue({ model, vector: [1, 0] });
+
+    await getSimilarPapers(query);
+
+    expect(updatePaperEmbedding).not.toHaveBeenCalled();
+    expect(findNearestPapers).toHaveBeenCalledWith([1, 0], model, 10, ["p1"]);
+  });
+
+  it("neither stores nor backfills local vectors when the provider fails", async () => {
+    vi.stubEnv("EMBEDDING_PROVIDER", "openai");
+    vi.stubEnv("OPENAI_API_KEY", "");
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const result = await getSimilarPapers(query);
+
+    expect(result.model).toMatch(/^local-/);
+    expect(updatePaperEmbedding).not.toHaveBeenCalled();
+    expect(getPapersWithoutEmbedding).not.toHaveBeenCalled();
+    expect(findNearestPapers).toHaveBeenCalledWith(expect.any(Array), result.model, 10, ["p1"]);
+  });
+});
@@ -0,0 +1,206 @@
+import OpenAI from "openai";
+import { getEnv } from "@/lib/env";
+import {
+  getPaperEmbedding,
+  getPapersWithoutEmbedding,
+  updatePaperEmbedding,
+  findNearestPapers,
+} from "@/services/papers";
+import { Paper, SimilarPaper } from "@/types";
+
+/**
+ * Turns text into vectors. Providers are selected with EMBEDDING_PROVIDER
+ * ("local" by default); `model` is stored next to each vector so vectors from
+ * different models are never compared with each other.
+ */
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Papers without a vector that get embedded per similarity query
+const BACKFILL_BATCH_SIZE = 256;
+
+// --- Local provider ---------------------------------------------------------
+//
+// Feature hashing over word unigrams and bigrams. Not a semantic model, but
+// deterministic, dependency-free and offline, and lexical overlap between
+// titles and abstracts is already a decent similarity signal for papers.
+
+const LOCAL_DIMENSIONS = 512;
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be by can for from has have in into is it its of on or our " +
+    "that the their these this to was we were which with via using based new show " +
+    "paper propose proposed approach method methods results"
+  ).split(" ")
+);
+
+// FNV-1a, 32 bit
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t));
+}
+
+export function localEmbedding(text: string, dimensions: number = LOCAL_DIMENSIONS): number[] {
+  const tokens = tokenize(text);
+  const counts = new Map<string, number>();
+  const add = (feature: string, weight: number) =>
+    counts.set(feature, (counts.get(feature) || 0) + weight);
+
+  tokens.forEach((token, i) => {
+    add(token, 1);
+    if (i > 0) {
+      add(`${tokens[i - 1]} ${token}`, 0.5);
+    }
+  });
+
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const [feature, count] of counts) {
+    const hash = hashString(feature);
+    // The top bit picks the sign so unrelated collisions tend to cancel out
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % dimensions] += sign * (1 + Math.log(count));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+const localProvider: EmbeddingProvider = {
+  name: "local",
+  model: `local-hash-${LOCAL_DIMENSIONS}-v1`,
+  async embed(texts) {
+    return texts.map((text) => localEmbedding(text));
+  },
+};
+
+// --- OpenAI provider --------------------------------------------------------
+
+const openaiProvider: EmbeddingProvider = {
+  name: "openai",
+  get model() {
+    return getEnv("OPENAI_EMBEDDING_MODEL") || "text-embedding-3-small";
+  },
+  async embed(texts) {
+    const apiKey = getEnv("OPENAI_API_KEY");
+    if (!apiKey) {
+      throw new Error("OPENAI_API_KEY is not configured");
+    }
+
+    const client = new OpenAI({ apiKey });
+    const response = await client.embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map((d) => d.embedding);
+  },
+};
+
+const providers = new Map<string, EmbeddingProvider>([
+  [localProvider.name, localProvider],
+  [openaiProvider.name, openaiProvider],
+]);
+
+export function registerEmbeddingProvider(provider: EmbeddingProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const name = getEnv("EMBEDDING_PROVIDER")?.toLowerCase() || "local";
+  const provider = providers.get(name);
+  if (!provider) {
+    console.warn(`[Embeddings] Unknown provider "${name}", using local embeddings`);
+    return localProvider;
+  }
+  return provider;
+}
+
+// --- Paper embeddings -------------------------------------------------------
+
+function paperText(paper: Pick<Paper, "title" | "abstract">): string {
+  return `${paper.title}\n\n${paper.abstract}`;
+}
+
+// Embed papers with the configured provider, falling back to the local model
+// when it is unreachable (offline, missing key, rate limited). `fallback` is
+// set when the local model stood in.
+async function embedWithFallback(
+  papers: Paper[]
+): Promise<{ model: string; vectors: number[][]; fallback: boolean }> {
+  const provider = getEmbeddingProvider();
+  const texts = papers.map(paperText);
+
+  try {
+    return { model: provider.model, vectors: await provider.embed(texts), fallback: false };
+  } catch (error) {
+    if (provider === localProvider) {
+      throw error;
+    }
+    console.warn(`[Embeddings] ${provider.name} failed, using local embeddings:`, error);
+    return { model: localProvider.model, vectors: await localProvider.embed(texts), fallback: true };
+  }
+}
+
+/**
+ * Compute and store embeddings for the given papers. Stand-in local vectors
+ * are not stored: they would replace the configured model's vectors, and be
+ * embedded all over again once it is reachable.
+ */
+export async function embedPapers(papers: Paper[]): Promise<void> {
+  if (papers.length === 0) {
+    return;
+  }
+
+  const { model, vectors, fallback } = await embedWithFallback(papers);
+  if (fallback) {
+    return;
+  }
+  await Promise.all(
+    papers.map((paper, i) => updatePaperEmbedding(paper.id, model, vectors[i]))
+  );
+}
+
+/**
+ * Stored papers most similar to the given one, by cosine similarity of their
+ * title+abstract embeddings. Embeds the paper itself and a batch of not yet
+ * embedded papers first, so results improve as the library is backfilled.
+ */
+export async function getSimilarPapers(
+  paper: Paper,
+  limit: number = 10
+): Promise<{ papers: SimilarPaper[]; model: string }> {
+  let stored = await getPaperEmbedding(paper.id);
+  const { model } = getEmbeddingProvider();
+
+  if (!stored || stored.model !== model) {
+    const { model: usedModel, vectors, fallback } = await embedWithFallback([paper]);
+    if (fallback) {
+      // Compare against whatever local vectors exist, without storing or backfilling
+      const papers = await findNearestPapers(vectors[0], usedModel, limit, [paper.id]);
+      return { papers, model: usedModel };
+    }
+    await updatePaperEmbedding(paper.id, usedModel, vectors[0]);
+    stored = { model: usedModel, vector: vectors[0] };
+  }
+
+  await embedPapers(await getPapersWithoutEmbedding(stored.model, BACKFILL_BATCH_SIZE));
+
+  const papers = await findNearestPapers(stored.vector, stored.model, limit, [paper.id]);
+  return { papers, model: stored.model };
+}
@@ -0,0 +1,268 @@
+import { Paper, Note } from "@/types";
+import { getPrimaryCategory } from "@/lib/taxonomy";
+
+// Personal notes to include, keyed by paper ID
+export type ExportNotes = Map<string, Note[]>;
+
+export type ExportFormat = "bibtex" | "ris" | "csljson";
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { contentType: string; extension: string }
+> = {
+  bibtex: { contentType: "application/x-bibtex; charset=utf-8", extension: "bib" },
+  ris: { contentType: "application/x-research-info-systems; charset=utf-8", extension: "ris" },
+  csljson: { contentType: "application/vnd.citationstyles.csl+json; charset=utf-8", extension: "json" },
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Words skipped when picking the title word for a citation key
+const KEY_STOPWORDS = new Set([
+  "a", "an", "the", "on", "of", "for", "in", "to", "and", "with", "towards", "toward", "via", "is", "are", "do", "does",
+]);
+
+interface CSLName {
+  family: string;
+  given?: string;
+}
+
+export interface CSLItem {
+  id: string;
+  type: "article";
+  title: string;
+  author: CSLName[];
+  issued: { "date-parts": number[][] };
+  abstract: string;
+  URL: string;
+  number: string;
+  publisher: string;
+  archive: string;
+  "archive_location": string;
+  keyword: string;
+  DOI?: string;
+  note?: string;
+}
+
+function stripDiacritics(text: string): string {
+  return text.normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+}
+
+function asciiWord(text: string): string {
+  return stripDiacritics(text).toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// arXiv gives names as "Given Family", so treat the last token as the family name
+function splitName(name: string): CSLName {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length === 1) {
+    return { family: parts[0] };
+  }
+  return { family: parts[parts.length - 1], given: parts.slice(0, -1).join(" ") };
+}
+
+function formatNameLastFirst(name: string): string {
+  const { family, given } = splitName(name);
+  return given ? `${family}, ${given}` : family;
+}
+
+function baseCitationKey(paper: Paper): string {
+  const firstAuthor = paper.authors[0] ? asciiWord(splitName(paper.authors[0]).family) : "";
+  const year = new Date(paper.publishedDate).getUTCFullYear();
+  const titleWord =
+    paper.title
+      .split(/\s+/)
+      .map(asciiWord)
+      .find((word) => word && !KEY_STOPWORDS.has(word)) || "";
+
+  return `${firstAuthor || "anon"}${year}${titleWord}`;
+}
+
+/**
+ * Assign BibTeX keys like "vaswani2017attention". Papers whose keys would
+ * collide get "a", "b", ... suffixes in arXiv ID order, so the same set of
+ * papers always produces the same keys regardless of input order.
+ */
+export function assignCitationKeys(papers: Paper[]): Map<string, string> {
+  const groups = new Map<string, Paper[]>();
+  for (const paper of papers) {
+    const base = baseCitationKey(paper);
+    groups.set(base, [...(groups.get(base) || []), paper]);
+  }
+
+  const keys = new Map<string, string>();
+  const used = new Set<string>(groups.keys());
+
+  for (const [base, group] of Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+    if (group.length === 1) {
+      keys.set(group[0].id, base);
+      continue;
+    }
+
+    const sorted = [...group].sort((a, b) => a.arxivId.localeCompare(b.arxivId));
+    let suffixIndex = 0;
+    for (const paper of sorted) {
+      let key: string;
+      // Skip suffixes that would clash with another paper's base key
+      do {
+        key = `${base}${suffixFor(suffixIndex++)}`;
+      } while (used.has(key));
+      used.add(key);
+      keys.set(paper.id, key);
+    }
+  }
+
+  return keys;
+}
+
+// 0 -> "a", 25 -> "z", 26 -> "aa", ...
+function suffixFor(index: number): string {
+  let suffix = "";
+  let n = index;
+  do {
+    suffix = String.fromCharCode(97 + (n % 26)) + suffix;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return suffix;
+}
+
+function escapeBibTeX(text: string): string {
+  return text
+    .replace(/\\/g, "\\textbackslash{}")
+    .replace(/([{}&%$#_])/g, "\\$1")
+    .replace(/~/g, "\\textasciitilde{}")
+    .replace(/\^/g, "\\textasciicircum{}");
+}
+
+function dedupePapers(papers: Paper[]): Paper[] {
+  const seen = new Set<string>();
+  return papers.filter((p) => {
+    if (seen.has(p.id)) return false;
+    seen.add(p.id);
+    return true;
+  });
+}
+
+function joinNotes(notes: ExportNotes | undefined, paperId: string): string | undefined {
+  const paperNotes = notes?.get(paperId);
+  return paperNotes && paperNotes.length > 0
+    ? paperNotes.map((n) => n.body).join("\n\n")
+    : undefined;
+}
+
+export function toBibTeX(papers: Paper[], notes?: ExportNotes): string {
+  const unique = dedupePapers(papers);
+  const keys = assignCitationKeys(unique);
+
+  return unique
+    .map((paper) => {
+      const date = new Date(paper.publishedDate);
+      const fields: [string, string][] = [
+        // Double braces keep BibTeX styles from lowercasing acronyms in titles
+        ["title", `{${escapeBibTeX(paper.title)}}`],
+        ["author", paper.authors.map((a) => escapeBibTeX(formatNameLastFirst(a))).join(" and ")],
+        ["year", String(date.getUTCFullYear())],
+        ["month", MONTHS[date.getUTCMonth()]],
+        ["eprint", paper.arxivId],
+        ["archivePrefix", "arXiv"],
+      ];
+
+      const primary = getPrimaryCategory(paper);
+      if (primary) {
+        fields.push(["primaryClass", primary]);
+      }
+      if (paper.doi) {
+        fields.push(["doi", escapeBibTeX(paper.doi)]);
+      }
+      fields.push(["url", `https://arxiv.org/abs/${paper.arxivId}`]);
+
+      // "annote" is the standard BibTeX field for personal annotations
+      const annote = joinNotes(notes, paper.id);
+      if (annote) {
+        fields.push(["annote", escapeBibTeX(annote)]);
+      }
+
+      // Month is a BibTeX macro ("jun"), so it must stay unbraced
+      const body = fields
+        .map(([name, value]) => `  ${name} = ${name === "month" ? value : `{${value}}`},`)
+        .join("\n");
+      return `@misc{${keys.get(paper.id)},\n${body}\n}`;
+    })
+    .join("\n\n")
+    .concat(unique.length > 0 ? "\n" : "");
+}
+
+export function toRIS(papers: Paper[], notes?: ExportNotes): string {
+  const unique = dedupePapers(papers);
+
+  return unique
+    .map((paper) => {
+      const date = new Date(paper.publishedDate);
+      const pad = (n: number) => String(n).padStart(2, "0");
+      const lines: [string, string][] = [
+        ["TY", "UNPB"],
+        ["TI", paper.title],
+        ...paper.authors.map((a): [string, string] => ["AU", formatNameLastFirst(a)]),
+        ["PY", String(date.getUTCFullYear())],
+        ["DA", `${date.getUTCFullYear()}/${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())}`],
+        ["AB", paper.abstract],
+        ["PB", "arXiv"],
+        ["AN", `arXiv:${paper.arxivId}`],
+        ["UR", `https://arxiv.org/abs/${paper.arxivId}`],
+        ["L1", paper.pdfUrl],
+        ...(paper.doi ? [["DO", paper.doi] as [string, string]] : []),
+        ...paper.categories.map((c): [string, string] => ["KW", c]),
+        ...(notes?.get(paper.id) || []).map((n): [string, string] => ["N1", n.body]),
+        ["ER", ""],
+      ];
+
+      // RIS is line-based, so fold any newlines inside values
+      return lines
+        .map(([tag, value]) => `${tag}  - ${value.replace(/\s*\n\s*/g, " ")}`.trimEnd())
+        .join("\r\n");
+    })
+    .join("\r\n\r\n")
+    .concat(unique.length > 0 ? "\r\n" : "");
+}
+
+export function toCSLJSON(papers: Paper[], notes?: ExportNotes): CSLItem[] {
+  const unique = dedupePapers(papers);
+  const keys = assignCitationKeys(unique);
+
+  return unique.map((paper) => {
+    const date = new Date(paper.publishedDate);
+    return {
+      id: keys.get(paper.id)!,
+      type: "article",
+      title: paper.title,
+      author: paper.authors.map(splitName),
+      issued: {
+        "date-parts": [[date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()]],
+      },
+      abstract: paper.abstract,
+      URL: `https://arxiv.org/abs/${paper.arxivId}`,
+      number: paper.arxivId,
+      publisher: "arXiv",
+      archive: "arXiv",
+      "archive_location": paper.arxivId,
+      keyword: paper.categories.join(", "),
+      DOI: paper.doi,
+      note: joinNotes(notes, paper.id),
+    };
+  });
+}
+
+export function exportPapers(
+  papers: Paper[],
+  format: ExportFormat,
+  notes?: ExportNotes
+): string {
+  switch (format) {
+    case "bibtex":
+      return toBibTeX(papers, notes);
+    case "ris":
+      return toRIS(papers, notes);
+    case "csljson":
+      return JSON.stringify(toCSLJSON(papers, notes), null, 2);
+  }
+}
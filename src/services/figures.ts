@@ -1,6 +1,5 @@
 import { PaperFigure } from "@/types";
-
-const AR5IV_BASE = "https://ar5iv.labs.arxiv.org/html";
+import { fetchAr5ivHtml } from "@/services/ar5iv";
 
 interface FigureExtractionResult {
   figures: PaperFigure[];
@@ -12,23 +11,9 @@ export async function extractFiguresFromAr5iv(
 ): Promise<FigureExtractionResult> {
   // Clean arxivId (remove version suffix if present, e.g., "2401.12345v1" -> "2401.12345")
   const cleanId = arxivId.replace(/v\d+$/, "");
-  const ar5ivUrl = `${AR5IV_BASE}/${cleanId}`;
 
   try {
-    const response = await fetch(ar5ivUrl, {
-      headers: {
-        "User-Agent": "ScrollXiv/1.0 (Academic paper browser)",
-      },
-    });
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        return { figures: [], error: "ar5iv rendering not available" };
-      }
-      return { figures: [], error: `ar5iv returned ${response.status}` };
-    }
-
-    const html = await response.text();
+    const html = await fetchAr5ivHtml(cleanId);
     const figures = parseFiguresFromHtml(html, cleanId);
 
     return { figures };
@@ -94,8 +79,3 @@ function stripHtml(html: string): string {
     .replace(/\s+/g, " ")
     .trim();
 }
-
-export function getAr5ivUrl(arxivId: string): string {
-  const cleanId = arxivId.replace(/v\d+$/, "");
-  return `${AR5IV_BASE}/${cleanId}`;
-}
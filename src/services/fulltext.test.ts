@@ -0,0 +1,129 @@
+import { readFileSync } from "fs";
+import { describe, expect, it, vi } from "vitest";
+import { PaperSection } from "@/types";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import { estimateTokens, parseAr5ivSections, parsePdfSections, selectSections } from "./fulltext";
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./__fixtures__/fulltext/${name}`, import.meta.url), "utf-8");
+}
+
+function section(id: string, title: string, text: string): PaperSection {
+  return { id, title, text };
+}
+
+describe("parseAr5ivSections", () => {
+  const sections = parseAr5ivSections(fixture("ar5iv.html"));
+
+  it("splits at top-level sections and appendices, folding in subsections", () => {
+    expect(sections.map(({ id, title }) => [id, title])).toEqual([
+      ["S1", "1 Introduction"],
+      ["S2", "2 Method"],
+      ["S3", "3 Results"],
+      ["A1", "Appendix A Hyperparameters"],
+    ]);
+    expect(sections[1].text).toContain("2.1 Training\n\nWe train for 3 epochs");
+  });
+
+  it("drops the bibliography", () => {
+    expect(sections.map((s) => s.text).join("\n")).not.toContain("Vaswani");
+  });
+
+  it("keeps paragraphs, writes math as LaTeX and decodes entities", () => {
+    expect(sections[0].text).toBe(
+      "Transformers scale quadratically with length [ 1 ] , which makes long documents expensive.\n\n" +
+        "Summaries of papers & reports need the whole input."
+    );
+    expect(sections[1].text).toMatch(/^Each token attends to a window of size w and to O\(\\log n\) global tokens\./);
+    expect(sections[2].text).toContain("Model ROUGE-L\n\nOurs 41.2\n\nTable 1: Results on arXiv summarization.");
+  });
+
+  it("finds nothing in a page without sections", () => {
+    expect(parseAr5ivSections("<html><body><p>No rendering</p></body></html>")).toEqual([]);
+  });
+});
+
+describe("parsePdfSections", () => {
+  const pages = JSON.parse(fixture("pdf-pages.json")) as string[];
+
+  it("splits at numbered headings that count up from 1", () => {
+    const sections = parsePdfSections(pages);
+
+    expect(sections.map(({ id, title }) => [id, title])).toEqual([
+      ["S1", "1 Introduction"],
+      ["S2", "2 Method"],
+      ["S3", "3 Experiments"],
+      ["S4", "4 Conclusion"],
+    ]);
+    // Numbered list items and table rows stay in their section
+    expect(sections[0].text).toContain("1. a sparse attention pattern,\n2. linear memory");
+    expect(sections[1].text).toContain("1 Local window of 512 tokens\n2 Global tokens per segment");
+    expect(sections[2].text).toContain("Model ROUGE-L\n1 Ours 41.2");
+  });
+
+  it("stops at the references", () => {
+    const sections = parsePdfSections(pages);
+
+    expect(sections[3].text).toBe("Sparse attention summarizes long papers well.");
+    expect(sections.map((s) => s.title)).not.toContain("5 Appendix");
+  });
+
+  it("falls back to one section per page without recognisable headings", () => {
+    // A lone "2 Method" can't start the count, so it isn't a heading
+    const sections = parsePdfSections(["Title\n\nSome text.", "  ", "2 Method\nMore text."]);
+
+    expect(sections).toEqual([
+      section("P1", "Page 1", "Title\n\nSome text."),
+      section("P3", "Page 3", "2 Method\nMore text."),
+    ]);
+  });
+});
+
+describe("selectSections", () => {
+  const words = (count: number, word = "text") => Array(count).fill(word).join(" ") + ".";
+  const paper = [
+    section("S1", "1 Introduction", words(100)),
+    section("S2", "2 Related Work", words(100)),
+    section("S3", "3 Method", words(100)),
+    section("S4", "4 Results", words(100)),
+    section("S5", "References", words(100)),
+  ];
+
+  it("keeps everything but references when it fits, in paper order", () => {
+    expect(selectSections(paper, 10_000).map((s) => s.id)).toEqual(["S1", "S2", "S3", "S4"]);
+  });
+
+  it("spends a tight budget on methods and results first", () => {
+    // Each section is about 125 tokens
+    const selected = selectSections(paper, 450);
+
+    expect(selected.map((s) => s.id)).toEqual(["S1", "S3", "S4"]);
+    expect(selected[0].text).toBe(paper[0].text);
+  });
+
+  it("shortens the last section to the remaining budget", () => {
+    const long = section("S1", "1 Method", `${words(300)}\n${words(300)}`);
+    const [selected] = selectSections([long], 500);
+
+    expect(selected.text).toBe(`${words(300)}\n […]`);
+    expect(estimateTokens(selected.text)).toBeLessThanOrEqual(500);
+  });
+
+  it("skips sections once less than the minimum is left", () => {
+    expect(selectSections(paper, 300).map((s) => s.id)).toEqual(["S3"]);
+    expect(selectSections(paper, 150)).toEqual([]);
+  });
+
+  it("ranks sections sharing the question's words first", () => {
+    const withTopic = [
+      ...paper.slice(0, 4),
+      section("S6", "6 Broader Impact", `${words(90)} Energy consumption of training.`),
+    ];
+
+    const selected = selectSections(withTopic, 400, "What is the energy consumption?");
+
+    expect(selected.map((s) => s.id)).toEqual(["S3", "S6"]);
+  });
+});
@@ -0,0 +1,285 @@
+import { extractText, getDocumentProxy } from "unpdf";
+import { getEnv } from "@/lib/env";
+import { prisma } from "@/lib/prisma";
+import { fetchAr5ivHtml } from "@/services/ar5iv";
+import { ArxivRequestOptions, getArxivClient } from "@/services/arxivClient";
+import { ArxivPaper, FullTextSource, Paper, PaperSection } from "@/types";
+
+/**
+ * The body of a paper split into top-level sections, read from its ar5iv
+ * rendering or, when there is none, from the text of the PDF.
+ */
+export interface PaperFullText {
+  source: FullTextSource;
+  sections: PaperSection[];
+}
+
+// Rough size of the body handed to the model; override with DEEP_SUMMARY_CONTEXT_TOKENS
+const DEFAULT_CONTEXT_TOKENS = 12_000;
+
+// Sections are only cut down to fit the budget, never to less than this
+const MIN_SECTION_TOKENS = 200;
+
+// Close enough for English prose and LaTeX; only used to stay within budget
+const CHARS_PER_TOKEN = 4;
+
+// Which sections matter most for a technical deep dive, by title. Sections
+// matching nothing rank below these; references and acknowledgements are skipped.
+const SECTION_PRIORITIES: [pattern: RegExp, priority: number][] = [
+  [/reference|bibliograph|acknowledg/i, 0],
+  [/method|approach|model|architecture|experiment|result|evaluation|setup|implementation|training|hyperparameter|ablation|analysis/i, 3],
+  [/introduction|conclusion|discussion|limitation|background|preliminar|related/i, 2],
+];
+const DEFAULT_SECTION_PRIORITY = 1;
+
+export function getContextTokenBudget(): number {
+  const tokens = parseInt(getEnv("DEEP_SUMMARY_CONTEXT_TOKENS") || "");
+  return tokens > 0 ? tokens : DEFAULT_CONTEXT_TOKENS;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// --- ar5iv ------------------------------------------------------------------
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1));
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+// HTML to plain text, keeping paragraph breaks and writing math as its LaTeX source
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<math\b[^>]*?\balttext="([^"]*)"[\s\S]*?<\/math>/gi, " $1 ")
+      .replace(/<h[1-6]\b[^>]*>([\s\S]*?)<\/h[1-6]>/gi, "\n\n$1\n")
+      .replace(/<\/(p|div|tr|li|figcaption)>/gi, "\n")
+      .replace(/<[^>]+>/g, " ")
+  )
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+const SECTION_START = /<section\b[^>]*\bclass="ltx_(?:section|appendix)\b[^"]*"[^>]*>/gi;
+const SECTION_TITLE = /<h[1-6]\b[^>]*\bltx_title\b[^>]*>([\s\S]*?)<\/h[1-6]>/i;
+
+/**
+ * Split an ar5iv page into its top-level sections and appendices, with
+ * subsections folded into their parent. The bibliography is dropped.
+ */
+export function parseAr5ivSections(html: string): PaperSection[] {
+  // Appendices follow the bibliography, so only the bibliography itself is cut
+  const body = html.replace(/<section\b[^>]*\bltx_bibliography\b[\s\S]*?<\/section>/i, "");
+
+  const starts = Array.from(body.matchAll(SECTION_START));
+  return starts.flatMap((match, i) => {
+    const start = match.index! + match[0].length;
+    const end = i + 1 < starts.length ? starts[i + 1].index! : body.length;
+    const content = body.slice(start, end);
+
+    const titleMatch = content.match(SECTION_TITLE);
+    const title = titleMatch ? htmlToText(titleMatch[1]).replace(/\s+/g, " ") : `Section ${i + 1}`;
+    const text = htmlToText(titleMatch ? content.replace(titleMatch[0], "") : content);
+    const id = match[0].match(/\bid="([^"]+)"/)?.[1] ?? `S${i + 1}`;
+
+    return text ? [{ id, title, text }] : [];
+  });
+}
+
+// --- PDF --------------------------------------------------------------------
+
+// "3 Method" or "4. Experiments" on a line of its own
+const PDF_HEADING = /^(\d{1,2})\.?\s+([A-Z][A-Za-z][^\n]{0,78})$/;
+const PDF_REFERENCES = /^(references|bibliography)$/i;
+
+/**
+ * Split PDF text into sections at numbered top-level headings, which have to
+ * count up from 1 so numbered lists and table rows aren't mistaken for them.
+ * Without recognisable headings every page becomes a section.
+ */
+export function parsePdfSections(pages: string[]): PaperSection[] {
+  const sections: PaperSection[] = [];
+  let current: { id: string; title: string; lines: string[] } | null = null;
+  let lastNumber = 0;
+
+  const finish = () => {
+    const text = current?.lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+    if (current && text) sections.push({ id: current.id, title: current.title, text });
+  };
+
+  lines: for (const rawLine of pages.join("\n").split("\n")) {
+    const line = rawLine.replace(/\s+/g, " ").trim();
+    if (PDF_REFERENCES.test(line)) {
+      break lines;
+    }
+    const heading = line.match(PDF_HEADING);
+    if (heading && parseInt(heading[1]) === lastNumber + 1) {
+      finish();
+      lastNumber++;
+      current = { id: `S${heading[1]}`, title: `${heading[1]} ${heading[2]}`, lines: [] };
+    } else {
+      current?.lines.push(line);
+    }
+  }
+  finish();
+
+  if (sections.length >= 2) {
+    return sections;
+  }
+  return pages.flatMap((page, i) => {
+    const text = page.trim();
+    return text ? [{ id: `P${i + 1}`, title: `Page ${i + 1}`, text }] : [];
+  });
+}
+
+async function fetchPdfSections(
+  pdfUrl: string,
+  options: ArxivRequestOptions
+): Promise<PaperSection[]> {
+  const bytes = await getArxivClient().requestBytes(pdfUrl, options);
+  const pdf = await getDocumentProxy(bytes);
+  const { text } = await extractText(pdf, { mergePages: false });
+  return parsePdfSections(text);
+}
+
+// --- Selection --------------------------------------------------------------
+
+function sectionPriority(title: string): number {
+  const match = SECTION_PRIORITIES.find(([pattern]) => pattern.test(title));
+  return match ? match[1] : DEFAULT_SECTION_PRIORITY;
+}
+
+// Distinct words of a question long enough to say something about it
+function questionTerms(question: string): string[] {
+  const words = question.toLowerCase().match(/[\p{L}\p{N}]{4,}/gu) ?? [];
+  return Array.from(new Set(words));
+}
+
+// How many of the terms occur in a section
+function termMatches(section: PaperSection, terms: string[]): number {
+  const text = `${section.title}\n${section.text}`.toLowerCase();
+  return terms.filter((term) => text.includes(term)).length;
+}
+
+// Cut at the last paragraph or sentence end that fits
+function truncateToTokens(text: string, tokens: number): string {
+  const cut = text.slice(0, tokens * CHARS_PER_TOKEN);
+  const boundary = Math.max(cut.lastIndexOf("\n"), cut.lastIndexOf(". "));
+  return `${boundary > cut.length / 2 ? cut.slice(0, boundary + 1) : cut} […]`;
+}
+
+/**
+ * The sections worth sending within a token budget: the most relevant ones
+ * first (methods and results, then introduction and discussion, then the
+ * rest), the last one shortened if it doesn't fit. With a question, sections
+ * sharing more of its words go first. Returned in paper order.
+ */
+export function selectSections(
+  sections: PaperSection[],
+  budgetTokens: number,
+  question?: string
+): PaperSection[] {
+  const terms = question ? questionTerms(question) : [];
+  const ranked = sections
+    .map((section, index) => ({
+      section,
+      index,
+      priority: sectionPriority(section.title),
+      matches: terms.length > 0 ? termMatches(section, terms) : 0,
+    }))
+    .filter(({ priority }) => priority > 0)
+    .sort((a, b) => b.matches - a.matches || b.priority - a.priority || a.index - b.index);
+
+  const selected: { section: PaperSection; index: number }[] = [];
+  let remaining = budgetTokens;
+  for (const { section, index } of ranked) {
+    if (remaining < MIN_SECTION_TOKENS) break;
+    const text =
+      estimateTokens(section.text) <= remaining
+        ? section.text
+        : truncateToTokens(section.text, remaining);
+    selected.push({ section: { ...section, text }, index });
+    remaining -= estimateTokens(text);
+  }
+
+  return selected.sort((a, b) => a.index - b.index).map(({ section }) => section);
+}
+
+/**
+ * Fetch and split the body of a paper: ar5iv first, the PDF if ar5iv has no
+ * rendering. Returns null when neither works, so callers can fall back to the
+ * abstract.
+ */
+export async function fetchPaperFullText(
+  paper: ArxivPaper,
+  options: ArxivRequestOptions = {}
+): Promise<PaperFullText | null> {
+  try {
+    const sections = parseAr5ivSections(await fetchAr5ivHtml(paper.arxivId));
+    if (sections.length > 0) {
+      return { source: "ar5iv", sections };
+    }
+  } catch (error) {
+    console.warn(`[Full text] ar5iv failed for ${paper.arxivId}:`, error instanceof Error ? error.message : error);
+  }
+
+  try {
+    const sections = await fetchPdfSections(paper.pdfUrl, options);
+    if (sections.length > 0) {
+      return { source: "pdf", sections };
+    }
+  } catch (error) {
+    console.warn(`[Full text] PDF failed for ${paper.arxivId}:`, error instanceof Error ? error.message : error);
+  }
+  return null;
+}
+
+/**
+ * The body of a stored paper, fetched on first use and kept until a new
+ * version of the paper arrives. Null when neither ar5iv nor the PDF has it.
+ */
+export async function getPaperFullText(
+  paper: Paper,
+  options: ArxivRequestOptions = {}
+): Promise<PaperFullText | null> {
+  const stored = await prisma.paperText.findUnique({ where: { paperId: paper.id } });
+  if (stored && stored.version === paper.version) {
+    return {
+      source: stored.source as FullTextSource,
+      sections: JSON.parse(stored.sections) as PaperSection[],
+    };
+  }
+
+  const fullText = await fetchPaperFullText(paper, options);
+  if (fullText) {
+    const data = {
+      version: paper.version,
+      source: fullText.source,
+      sections: JSON.stringify(fullText.sections),
+    };
+    await prisma.paperText.upsert({
+      where: { paperId: paper.id },
+      create: { paperId: paper.id, ...data },
+      update: data,
+    });
+  }
+  return fullText;
+}
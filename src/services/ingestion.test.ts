@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ArxivPaper } from "@/types";
+
+vi.mock("@/lib/prisma", async () => {
+  const { createFakePrisma } = await import("@/test/fakePrisma");
+  return { prisma: createFakePrisma() };
+});
+
+vi.mock("@/services/arxiv", () => ({ fetchFromArxiv: vi.fn() }));
+
+import { prisma } from "@/lib/prisma";
+import { FakePrisma } from "@/test/fakePrisma";
+import { fetchFromArxiv } from "@/services/arxiv";
+import { runIngestion } from "./ingestion";
+
+const db = prisma as unknown as FakePrisma;
+
+// `count` papers submitted ten minutes apart, newest first, starting at `newest`
+function papers(count: number, newest: Date): ArxivPaper[] {
+  return Array.from({ length: count }, (_, i) => ({
+    arxivId: `2403.${String(i).padStart(5, "0")}`,
+    title: `Paper ${i}`,
+    authors: ["Ann Lee"],
+    abstract: "An abstract.",
+    categories: ["cs.CL"],
+    publishedDate: new Date(newest.getTime() - i * 600_000),
+    pdfUrl: `https://arxiv.org/pdf/2403.${String(i).padStart(5, "0")}`,
+  }));
+}
+
+describe("runIngestion", () => {
+  const newest = new Date();
+
+  beforeEach(() => {
+    vi.stubEnv("INGESTION_CATEGORIES", "cs.CL");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    for (const table of [db.paper, db.paperVersion, db.author, db.paperAuthor, db.ingestionRun]) {
+      table.rows.length = 0;
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    vi.mocked(fetchFromArxiv).mockReset();
+  });
+
+  it("records the newest submission once it has everything since the last run", async () => {
+    vi.mocked(fetchFromArxiv).mockResolvedValue({ papers: papers(30, newest), total: 30 });
+
+    const run = await runIngestion();
+
+    expect(run).toMatchObject({ status: "succeeded", papersFetched: 30, lastSeenAt: newest });
+  });
+
+  it("records no resume point when the cap cuts it short", async () => {
+    vi.stubEnv("INGESTION_MAX_PAPERS", "100");
+    vi.mocked(fetchFromArxiv).mockResolvedValue({ papers: papers(100, newest), total: 250 });
+
+    const run = await runIngestion();
+
+    expect(fetchFromArxiv).toHaveBeenCalledTimes(1);
+    expect(run).toMatchObject({ status: "failed", papersFetched: 100, lastSeenAt: null });
+    expect(run.error).toMatch(/INGESTION_MAX_PAPERS \(100\)/);
+  });
+});
@@ -0,0 +1,391 @@
+import { prisma } from "@/lib/prisma";
+import { getEnv } from "@/lib/env";
+import { normalizeCategories } from "@/lib/taxonomy";
+import { IngestionRun as PrismaIngestionRun } from "@prisma/client";
+import {
+  ArxivPaper,
+  DEFAULT_CATEGORIES,
+  IngestionRun,
+  IngestionSource,
+  IngestionStatus,
+} from "@/types";
+import { fetchFromArxiv } from "@/services/arxiv";
+import { listRecords, OaiMetadataFormat, OAI_METADATA_FORMATS } from "@/services/oai";
+import { upsertPapers } from "@/services/papers";
+import { enqueueJob, registerJob, triggerJob } from "@/services/jobs";
+
+const JOB_NAME = "ingestion";
+
+// Papers per arXiv request; the API allows up to 2000 but is slow for large pages
+const PAGE_SIZE = 100;
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+// Upper bound per query API run, so a long outage doesn't turn into an unbounded crawl
+const DEFAULT_MAX_PAPERS = 2000;
+
+// How far back the first run for a set of categories reaches
+const INITIAL_LOOKBACK_DAYS = 3;
+
+const DEFAULT_OAI_SET = "cs";
+
+const DAY_MS = 86_400_000;
+
+function toIngestionRun(dbRun: PrismaIngestionRun): IngestionRun {
+  return {
+    id: dbRun.id,
+    source: dbRun.source as IngestionSource,
+    categories: JSON.parse(dbRun.categories) as string[],
+    set: dbRun.set,
+    from: dbRun.from,
+    until: dbRun.until,
+    status: dbRun.status as IngestionStatus,
+    pagesFetched: dbRun.pagesFetched,
+    papersFetched: dbRun.papersFetched,
+    papersCreated: dbRun.papersCreated,
+    error: dbRun.error,
+    lastSeenAt: dbRun.lastSeenAt,
+    startedAt: dbRun.startedAt,
+    finishedAt: dbRun.finishedAt,
+  };
+}
+
+function getIntervalMs(): number {
+  const minutes = parseFloat(getEnv("INGESTION_INTERVAL_MINUTES") || "");
+  return (Number.isFinite(minutes) ? minutes : DEFAULT_INTERVAL_MINUTES) * 60_000;
+}
+
+function getMaxPapers(): number {
+  const max = parseInt(getEnv("INGESTION_MAX_PAPERS") || "");
+  return max > 0 ? max : DEFAULT_MAX_PAPERS;
+}
+
+// Scheduled runs poll the query API unless INGESTION_SOURCE="oai"
+function getScheduledSource(): IngestionSource {
+  return getEnv("INGESTION_SOURCE") === "oai" ? "oai" : "api";
+}
+
+function getOaiSet(): string {
+  return getEnv("ARXIV_OAI_SET") || DEFAULT_OAI_SET;
+}
+
+function getOaiMetadataFormat(): OaiMetadataFormat {
+  const format = getEnv("ARXIV_OAI_METADATA_FORMAT");
+  return OAI_METADATA_FORMATS.find((f) => f === format) ?? "arXivRaw";
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function isIngestionEnabled(): boolean {
+  return getIntervalMs() > 0;
+}
+
+/**
+ * Categories to poll: INGESTION_CATEGORIES if set, otherwise every category
+ * some user's feed pulls from. Sorted, so runs over the same set compare equal.
+ */
+export async function getIngestionCategories(): Promise<string[]> {
+  const configured = getEnv("INGESTION_CATEGORIES");
+  if (configured) {
+    const { categories, unknown } = normalizeCategories(
+      configured.split(",").map((c) => c.trim()).filter(Boolean)
+    );
+    if (unknown.length > 0) {
+      console.warn(`[Ingestion] Ignoring unknown categories: ${unknown.join(", ")}`);
+    }
+    return categories.sort();
+  }
+
+  const users = await prisma.user.findMany({ select: { feedCategories: true } });
+  const categories = new Set<string>(users.length === 0 ? DEFAULT_CATEGORIES : []);
+  for (const user of users) {
+    const feedCategories = user.feedCategories
+      ? (JSON.parse(user.feedCategories) as string[])
+      : DEFAULT_CATEGORIES;
+    feedCategories.forEach((c) => categories.add(c));
+  }
+  return Array.from(categories).sort();
+}
+
+// --- Run bookkeeping --------------------------------------------------------
+
+interface RunProgress {
+  pagesFetched: number;
+  papersFetched: number;
+  papersCreated: number;
+}
+
+// Runs happen one at a time on the job loop, so anything still marked
+// running when a new run starts was cut off
+async function markInterruptedRuns(): Promise<void> {
+  await prisma.ingestionRun.updateMany({
+    where: { status: "running" },
+    data: { status: "failed", error: "Interrupted", finishedAt: new Date() },
+  });
+}
+
+// Store one page of papers and record the run's progress
+async function storePage(
+  runId: string,
+  progress: RunProgress,
+  papers: ArxivPaper[]
+): Promise<void> {
+  const existing = await prisma.paper.count({
+    where: { arxivId: { in: papers.map((p) => p.arxivId) } },
+  });
+  await upsertPapers(papers);
+
+  progress.pagesFetched++;
+  progress.papersFetched += papers.length;
+  progress.papersCreated += papers.length - existing;
+
+  await prisma.ingestionRun.update({
+    where: { id: runId },
+    data: { ...progress },
+  });
+}
+
+async function finishRun(
+  runId: string,
+  progress: RunProgress,
+  lastSeenAt: Date
+): Promise<IngestionRun> {
+  const finished = await prisma.ingestionRun.update({
+    where: { id: runId },
+    data: { status: "succeeded", lastSeenAt, finishedAt: new Date() },
+  });
+  console.log(
+    `[Ingestion] ${progress.papersFetched} papers (${progress.papersCreated} new) in ${progress.pagesFetched} pages`
+  );
+  return toIngestionRun(finished);
+}
+
+// A failed run records no resume point, so the next run covers the gap again
+async function failRun(runId: string, error: unknown): Promise<IngestionRun> {
+  const failed = await prisma.ingestionRun.update({
+    where: { id: runId },
+    data: {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      finishedAt: new Date(),
+    },
+  });
+  console.error("[Ingestion] Run failed:", error);
+  return toIngestionRun(failed);
+}
+
+// --- Query API polling ------------------------------------------------------
+
+// Where the last successful poll over the same categories left off. A changed
+// set of categories starts over from the lookback window.
+async function getResumePoint(categories: string[]): Promise<Date> {
+  const lastRun = await prisma.ingestionRun.findFirst({
+    where: {
+      source: "api",
+      status: "succeeded",
+      categories: JSON.stringify(categories),
+      lastSeenAt: { not: null },
+    },
+    orderBy: { startedAt: "desc" },
+  });
+  return lastRun?.lastSeenAt ?? new Date(Date.now() - INITIAL_LOOKBACK_DAYS * DAY_MS);
+}
+
+/**
+ * Poll the query API for submissions in the ingestion categories, newest
+ * first, and store them page by page until reaching the previous run's
+ * newest paper.
+ */
+export async function runIngestion(): Promise<IngestionRun> {
+  await markInterruptedRuns();
+
+  const categories = await getIngestionCategories();
+  const since = await getResumePoint(categories);
+  const maxPapers = getMaxPapers();
+
+  const run = await prisma.ingestionRun.create({
+    data: { source: "api", categories: JSON.stringify(categories) },
+  });
+  const progress: RunProgress = { pagesFetched: 0, papersFetched: 0, papersCreated: 0 };
+  let newestSeen = since;
+  let complete = false;
+
+  try {
+    for (let start = 0; start < maxPapers; start += PAGE_SIZE) {
+      const { papers, total } = await fetchFromArxiv(
+        categories,
+        PAGE_SIZE,
+        start,
+        "submittedDate"
+      );
+      // arXiv occasionally returns an empty page in the middle of a result set;
+      // ending the run there would skip everything after it
+      if (papers.length === 0 && start < total) {
+        throw new Error(`arXiv returned an empty page at offset ${start} of ${total}`);
+      }
+
+      const fresh = papers.filter((p) => p.publishedDate >= since);
+      await storePage(run.id, progress, fresh);
+      for (const paper of fresh) {
+        if (paper.publishedDate > newestSeen) newestSeen = paper.publishedDate;
+      }
+
+      const reachedPreviousRun = fresh.length < papers.length;
+      if (reachedPreviousRun || start + PAGE_SIZE >= total) {
+        complete = true;
+        break;
+      }
+    }
+
+    // Papers between the last page and the resume point are still missing,
+    // so this run can't move the resume point past them
+    if (!complete) {
+      throw new Error(
+        `Stopped at INGESTION_MAX_PAPERS (${maxPapers}) before reaching the previous run`
+      );
+    }
+    return await finishRun(run.id, progress, newestSeen);
+  } catch (error) {
+    return failRun(run.id, error);
+  }
+}
+
+// --- OAI-PMH harvesting -----------------------------------------------------
+
+export interface OaiHarvestOptions {
+  from?: string; // YYYY-MM-DD; defaults to where the last harvest of the set left off
+  until?: string; // YYYY-MM-DD; defaults to open-ended
+  set?: string; // Defaults to ARXIV_OAI_SET, or "cs"
+}
+
+// The newest datestamp any successful harvest of the set reached, so a
+// backfill of an older range doesn't move incremental harvesting back
+async function getOaiResumeDate(set: string): Promise<string> {
+  const lastRun = await prisma.ingestionRun.findFirst({
+    where: { source: "oai", set, status: "succeeded", lastSeenAt: { not: null } },
+    orderBy: { lastSeenAt: "desc" },
+  });
+  return toDateString(
+    lastRun?.lastSeenAt ?? new Date(Date.now() - INITIAL_LOOKBACK_DAYS * DAY_MS)
+  );
+}
+
+/**
+ * Harvest every record added or changed in a date range through OAI-PMH,
+ * following resumption tokens until the list is complete. Without `from` it
+ * continues where the previous harvest of the set left off, so it can run
+ * incrementally; with a range it backfills, months at a time if need be.
+ */
+export async function runOaiHarvest(options: OaiHarvestOptions = {}): Promise<IngestionRun> {
+  await markInterruptedRuns();
+
+  const set = options.set || getOaiSet();
+  const from = options.from ?? (await getOaiResumeDate(set));
+  const until = options.until ?? null;
+
+  const run = await prisma.ingestionRun.create({
+    data: { source: "oai", categories: "[]", set, from, until },
+  });
+  const progress: RunProgress = { pagesFetched: 0, papersFetched: 0, papersCreated: 0 };
+  let newestDatestamp = from;
+
+  try {
+    let page = await listRecords({
+      from,
+      until: until ?? undefined,
+      set,
+      metadataPrefix: getOaiMetadataFormat(),
+    });
+
+    for (;;) {
+      await storePage(run.id, progress, page.papers);
+      if (page.newestDatestamp && page.newestDatestamp > newestDatestamp) {
+        newestDatestamp = page.newestDatestamp;
+      }
+
+      if (!page.resumptionToken) {
+        break;
+      }
+      page = await listRecords({ resumptionToken: page.resumptionToken });
+    }
+
+    return await finishRun(run.id, progress, new Date(newestDatestamp));
+  } catch (error) {
+    return failRun(run.id, error);
+  }
+}
+
+/** Queue a harvest on the job loop; its progress shows up in the run history. */
+export function requestOaiHarvest(options: OaiHarvestOptions): void {
+  enqueueJob("oai-harvest", async () => {
+    await runOaiHarvest(options);
+  });
+}
+
+// --- Scheduling -------------------------------------------------------------
+
+// OAI-PMH sets are archives ("cs") or archive:subject ("physics:hep-th")
+function setCoversCategory(set: string, category: string): boolean {
+  const archive = set.split(":").pop()!;
+  return category === archive || category.startsWith(`${archive}.`);
+}
+
+// Whether a recent successful run covered all of these categories, so
+// requests can rely on the background job instead of fetching inline
+export async function isCoveredByIngestion(categories: string[]): Promise<boolean> {
+  if (!isIngestionEnabled()) {
+    return false;
+  }
+  const lastRun = await prisma.ingestionRun.findFirst({
+    where: {
+      source: getScheduledSource(),
+      status: "succeeded",
+      finishedAt: { gte: new Date(Date.now() - 2 * getIntervalMs()) },
+    },
+    orderBy: { startedAt: "desc" },
+    select: { categories: true, set: true },
+  });
+  if (!lastRun) {
+    return false;
+  }
+
+  const { set } = lastRun;
+  if (set) {
+    return categories.every((c) => setCoversCategory(set, c));
+  }
+  const polled = new Set(JSON.parse(lastRun.categories) as string[]);
+  return categories.every((c) => polled.has(c));
+}
+
+export async function listIngestionRuns(limit: number = 20): Promise<IngestionRun[]> {
+  const runs = await prisma.ingestionRun.findMany({
+    orderBy: { startedAt: "desc" },
+    take: limit,
+  });
+  return runs.map(toIngestionRun);
+}
+
+/**
+ * Ingest from arXiv in the background for as long as the server runs.
+ * INGESTION_INTERVAL_MINUTES sets the interval (0 turns it off) and
+ * INGESTION_SOURCE picks the query API ("api") or OAI-PMH ("oai").
+ */
+export function startIngestion(): void {
+  if (!isIngestionEnabled()) {
+    return;
+  }
+  registerJob(JOB_NAME, getIntervalMs(), async () => {
+    if (getScheduledSource() === "oai") {
+      await runOaiHarvest();
+    } else {
+      await runIngestion();
+    }
+  });
+}
+
+/** Start a run soon, e.g. after a user adds categories. Returns false when ingestion is off. */
+export function requestIngestion(): boolean {
+  return triggerJob(JOB_NAME);
+}
@@ -0,0 +1,102 @@
+/**
+ * In-process background jobs. Jobs run one at a time on a shared loop, so a
+ * long harvest holds back other jobs instead of competing with them for
+ * arXiv's request queue.
+ */
+interface Job {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+  lastRunAt: number;
+}
+
+// How often the loop checks for due jobs
+const TICK_MS = 60_000;
+
+// Give the server a moment to finish starting before the first run
+const STARTUP_DELAY_MS = 10_000;
+
+interface JobRunner {
+  jobs: Map<string, Job>;
+  queue: { name: string; run: () => Promise<void> }[]; // One-off jobs, run before due jobs
+  loopTimer: ReturnType<typeof setInterval> | null;
+  isTicking: boolean;
+}
+
+// Kept on globalThis: instrumentation and route handlers are bundled
+// separately, and a route triggering a job has to see the same registry
+const globalForJobs = globalThis as unknown as { jobRunner: JobRunner | undefined };
+
+const runner: JobRunner = (globalForJobs.jobRunner ??= {
+  jobs: new Map(),
+  queue: [],
+  loopTimer: null,
+  isTicking: false,
+});
+
+async function tick(): Promise<void> {
+  if (runner.isTicking) return;
+  runner.isTicking = true;
+  try {
+    for (let task = runner.queue.shift(); task; task = runner.queue.shift()) {
+      try {
+        await task.run();
+      } catch (error) {
+        console.error(`[Jobs] ${task.name} failed:`, error);
+      }
+    }
+    for (const job of runner.jobs.values()) {
+      if (Date.now() - job.lastRunAt < job.intervalMs) continue;
+      job.lastRunAt = Date.now();
+      try {
+        await job.run();
+      } catch (error) {
+        console.error(`[Jobs] ${job.name} failed:`, error);
+      }
+    }
+  } finally {
+    runner.isTicking = false;
+  }
+}
+
+/**
+ * Run `run` every `intervalMs` for as long as the server runs. An interval of
+ * 0 or less leaves the job unregistered. Registering a name again is a no-op.
+ */
+export function registerJob(
+  name: string,
+  intervalMs: number,
+  run: () => Promise<void>
+): void {
+  if (intervalMs <= 0 || runner.jobs.has(name)) {
+    return;
+  }
+  runner.jobs.set(name, { name, intervalMs, run, lastRunAt: 0 });
+
+  startLoop();
+}
+
+function startLoop(): void {
+  if (!runner.loopTimer) {
+    runner.loopTimer = setInterval(tick, TICK_MS);
+    setTimeout(tick, STARTUP_DELAY_MS);
+  }
+}
+
+/** Run a one-off job on the loop, after whatever is running now. */
+export function enqueueJob(name: string, run: () => Promise<void>): void {
+  runner.queue.push({ name, run });
+  startLoop();
+  setTimeout(tick, 0);
+}
+
+/** Run a registered job on the next pass of the loop instead of waiting for its interval. */
+export function triggerJob(name: string): boolean {
+  const job = runner.jobs.get(name);
+  if (!job) {
+    return false;
+  }
+  job.lastRunAt = 0;
+  setTimeout(tick, 0);
+  return true;
+}
@@ -0,0 +1,193 @@
+import { readFileSync } from "fs";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { startStubServer, StubServer } from "@/test/stubServer";
+
+vi.mock("@/lib/prisma", async () => {
+  const { createFakePrisma } = await import("@/test/fakePrisma");
+  return { prisma: createFakePrisma() };
+});
+
+import { prisma } from "@/lib/prisma";
+import { FakePrisma } from "@/test/fakePrisma";
+import { createArxivClient, setArxivClient } from "./arxivClient";
+import { runOaiHarvest } from "./ingestion";
+import { listRecords, parseListRecords } from "./oai";
+
+const db = prisma as unknown as FakePrisma;
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./__fixtures__/oai/${name}`, import.meta.url), "utf-8");
+}
+
+describe("parseListRecords", () => {
+  it("reads arXivRaw records, skipping deleted ones", async () => {
+    const page = await parseListRecords(fixture("list-records-raw-1.xml"));
+
+    expect(page.deletedCount).toBe(1);
+    expect(page.newestDatestamp).toBe("2024-03-02");
+    expect(page.resumptionToken).toBe("7231842|1001");
+    expect(page.completeListSize).toBe(3);
+    expect(page.papers).toHaveLength(1);
+
+    const [paper] = page.papers;
+    expect(paper).toMatchObject({
+      arxivId: "2402.18001",
+      title: "Sparse Attention for Long Document Summarization",
+      authors: ["Jane Doe", "Jörg Müller", "Wei Zhang"],
+      affiliations: [["MIT"], [], ["Tsinghua University"]],
+      categories: ["cs.CL", "cs.LG"],
+      primaryCategory: "cs.CL",
+      version: 2,
+      comment: "12 pages, 5 figures; v2 fixes typos",
+      pdfUrl: "https://arxiv.org/pdf/2402.18001",
+    });
+    expect(paper.abstract).toMatch(/^We propose .* summarization\.$/);
+    expect(paper.publishedDate.toISOString()).toBe("2024-02-28T17:04:12.000Z");
+    expect(paper.updatedDate?.toISOString()).toBe("2024-03-01T10:31:55.000Z");
+  });
+
+  it("ends the list at an empty resumption token", async () => {
+    const page = await parseListRecords(fixture("list-records-raw-2.xml"));
+
+    expect(page.resumptionToken).toBeNull();
+    expect(page.papers[0]).toMatchObject({
+      arxivId: "2403.00042",
+      authors: ["Ann Lee", "Bo Chen"],
+      affiliations: undefined,
+      version: 1,
+      journalRef: "ICSE 2024",
+      doi: "10.1145/3597503.3639000",
+    });
+  });
+
+  it("reads the arXiv format, which has no version numbers", async () => {
+    const page = await parseListRecords(fixture("list-records-arxiv.xml"));
+
+    expect(page.deletedCount).toBe(1);
+    expect(page.resumptionToken).toBeNull();
+    expect(page.papers).toHaveLength(1);
+    expect(page.papers[0]).toMatchObject({
+      arxivId: "2402.18001",
+      authors: ["Jane Doe", "Jörg Müller", "John Smith Jr"],
+      affiliations: [["MIT"], [], []],
+      primaryCategory: "cs.CL",
+    });
+    expect(page.papers[0].version).toBeUndefined();
+    expect(page.papers[0].publishedDate.toISOString()).toBe("2024-02-28T00:00:00.000Z");
+    expect(page.papers[0].updatedDate?.toISOString()).toBe("2024-03-01T00:00:00.000Z");
+  });
+
+  it("treats noRecordsMatch as an empty list", async () => {
+    const page = await parseListRecords(fixture("no-records-match.xml"));
+
+    expect(page).toEqual({
+      papers: [],
+      newestDatestamp: null,
+      deletedCount: 0,
+      resumptionToken: null,
+      completeListSize: 0,
+    });
+  });
+
+  it("throws on other OAI-PMH errors", async () => {
+    await expect(parseListRecords(fixture("bad-resumption-token.xml"))).rejects.toThrow(
+      /badResumptionToken/
+    );
+  });
+});
+
+describe("harvesting from a stub server", () => {
+  let server: StubServer;
+
+  beforeAll(async () => {
+    server = await startStubServer((url) => {
+      const params = url.searchParams;
+      if (params.get("resumptionToken") === "7231842|1001") {
+        return { body: fixture("list-records-raw-2.xml") };
+      }
+      if (params.get("from")?.startsWith("2030")) {
+        return { body: fixture("no-records-match.xml") };
+      }
+      if (params.get("metadataPrefix") === "arXiv") {
+        return { body: fixture("list-records-arxiv.xml") };
+      }
+      if (params.get("metadataPrefix") === "arXivRaw") {
+        return { body: fixture("list-records-raw-1.xml") };
+      }
+      return { status: 400, body: "unexpected request" };
+    });
+    vi.stubEnv("ARXIV_OAI_BASE_URL", `${server.url}/oai`);
+    setArxivClient(createArxivClient({ requestIntervalMs: 0, maxAttempts: 1 }));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+    for (const table of [db.paper, db.paperVersion, db.author, db.paperAuthor, db.ingestionRun]) {
+      table.rows.length = 0;
+    }
+  });
+
+  it("sends the date range and set, then only the resumption token", async () => {
+    const page = await listRecords({ from: "2024-03-01", until: "2024-03-02", set: "cs" });
+    await listRecords({ resumptionToken: page.resumptionToken! });
+
+    expect(server.requests.map((url) => Object.fromEntries(url.searchParams))).toEqual([
+      {
+        verb: "ListRecords",
+        metadataPrefix: "arXivRaw",
+        from: "2024-03-01",
+        until: "2024-03-02",
+        set: "cs",
+      },
+      { verb: "ListRecords", resumptionToken: "7231842|1001" },
+    ]);
+  });
+
+  it("follows resumption tokens and stores every page through upsertPapers", async () => {
+    const run = await runOaiHarvest({ from: "2024-03-01", until: "2024-03-02", set: "cs" });
+
+    expect(run).toMatchObject({
+      source: "oai",
+      status: "succeeded",
+      pagesFetched: 2,
+      papersFetched: 2,
+      papersCreated: 2,
+    });
+    expect(run.lastSeenAt?.toISOString()).toBe("2024-03-02T00:00:00.000Z");
+    expect(server.requests).toHaveLength(2);
+
+    expect(db.paper.rows.map((p) => p.arxivId).sort()).toEqual(["2402.18001", "2403.00042"]);
+    const stored = db.paper.rows.find((p) => p.arxivId === "2402.18001")!;
+    expect(stored).toMatchObject({ version: 2, primaryCategory: "cs.CL" });
+    expect(JSON.parse(stored.authors as string)).toEqual(["Jane Doe", "Jörg Müller", "Wei Zhang"]);
+    // Authors are normalized and linked in list order
+    expect(db.author.rows.map((a) => a.normalizedName)).toContain("jorg muller");
+    expect(db.paperAuthor.rows.filter((l) => l.paperId === stored.id)).toHaveLength(3);
+  });
+
+  it("updates papers it already has instead of duplicating them", async () => {
+    await runOaiHarvest({ from: "2024-03-01", until: "2024-03-02", set: "cs" });
+    vi.stubEnv("ARXIV_OAI_METADATA_FORMAT", "arXiv");
+    const run = await runOaiHarvest({ from: "2024-03-01", until: "2024-03-02", set: "cs" });
+    vi.stubEnv("ARXIV_OAI_METADATA_FORMAT", "");
+
+    expect(run).toMatchObject({ status: "succeeded", papersFetched: 1, papersCreated: 0 });
+    expect(db.paper.rows).toHaveLength(2);
+    // The arXiv format doesn't report versions, so the stored one is kept
+    expect(db.paper.rows.find((p) => p.arxivId === "2402.18001")).toMatchObject({ version: 2 });
+  });
+
+  it("finishes an empty range without storing anything", async () => {
+    const run = await runOaiHarvest({ from: "2030-01-01", set: "cs" });
+
+    expect(run).toMatchObject({ status: "succeeded", pagesFetched: 1, papersFetched: 0 });
+    expect(db.paper.rows).toHaveLength(0);
+  });
+});
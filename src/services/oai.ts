@@ -0,0 +1,254 @@
+import { parseStringPromise } from "xml2js";
+import { getEnv } from "@/lib/env";
+import { splitArxivId } from "@/lib/versions";
+import { getArxivClient } from "@/services/arxivClient";
+import { ArxivPaper } from "@/types";
+
+/**
+ * Client for arXiv's OAI-PMH interface, which lists every record added or
+ * changed in a date range. Better suited to complete coverage than the
+ * query API, which caps and sometimes truncates result sets.
+ * ARXIV_OAI_BASE_URL points it elsewhere, e.g. at a stub serving fixtures.
+ */
+const DEFAULT_OAI_BASE_URL = "https://oaipmh.arxiv.org/oai";
+
+export type OaiMetadataFormat = "arXiv" | "arXivRaw";
+
+export const OAI_METADATA_FORMATS: OaiMetadataFormat[] = ["arXivRaw", "arXiv"];
+
+export interface OaiListRecordsOptions {
+  from?: string; // YYYY-MM-DD, inclusive
+  until?: string; // YYYY-MM-DD, inclusive
+  set?: string; // e.g. "cs" or "physics:hep-th"
+  metadataPrefix?: OaiMetadataFormat;
+}
+
+export interface OaiRecordsPage {
+  papers: ArxivPaper[];
+  newestDatestamp: string | null; // Latest record datestamp on the page
+  deletedCount: number;
+  resumptionToken: string | null; // Pass back to get the next page; null on the last one
+  completeListSize: number | null;
+}
+
+// xml2js yields a string for plain elements and { _, $ } for elements with attributes
+type XmlText = string | { _?: string; $?: Record<string, string> };
+type XmlNode = Record<string, unknown>;
+
+function getOaiBaseUrl(): string {
+  return getEnv("ARXIV_OAI_BASE_URL") || DEFAULT_OAI_BASE_URL;
+}
+
+function text(value: unknown): string {
+  const node = Array.isArray(value) ? value[0] : value;
+  if (typeof node === "string") return node;
+  return (node as { _?: string } | undefined)?._ ?? "";
+}
+
+function child(node: unknown, name: string): XmlNode | undefined {
+  const value = (node as XmlNode | undefined)?.[name];
+  return Array.isArray(value) ? (value[0] as XmlNode) : undefined;
+}
+
+function children(node: unknown, name: string): XmlNode[] {
+  const value = (node as XmlNode | undefined)?.[name];
+  return Array.isArray(value) ? (value as XmlNode[]) : [];
+}
+
+function cleanText(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+// arXivRaw keeps authors as submitted, with TeX accents such as {\"o} or \'e
+const TEX_ACCENTS: Record<string, string> = {
+  "'": "\u0301",
+  "`": "\u0300",
+  '"': "\u0308",
+  "^": "\u0302",
+  "~": "\u0303",
+};
+
+function decodeTexAccents(value: string): string {
+  return value
+    .replace(/\\(['`"^~])\{?([A-Za-z])\}?/g, (_, accent: string, letter: string) =>
+      `${letter}${TEX_ACCENTS[accent]}`
+    )
+    .replace(/[{}]/g, "")
+    .normalize("NFC");
+}
+
+// Commas and "and" separate authors, except inside parenthesised affiliations
+const RAW_AUTHOR_SEPARATOR = /,\s*(?![^(]*\))|\s+and\s+(?![^(]*\))/;
+
+// "A. Smith (MIT), B. Jones and C. Lee" -> names, and per-author affiliations
+// from the parentheses. Reference numbers like "(1)" aren't affiliations.
+function splitRawAuthors(authors: string): { names: string[]; affiliations: string[][] } {
+  const entries = decodeTexAccents(cleanText(authors))
+    .split(RAW_AUTHOR_SEPARATOR)
+    .map((entry) => ({
+      name: entry.replace(/\([^)]*\)/g, "").trim(),
+      affiliations: Array.from(entry.matchAll(/\(([^)]*)\)/g), (m) => m[1].trim()).filter(
+        (affiliation) => affiliation && !/^[\d,\s]+$/.test(affiliation)
+      ),
+    }))
+    .filter((entry) => entry.name);
+  return {
+    names: entries.map((e) => e.name),
+    affiliations: entries.map((e) => e.affiliations),
+  };
+}
+
+// Papers without any affiliations store none rather than a list of empty lists
+function optionalAffiliations(affiliations: string[][]): string[][] | undefined {
+  return affiliations.some((a) => a.length > 0) ? affiliations : undefined;
+}
+
+function optionalText(value: unknown): string | undefined {
+  return cleanText(text(value)) || undefined;
+}
+
+// The arXiv format has no version numbers, only the date of the latest version.
+// Like the query API, it lists the primary category first.
+function parseArxivRecord(metadata: XmlNode): ArxivPaper {
+  const arxivId = text(metadata.id);
+  const updated = text(metadata.updated);
+  const authorNodes = children(child(metadata, "authors"), "author");
+  const authors = authorNodes.map((author) =>
+    [text(author.forenames), text(author.keyname), text(author.suffix)]
+      .filter(Boolean)
+      .join(" ")
+  );
+  const categories = text(metadata.categories).split(/\s+/).filter(Boolean);
+
+  return {
+    arxivId,
+    title: cleanText(text(metadata.title)),
+    authors,
+    abstract: cleanText(text(metadata.abstract)),
+    categories,
+    publishedDate: new Date(text(metadata.created)),
+    pdfUrl: `https://arxiv.org/pdf/${arxivId}`,
+    updatedDate: updated ? new Date(updated) : undefined,
+    comment: optionalText(metadata.comments),
+    primaryCategory: categories[0],
+    journalRef: optionalText(metadata["journal-ref"]),
+    doi: optionalText(metadata.doi),
+    affiliations: optionalAffiliations(
+      authorNodes.map((author) =>
+        children(author, "affiliation").map((a) => cleanText(text(a as XmlText))).filter(Boolean)
+      )
+    ),
+  };
+}
+
+// Every version is listed with its date; comments belong to the latest one
+function parseArxivRawRecord(metadata: XmlNode): ArxivPaper {
+  const arxivId = text(metadata.id);
+  const versions = children(metadata, "version");
+  const latest = versions[versions.length - 1];
+  const latestVersion = (latest?.$ as Record<string, string> | undefined)?.version;
+  const authors = splitRawAuthors(text(metadata.authors));
+  const categories = text(metadata.categories).split(/\s+/).filter(Boolean);
+
+  return {
+    arxivId,
+    title: cleanText(text(metadata.title)),
+    authors: authors.names,
+    abstract: cleanText(text(metadata.abstract)),
+    categories,
+    publishedDate: new Date(text(versions[0]?.date)),
+    pdfUrl: `https://arxiv.org/pdf/${arxivId}`,
+    version: splitArxivId(`${arxivId}${latestVersion ?? ""}`).version ?? undefined,
+    updatedDate: latest ? new Date(text(latest.date)) : undefined,
+    comment: optionalText(metadata.comments),
+    primaryCategory: categories[0],
+    journalRef: optionalText(metadata["journal-ref"]),
+    doi: optionalText(metadata.doi),
+    affiliations: optionalAffiliations(authors.affiliations),
+  };
+}
+
+/** Parse one ListRecords response. Exported for replaying recorded responses. */
+export async function parseListRecords(xml: string): Promise<OaiRecordsPage> {
+  const result = (await parseStringPromise(xml)) as { "OAI-PMH"?: XmlNode };
+  const root = result["OAI-PMH"];
+  if (!root) {
+    throw new Error("OAI-PMH response has no OAI-PMH root element");
+  }
+
+  const error = child(root, "error");
+  if (error) {
+    const code = (error.$ as Record<string, string> | undefined)?.code;
+    // An empty date range is reported as an error, but isn't one
+    if (code === "noRecordsMatch") {
+      return {
+        papers: [],
+        newestDatestamp: null,
+        deletedCount: 0,
+        resumptionToken: null,
+        completeListSize: 0,
+      };
+    }
+    throw new Error(`OAI-PMH error ${code}: ${cleanText(text(error as XmlText))}`);
+  }
+
+  const listRecords = child(root, "ListRecords");
+  const papers: ArxivPaper[] = [];
+  let newestDatestamp: string | null = null;
+  let deletedCount = 0;
+
+  for (const record of children(listRecords, "record")) {
+    const header = child(record, "header");
+    const datestamp = text(header?.datestamp);
+    if (datestamp && (!newestDatestamp || datestamp > newestDatestamp)) {
+      newestDatestamp = datestamp;
+    }
+    if ((header?.$ as Record<string, string> | undefined)?.status === "deleted") {
+      deletedCount++;
+      continue;
+    }
+
+    const metadata = child(record, "metadata");
+    const raw = child(metadata, "arXivRaw");
+    const arxiv = child(metadata, "arXiv");
+    if (raw) {
+      papers.push(parseArxivRawRecord(raw));
+    } else if (arxiv) {
+      papers.push(parseArxivRecord(arxiv));
+    }
+  }
+
+  const token = (listRecords?.resumptionToken as XmlText[] | undefined)?.[0];
+  const tokenAttributes = typeof token === "object" ? token.$ : undefined;
+  const completeListSize = parseInt(tokenAttributes?.completeListSize || "");
+
+  return {
+    papers,
+    newestDatestamp,
+    deletedCount,
+    resumptionToken: text(token) || null,
+    completeListSize: Number.isFinite(completeListSize) ? completeListSize : null,
+  };
+}
+
+/**
+ * One page of ListRecords. Start with a date range and set; afterwards pass
+ * only the returned resumption token, as the protocol requires.
+ */
+export async function listRecords(
+  options: OaiListRecordsOptions | { resumptionToken: string }
+): Promise<OaiRecordsPage> {
+  const params = new URLSearchParams({ verb: "ListRecords" });
+
+  if ("resumptionToken" in options) {
+    params.set("resumptionToken", options.resumptionToken);
+  } else {
+    params.set("metadataPrefix", options.metadataPrefix ?? "arXivRaw");
+    if (options.from) params.set("from", options.from);
+    if (options.until) params.set("until", options.until);
+    if (options.set) params.set("set", options.set);
+  }
+
+  // The shared client waits out the 503 + Retry-After arXiv uses for flow control
+  return parseListRecords(await getArxivClient().request(`${getOaiBaseUrl()}?${params}`));
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: { paper: { findMany: vi.fn() } },
+}));
+
+import { prisma } from "@/lib/prisma";
+import { findNearestPapers } from "./papers";
+
+function dbPaper(id: string, embedding?: number[]) {
+  return {
+    id,
+    arxivId: id,
+    title: `Paper ${id}`,
+    authors: "[]",
+    abstract: "",
+    categories: "[]",
+    publishedDate: new Date("2024-01-01"),
+    pdfUrl: "",
+    embedding: embedding ? JSON.stringify(embedding) : null,
+  };
+}
+
+describe("findNearestPapers", () => {
+  it("ranks same-model papers by cosine similarity", async () => {
+    const candidates = [
+      dbPaper("orthogonal", [0, 1]),
+      dbPaper("opposite", [-1, 0]),
+      dbPaper("close", [0.9, 0.1]),
+      dbPaper("scaled", [10, 0]),
+      dbPaper("missing"),
+    ];
+    const findMany = vi.mocked(prisma.paper.findMany) as unknown as ReturnType<typeof vi.fn>;
+    findMany.mockImplementation(async (args: { where: { id: { in?: string[] } } }) => {
+      const ids = args.where.id.in;
+      return ids ? candidates.filter((c) => ids.includes(c.id)) : candidates;
+    });
+
+    const papers = await findNearestPapers([1, 0], "model", 3, ["query"]);
+
+    expect(findMany.mock.calls[0][0].where).toEqual({
+      embeddingModel: "model",
+      id: { notIn: ["query"] },
+    });
+    // Cosine ignores magnitude, so a scaled copy of the query ranks first
+    expect(papers.map((p) => p.id)).toEqual(["scaled", "close", "orthogonal"]);
+    expect(papers[0].similarity).toBeCloseTo(1);
+    expect(papers[1].similarity).toBeCloseTo(0.9 / Math.sqrt(0.82));
+    expect(papers[2].similarity).toBeCloseTo(0);
+  });
+});
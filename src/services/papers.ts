@@ -1,8 +1,24 @@
 import { prisma } from "@/lib/prisma";
-import { Paper as PrismaPaper } from "@prisma/client";
-import { ArxivPaper, Paper, PaperSummary, PaperFigure, SelectedFigure, DeepSummary } from "@/types";
+import { getEquivalentCodes } from "@/lib/taxonomy";
+import { normalizeAuthorName } from "@/lib/authors";
+import { diffWords, splitArxivId } from "@/lib/versions";
+import { Paper as PrismaPaper, Prisma } from "@prisma/client";
+import {
+  ArxivPaper,
+  Paper,
+  PaperSummary,
+  PaperFigure,
+  SelectedFigure,
+  DeepSummary,
+  SavedSort,
+  SavedPaperEntry,
+  SeenPaperEntry,
+  SimilarPaper,
+  PaperVersion,
+  AbstractDiffPart,
+} from "@/types";
 
-function toPaper(dbPaper: PrismaPaper): Paper {
+export function toPaper(dbPaper: PrismaPaper): Paper {
   return {
     id: dbPaper.id,
     arxivId: dbPaper.arxivId,
@@ -10,8 +26,18 @@ function toPaper(dbPaper: PrismaPaper): Paper {
     authors: JSON.parse(dbPaper.authors) as string[],
     abstract: dbPaper.abstract,
     categories: JSON.parse(dbPaper.categories) as string[],
+    primaryCategory: dbPaper.primaryCategory ?? undefined,
     publishedDate: dbPaper.publishedDate,
+    updatedDate: dbPaper.updatedDate ?? undefined,
     pdfUrl: dbPaper.pdfUrl,
+    comment: dbPaper.comment ?? undefined,
+    journalRef: dbPaper.journalRef ?? undefined,
+    doi: dbPaper.doi ?? undefined,
+    affiliations: dbPaper.affiliations
+      ? (JSON.parse(dbPaper.affiliations) as string[][])
+      : undefined,
+    version: dbPaper.version,
+    versionUpdatedAt: dbPaper.versionUpdatedAt,
     hook: dbPaper.hook,
     keyConcepts: dbPaper.keyConcepts
       ? (JSON.parse(dbPaper.keyConcepts) as string[])
@@ -21,6 +47,7 @@ function toPaper(dbPaper: PrismaPaper): Paper {
     deepSummary: dbPaper.deepSummary
       ? (JSON.parse(dbPaper.deepSummary) as DeepSummary)
       : null,
+    deepSummaryStale: dbPaper.deepSummaryStale,
     figures: dbPaper.figures
       ? (JSON.parse(dbPaper.figures) as PaperFigure[])
       : null,
@@ -33,36 +60,213 @@ function toPaper(dbPaper: PrismaPaper): Paper {
   };
 }
 
-export async function upsertPaper(arxivPaper: ArxivPaper): Promise<Paper> {
-  const dbPaper = await prisma.paper.upsert({
-    where: { arxivId: arxivPaper.arxivId },
-    update: {
-      title: arxivPaper.title,
-      authors: JSON.stringify(arxivPaper.authors),
-      abstract: arxivPaper.abstract,
-      categories: JSON.stringify(arxivPaper.categories),
-      publishedDate: arxivPaper.publishedDate,
-      pdfUrl: arxivPaper.pdfUrl,
-    },
-    create: {
-      arxivId: arxivPaper.arxivId,
-      title: arxivPaper.title,
-      authors: JSON.stringify(arxivPaper.authors),
-      abstract: arxivPaper.abstract,
-      categories: JSON.stringify(arxivPaper.categories),
-      publishedDate: arxivPaper.publishedDate,
-      pdfUrl: arxivPaper.pdfUrl,
-    },
-  });
+function arxivFields(arxivPaper: ArxivPaper) {
+  return {
+    title: arxivPaper.title,
+    authors: JSON.stringify(arxivPaper.authors),
+    abstract: arxivPaper.abstract,
+    categories: JSON.stringify(arxivPaper.categories),
+    publishedDate: arxivPaper.publishedDate,
+    pdfUrl: arxivPaper.pdfUrl,
+    // Left as stored when a source doesn't provide them
+    primaryCategory: arxivPaper.primaryCategory,
+    updatedDate: arxivPaper.updatedDate,
+    comment: arxivPaper.comment,
+    journalRef: arxivPaper.journalRef,
+    doi: arxivPaper.doi,
+    affiliations: arxivPaper.affiliations ? JSON.stringify(arxivPaper.affiliations) : undefined,
+  };
+}
+
+// Sources wrap abstracts differently, so only the words are compared
+function sameAbstract(a: string, b: string): boolean {
+  return a.split(/\s+/).join(" ").trim() === b.split(/\s+/).join(" ").trim();
+}
+
+// Generated content that no longer matches a changed abstract. The quick
+// summary is cheap to regenerate, so it's dropped; the deep summary is kept
+// (highlights may point into it) but flagged for regeneration.
+function staleContent(dbPaper: PrismaPaper) {
+  return {
+    hook: null,
+    keyConcepts: null,
+    summary: null,
+    whyMatters: null,
+    deepSummaryStale: dbPaper.deepSummary !== null,
+    embedding: null,
+    embeddingModel: null,
+  };
+}
+
+/**
+ * Store a paper under its canonical ID. A newer version updates the stored
+ * record and adds to its version history; an older one is ignored.
+ */
+async function upsertPaperRecord(arxivPaper: ArxivPaper): Promise<Paper> {
+  const { baseId: arxivId, version: idVersion } = splitArxivId(arxivPaper.arxivId);
+  const version = arxivPaper.version ?? idVersion;
+  const fields = arxivFields(arxivPaper);
+
+  const existing = await prisma.paper.findUnique({ where: { arxivId } });
+  if (!existing) {
+    // Upsert in case a concurrent request stored it in the meantime
+    const dbPaper = await prisma.paper.upsert({
+      where: { arxivId },
+      update: {},
+      create: { arxivId, ...fields, version: version ?? 1 },
+    });
+    return toPaper(dbPaper);
+  }
 
+  if (version && version < existing.version) {
+    return toPaper(existing);
+  }
+
+  const abstractChanged = !sameAbstract(existing.abstract, arxivPaper.abstract);
+  const update = {
+    ...fields,
+    ...(abstractChanged ? staleContent(existing) : {}),
+  };
+
+  if (!version || version === existing.version) {
+    const dbPaper = await prisma.paper.update({ where: { id: existing.id }, data: update });
+    return toPaper(dbPaper);
+  }
+
+  const abstractDiff = abstractChanged
+    ? JSON.stringify(diffWords(existing.abstract, arxivPaper.abstract))
+    : null;
+  const [, , dbPaper] = await prisma.$transaction([
+    // The version stored until now starts the history if it isn't in it yet
+    prisma.paperVersion.upsert({
+      where: { paperId_version: { paperId: existing.id, version: existing.version } },
+      update: {},
+      create: {
+        paperId: existing.id,
+        version: existing.version,
+        submittedAt: existing.version === 1 ? existing.publishedDate : null,
+        abstract: existing.abstract,
+      },
+    }),
+    prisma.paperVersion.upsert({
+      where: { paperId_version: { paperId: existing.id, version } },
+      update: {},
+      create: {
+        paperId: existing.id,
+        version,
+        submittedAt: arxivPaper.updatedDate ?? null,
+        comment: arxivPaper.comment ?? null,
+        abstract: arxivPaper.abstract,
+        abstractDiff,
+      },
+    }),
+    prisma.paper.update({
+      where: { id: existing.id },
+      data: { ...update, version, versionUpdatedAt: new Date() },
+    }),
+  ]);
   return toPaper(dbPaper);
 }
 
+export async function upsertPaper(arxivPaper: ArxivPaper): Promise<Paper> {
+  const paper = await upsertPaperRecord(arxivPaper);
+  await syncPaperAuthors([paper]);
+  return paper;
+}
+
 export async function upsertPapers(arxivPapers: ArxivPaper[]): Promise<Paper[]> {
-  const results = await Promise.all(arxivPapers.map(upsertPaper));
+  const results = await Promise.all(arxivPapers.map(upsertPaperRecord));
+  // Linked in one pass so papers sharing a new author don't race to create it
+  await syncPaperAuthors(results);
   return results;
 }
 
+// Distinct authors of a paper in order, keyed by normalized name
+function paperAuthorKeys(paper: Paper): { name: string; normalizedName: string }[] {
+  const byKey = new Map<string, string>();
+  for (const name of paper.authors) {
+    const normalizedName = normalizeAuthorName(name);
+    if (normalizedName && !byKey.has(normalizedName)) {
+      byKey.set(normalizedName, name.trim());
+    }
+  }
+  return Array.from(byKey, ([normalizedName, name]) => ({ name, normalizedName }));
+}
+
+/**
+ * Link papers to Author rows matching their author lists, creating authors
+ * as needed. Papers whose links are already up to date are left alone.
+ */
+export async function syncPaperAuthors(papers: Paper[]): Promise<void> {
+  if (papers.length === 0) {
+    return;
+  }
+
+  const links = await prisma.paperAuthor.findMany({
+    where: { paperId: { in: papers.map((p) => p.id) } },
+    select: { paperId: true, author: { select: { normalizedName: true } } },
+    orderBy: { position: "asc" },
+  });
+  const linked = new Map<string, string[]>();
+  for (const link of links) {
+    linked.set(link.paperId, [...(linked.get(link.paperId) ?? []), link.author.normalizedName]);
+  }
+
+  const stale = papers
+    .map((paper) => ({ paper, keys: paperAuthorKeys(paper) }))
+    .filter(
+      ({ paper, keys }) =>
+        (linked.get(paper.id) ?? []).join("\n") !== keys.map((k) => k.normalizedName).join("\n")
+    );
+  if (stale.length === 0) {
+    return;
+  }
+
+  const names = new Map(stale.flatMap(({ keys }) => keys.map((k) => [k.normalizedName, k.name])));
+  const authors = await prisma.$transaction(
+    Array.from(names, ([normalizedName, name]) =>
+      prisma.author.upsert({
+        where: { normalizedName },
+        update: {},
+        create: { name, normalizedName },
+        select: { id: true, normalizedName: true },
+      })
+    )
+  );
+  const authorIds = new Map(authors.map((a) => [a.normalizedName, a.id]));
+
+  await prisma.$transaction([
+    prisma.paperAuthor.deleteMany({
+      where: { paperId: { in: stale.map(({ paper }) => paper.id) } },
+    }),
+    prisma.paperAuthor.createMany({
+      data: stale.flatMap(({ paper, keys }) =>
+        keys.map((k, position) => ({
+          paperId: paper.id,
+          authorId: authorIds.get(k.normalizedName)!,
+          position,
+        }))
+      ),
+    }),
+  ]);
+}
+
+// Papers stored before authors were normalized, in ID order from after `afterId`
+export async function getPapersWithoutAuthors(
+  limit: number,
+  afterId?: string
+): Promise<Paper[]> {
+  const papers = await prisma.paper.findMany({
+    where: {
+      authorLinks: { none: {} },
+      ...(afterId ? { id: { gt: afterId } } : {}),
+    },
+    orderBy: { id: "asc" },
+    take: limit,
+  });
+  return papers.map(toPaper);
+}
+
 export async function getPaperById(id: string): Promise<Paper | null> {
   const dbPaper = await prisma.paper.findUnique({
     where: { id },
@@ -70,13 +274,111 @@ export async function getPaperById(id: string): Promise<Paper | null> {
   return dbPaper ? toPaper(dbPaper) : null;
 }
 
+// Accepts versioned IDs too; every version maps to the same stored paper
 export async function getPaperByArxivId(arxivId: string): Promise<Paper | null> {
   const dbPaper = await prisma.paper.findUnique({
-    where: { arxivId },
+    where: { arxivId: splitArxivId(arxivId).baseId },
   });
   return dbPaper ? toPaper(dbPaper) : null;
 }
 
+/**
+ * Version history, newest first. Papers that never got a second version have
+ * no recorded history, so their single version is described from the paper.
+ */
+export async function getPaperVersions(paper: Paper): Promise<PaperVersion[]> {
+  const versions = await prisma.paperVersion.findMany({
+    where: { paperId: paper.id },
+    orderBy: { version: "desc" },
+  });
+
+  if (versions.length === 0) {
+    return [
+      {
+        version: paper.version,
+        submittedAt: paper.version === 1 ? paper.publishedDate : null,
+        comment: null,
+        abstractDiff: null,
+        recordedAt: paper.createdAt,
+      },
+    ];
+  }
+  return versions.map((v) => ({
+    version: v.version,
+    submittedAt: v.submittedAt,
+    comment: v.comment,
+    abstractDiff: v.abstractDiff ? (JSON.parse(v.abstractDiff) as AbstractDiffPart[]) : null,
+    recordedAt: v.createdAt,
+  }));
+}
+
+// Tables whose rows belong to a paper, with the columns that make a row unique
+// per paper (null where a paper can have any number of rows)
+const PAPER_RELATIONS: [table: string, uniqueWith: string | null][] = [
+  ["SavedPaper", "userId"],
+  ["SeenPaper", "userId"],
+  ["CollectionPaper", "collectionId"],
+  ["SubscriptionPaper", "subscriptionId"],
+  ["Note", null],
+  ["Highlight", null],
+  ["ChatThread", null],
+];
+
+/**
+ * Papers used to be stored under versioned IDs, so each version of a paper
+ * got its own row. Rename them to canonical IDs, merging the rows of one
+ * paper into the newest version's along with everything users attached to
+ * them. Returns how many rows were merged away.
+ */
+export async function canonicalizePaperIds(): Promise<number> {
+  const candidates = await prisma.paper.findMany({
+    where: { arxivId: { contains: "v" } },
+    select: { id: true, arxivId: true },
+  });
+  const versioned = candidates
+    .map((p) => ({ id: p.id, ...splitArxivId(p.arxivId) }))
+    .filter((p): p is { id: string; baseId: string; version: number } => p.version !== null);
+  if (versioned.length === 0) {
+    return 0;
+  }
+
+  const canonical = await prisma.paper.findMany({
+    where: { arxivId: { in: versioned.map((p) => p.baseId) } },
+    select: { id: true, arxivId: true, version: true },
+  });
+  const groups = new Map<string, { id: string; version: number }[]>();
+  for (const p of [...canonical.map((c) => ({ ...c, baseId: c.arxivId })), ...versioned]) {
+    groups.set(p.baseId, [...(groups.get(p.baseId) ?? []), { id: p.id, version: p.version }]);
+  }
+
+  let merged = 0;
+  for (const [baseId, rows] of groups) {
+    const [keep, ...duplicates] = rows.sort((a, b) => b.version - a.version);
+    await prisma.$transaction(async (tx) => {
+      for (const duplicate of duplicates) {
+        for (const [table, uniqueWith] of PAPER_RELATIONS) {
+          // Rows the kept paper already has an equivalent of are dropped
+          await tx.$executeRawUnsafe(
+            `UPDATE OR IGNORE "${table}" SET paperId = ? WHERE paperId = ?`,
+            keep.id,
+            duplicate.id
+          );
+          if (uniqueWith) {
+            await tx.$executeRawUnsafe(`DELETE FROM "${table}" WHERE paperId = ?`, duplicate.id);
+          }
+        }
+        await tx.paper.delete({ where: { id: duplicate.id } });
+      }
+      await tx.paper.update({
+        where: { id: keep.id },
+        data: { arxivId: baseId, version: keep.version },
+      });
+    });
+    merged += duplicates.length;
+  }
+  return merged;
+}
+
 export async function updatePaperSummary(
   id: string,
   summary: PaperSummary
@@ -94,21 +396,18 @@ export async function updatePaperSummary(
 }
 
 export async function getFeedPapers(
+  userId: string,
+  categories: string[],
   cursor?: string,
   limit: number = 10,
   excludeSeen: boolean = true
 ): Promise<{ papers: Paper[]; nextCursor?: string }> {
-  // Get IDs of seen papers to exclude
-  const seenIds = excludeSeen ? await getSeenPaperIds() : [];
-
   const papers = await prisma.paper.findMany({
     take: limit + 1,
     cursor: cursor ? { id: cursor } : undefined,
     orderBy: { publishedDate: "desc" },
     skip: cursor ? 1 : 0,
-    where: excludeSeen && seenIds.length > 0
-      ? { id: { notIn: seenIds } }
-      : undefined,
+    where: feedFilter(userId, categories, excludeSeen),
   });
 
   const hasMore = papers.length > limit;
@@ -121,31 +420,178 @@ export async function getFeedPapers(
   };
 }
 
-export async function savePaper(paperId: string): Promise<void> {
+// The newest unseen feed papers, for re-ranking in personal mode
+export async function getFeedCandidates(
+  userId: string,
+  categories: string[],
+  limit: number
+): Promise<Paper[]> {
+  const papers = await prisma.paper.findMany({
+    take: limit,
+    orderBy: { publishedDate: "desc" },
+    where: feedFilter(userId, categories, true),
+  });
+  return papers.map(toPaper);
+}
+
+// Papers the user saved or explicitly discarded, most recent first
+export async function getRankingSignals(
+  userId: string,
+  limit: number = 200
+): Promise<{ saved: Paper[]; discarded: Paper[] }> {
+  const [saved, discarded] = await Promise.all([
+    prisma.savedPaper.findMany({
+      where: { userId },
+      include: { paper: true },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    }),
+    prisma.seenPaper.findMany({
+      where: { userId, discarded: true },
+      include: { paper: true },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    }),
+  ]);
+
+  return {
+    saved: saved.map((s) => toPaper(s.paper)),
+    discarded: discarded.map((s) => toPaper(s.paper)),
+  };
+}
+
+function feedFilter(
+  userId: string,
+  categories: string[],
+  excludeSeen: boolean
+): Prisma.PaperWhereInput {
+  const where: Prisma.PaperWhereInput[] = [];
+  if (categories.length > 0) {
+    // Papers by followed authors show up whatever their category
+    where.push({
+      OR: [
+        categoryFilter(categories),
+        { authorLinks: { some: { author: { followers: { some: { userId } } } } } },
+      ],
+    });
+  }
+  if (excludeSeen) {
+    where.push({ seenBy: { none: { userId } } });
+  }
+  return { AND: where };
+}
+
+export async function savePaper(userId: string, paperId: string): Promise<void> {
   await prisma.savedPaper.upsert({
-    where: { paperId },
+    where: { userId_paperId: { userId, paperId } },
     update: {},
-    create: { paperId },
+    create: { userId, paperId },
   });
 }
 
-export async function unsavePaper(paperId: string): Promise<void> {
+export async function unsavePaper(userId: string, paperId: string): Promise<void> {
   await prisma.savedPaper.deleteMany({
-    where: { paperId },
+    where: { userId, paperId },
+  });
+}
+
+// Matches papers in any of the categories, including under alias codes.
+// Categories are stored as a JSON array string, so match the quoted code
+function categoryFilter(categories: string[]): Prisma.PaperWhereInput {
+  return {
+    OR: categories.flatMap(getEquivalentCodes).map((cat) => ({
+      categories: { contains: JSON.stringify(cat) },
+    })),
+  };
+}
+
+function savedPaperOrder(
+  sort: SavedSort
+): Prisma.SavedPaperOrderByWithRelationInput[] {
+  switch (sort) {
+    case "publishedDate":
+      return [{ paper: { publishedDate: "desc" } }, { id: "asc" }];
+    case "title":
+      return [{ paper: { title: "asc" } }, { id: "asc" }];
+    default:
+      return [{ createdAt: "desc" }, { id: "asc" }];
+  }
+}
+
+export async function getSavedPapers(
+  userId: string,
+  options: {
+    cursor?: string;
+    limit?: number;
+    sort?: SavedSort;
+    categories?: string[];
+  } = {}
+): Promise<{ papers: SavedPaperEntry[]; nextCursor?: string; total: number }> {
+  const { cursor, limit = 20, sort = "savedAt", categories = [] } = options;
+  const where: Prisma.SavedPaperWhereInput =
+    categories.length > 0 ? { userId, paper: categoryFilter(categories) } : { userId };
+
+  const [saved, total] = await Promise.all([
+    prisma.savedPaper.findMany({
+      where,
+      include: { paper: true },
+      orderBy: savedPaperOrder(sort),
+      take: limit + 1,
+      cursor: cursor ? { id: cursor } : undefined,
+      skip: cursor ? 1 : 0,
+    }),
+    prisma.savedPaper.count({ where }),
+  ]);
+
+  const hasMore = saved.length > limit;
+  const page = hasMore ? saved.slice(0, limit) : saved;
+  const nextCursor = hasMore ? page[page.length - 1].id : undefined;
+
+  return {
+    papers: page.map((s) => ({ ...toPaper(s.paper), savedAt: s.createdAt })),
+    nextCursor,
+    total,
+  };
+}
+
+export async function getPapersByIds(ids: string[]): Promise<Paper[]> {
+  const dbPapers = await prisma.paper.findMany({
+    where: { id: { in: ids } },
   });
+  // Keep the order the IDs were requested in
+  const byId = new Map(dbPapers.map((p) => [p.id, toPaper(p)]));
+  return ids.flatMap((id) => byId.get(id) ?? []);
 }
 
-export async function getSavedPapers(): Promise<Paper[]> {
+export async function getAllSavedPapers(userId: string): Promise<Paper[]> {
   const saved = await prisma.savedPaper.findMany({
+    where: { userId },
     include: { paper: true },
     orderBy: { createdAt: "desc" },
   });
   return saved.map((s) => toPaper(s.paper));
 }
 
-export async function isPaperSaved(paperId: string): Promise<boolean> {
+export async function getSavedCategoryCounts(
+  userId: string
+): Promise<Record<string, number>> {
+  const saved = await prisma.savedPaper.findMany({
+    where: { userId },
+    select: { paper: { select: { categories: true } } },
+  });
+
+  const counts: Record<string, number> = {};
+  for (const s of saved) {
+    for (const cat of JSON.parse(s.paper.categories) as string[]) {
+      counts[cat] = (counts[cat] || 0) + 1;
+    }
+  }
+  return counts;
+}
+
+export async function isPaperSaved(userId: string, paperId: string): Promise<boolean> {
   const saved = await prisma.savedPaper.findUnique({
-    where: { paperId },
+    where: { userId_paperId: { userId, paperId } },
   });
   return !!saved;
 }
@@ -175,50 +621,157 @@ export async function updatePaperDeepSummary(
     where: { id },
     data: {
       deepSummary: JSON.stringify(deepSummary),
+      deepSummaryStale: false,
     },
   });
   return toPaper(dbPaper);
 }
 
-export async function markPaperAsSeen(paperId: string): Promise<void> {
-  await prisma.seenPaper.upsert({
-    where: { paperId },
-    update: {},
-    create: { paperId, discarded: false },
+export async function markPapersAsSeen(
+  userId: string,
+  paperIds: string[]
+): Promise<number> {
+  // Ignore ids that don't belong to a stored paper instead of failing the whole batch
+  const existing = await prisma.paper.findMany({
+    where: { id: { in: paperIds } },
+    select: { id: true },
   });
+
+  await prisma.$transaction(
+    existing.map(({ id }) =>
+      prisma.seenPaper.upsert({
+        where: { userId_paperId: { userId, paperId: id } },
+        update: {},
+        create: { userId, paperId: id, discarded: false },
+      })
+    )
+  );
+  return existing.length;
 }
 
-export async function markPaperAsDiscarded(paperId: string): Promise<void> {
+export async function markPaperAsDiscarded(userId: string, paperId: string): Promise<void> {
   await prisma.seenPaper.upsert({
-    where: { paperId },
+    where: { userId_paperId: { userId, paperId } },
     update: { discarded: true },
-    create: { paperId, discarded: true },
+    create: { userId, paperId, discarded: true },
   });
 }
 
-export async function unmarkPaperAsSeen(paperId: string): Promise<void> {
+export async function unmarkPaperAsSeen(userId: string, paperId: string): Promise<void> {
   await prisma.seenPaper.deleteMany({
-    where: { paperId },
+    where: { userId, paperId },
   });
 }
 
-export async function isPaperSeen(paperId: string): Promise<boolean> {
+export async function isPaperDiscarded(userId: string, paperId: string): Promise<boolean> {
   const seen = await prisma.seenPaper.findUnique({
-    where: { paperId },
+    where: { userId_paperId: { userId, paperId } },
   });
-  return !!seen;
+  return seen?.discarded ?? false;
 }
 
-export async function isPaperDiscarded(paperId: string): Promise<boolean> {
-  const seen = await prisma.seenPaper.findUnique({
-    where: { paperId },
+export async function getSeenHistory(
+  userId: string,
+  cursor?: string,
+  limit: number = 20
+): Promise<{ papers: SeenPaperEntry[]; nextCursor?: string }> {
+  const seen = await prisma.seenPaper.findMany({
+    where: { userId },
+    include: { paper: true },
+    orderBy: [{ createdAt: "desc" }, { id: "asc" }],
+    take: limit + 1,
+    cursor: cursor ? { id: cursor } : undefined,
+    skip: cursor ? 1 : 0,
   });
-  return seen?.discarded ?? false;
+
+  const hasMore = seen.length > limit;
+  const page = hasMore ? seen.slice(0, limit) : seen;
+  const nextCursor = hasMore ? page[page.length - 1].id : undefined;
+
+  return {
+    papers: page.map((s) => ({
+      ...toPaper(s.paper),
+      seenAt: s.createdAt,
+      discarded: s.discarded,
+    })),
+    nextCursor,
+  };
 }
 
-export async function getSeenPaperIds(): Promise<string[]> {
-  const seen = await prisma.seenPaper.findMany({
-    select: { paperId: true },
+export async function updatePaperEmbedding(
+  id: string,
+  model: string,
+  vector: number[]
+): Promise<void> {
+  await prisma.paper.update({
+    where: { id },
+    data: { embedding: JSON.stringify(vector), embeddingModel: model },
+  });
+}
+
+export async function getPaperEmbedding(
+  id: string
+): Promise<{ model: string; vector: number[] } | null> {
+  const paper = await prisma.paper.findUnique({
+    where: { id },
+    select: { embedding: true, embeddingModel: true },
+  });
+  if (!paper?.embedding || !paper.embeddingModel) {
+    return null;
+  }
+  return { model: paper.embeddingModel, vector: JSON.parse(paper.embedding) };
+}
+
+// Papers with no embedding yet, or one from a different model
+export async function getPapersWithoutEmbedding(
+  model: string,
+  limit: number
+): Promise<Paper[]> {
+  const papers = await prisma.paper.findMany({
+    where: { OR: [{ embeddingModel: null }, { embeddingModel: { not: model } }] },
+    orderBy: { publishedDate: "desc" },
+    take: limit,
   });
-  return seen.map((s) => s.paperId);
+  return papers.map(toPaper);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Nearest neighbours of a vector among papers embedded with the same model.
+ * A brute-force scan, which is fine at the size of a SQLite paper store.
+ */
+export async function findNearestPapers(
+  vector: number[],
+  model: string,
+  limit: number = 10,
+  excludeIds: string[] = []
+): Promise<SimilarPaper[]> {
+  const candidates = await prisma.paper.findMany({
+    where: { embeddingModel: model, id: { notIn: excludeIds } },
+    select: { id: true, embedding: true },
+  });
+
+  const nearest = candidates
+    .filter((c) => c.embedding)
+    .map((c) => ({
+      id: c.id,
+      similarity: cosineSimilarity(vector, JSON.parse(c.embedding!) as number[]),
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+
+  const similarity = new Map(nearest.map((n) => [n.id, n.similarity]));
+  const papers = await getPapersByIds(nearest.map((n) => n.id));
+  return papers.map((paper) => ({ ...paper, similarity: similarity.get(paper.id)! }));
 }
@@ -0,0 +1,35 @@
+import { prisma } from "@/lib/prisma";
+import { DEFAULT_CATEGORIES, UserPreferences } from "@/types";
+
+export async function getPreferences(userId: string): Promise<UserPreferences> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { feedCategories: true, feedRank: true, recencyWeight: true },
+  });
+
+  return {
+    feedCategories: user?.feedCategories
+      ? JSON.parse(user.feedCategories)
+      : DEFAULT_CATEGORIES,
+    feedRank: user?.feedRank === "personal" ? "personal" : "chronological",
+    recencyWeight: user?.recencyWeight ?? 0.3,
+  };
+}
+
+export async function updatePreferences(
+  userId: string,
+  preferences: Partial<UserPreferences>
+): Promise<UserPreferences> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      feedCategories:
+        preferences.feedCategories !== undefined
+          ? JSON.stringify(preferences.feedCategories)
+          : undefined,
+      feedRank: preferences.feedRank,
+      recencyWeight: preferences.recencyWeight,
+    },
+  });
+  return getPreferences(userId);
+}
@@ -0,0 +1,314 @@
+import { getFeedCandidates, getRankingSignals } from "@/services/papers";
+import { getFollowedAuthorNames } from "@/services/authors";
+import { getCategoryLabel, getPrimaryCategory, resolveCategory } from "@/lib/taxonomy";
+import { normalizeAuthorName } from "@/lib/authors";
+import { Paper, RankedPaper } from "@/types";
+
+// How many of the newest unseen papers are re-ranked in personal mode
+const CANDIDATE_POOL_SIZE = 300;
+
+// Recency score halves every week
+const RECENCY_HALF_LIFE_DAYS = 7;
+
+// Relative weight of each signal within the relevance score
+const SIGNAL_WEIGHTS = {
+  category: 0.4,
+  author: 0.3,
+  concept: 0.3,
+};
+
+// How much more a paper's primary category counts than each cross-list
+const PRIMARY_CATEGORY_WEIGHT = 2;
+
+// Added to the relevance of papers by an author the user follows
+const FOLLOWED_AUTHOR_BOOST = 0.5;
+
+interface FeatureCounts {
+  saved: number;
+  discarded: number;
+}
+
+/**
+ * What a user's save/discard history says about their interests: how often
+ * each category, author and key concept appeared in saved vs discarded papers,
+ * plus the authors they explicitly follow (by normalized name).
+ */
+export interface UserProfile {
+  categories: Map<string, FeatureCounts>;
+  authors: Map<string, FeatureCounts>;
+  concepts: Map<string, FeatureCounts>;
+  followedAuthors: Set<string>;
+  savedCount: number;
+  discardedCount: number;
+}
+
+interface SignalMatch {
+  feature: string;
+  affinity: number;
+  counts: FeatureCounts;
+}
+
+function count(map: Map<string, FeatureCounts>, key: string, field: keyof FeatureCounts) {
+  const counts = map.get(key) || { saved: 0, discarded: 0 };
+  counts[field]++;
+  map.set(key, counts);
+}
+
+function normalizeConcept(concept: string): string {
+  return concept.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+export function buildUserProfile(
+  saved: Paper[],
+  discarded: Paper[],
+  followedAuthors: string[] = []
+): UserProfile {
+  const profile: UserProfile = {
+    categories: new Map(),
+    authors: new Map(),
+    concepts: new Map(),
+    followedAuthors: new Set(followedAuthors),
+    savedCount: saved.length,
+    discardedCount: discarded.length,
+  };
+
+  const add = (paper: Paper, field: keyof FeatureCounts) => {
+    for (const category of new Set(paper.categories.map((c) => resolveCategory(c) ?? c))) {
+      count(profile.categories, category, field);
+    }
+    // By normalized name, so spelling variants of an author count together
+    for (const author of new Set(paper.authors.map(normalizeAuthorName))) {
+      count(profile.authors, author, field);
+    }
+    for (const concept of paper.keyConcepts || []) {
+      count(profile.concepts, normalizeConcept(concept), field);
+    }
+  };
+
+  saved.forEach((p) => add(p, "saved"));
+  discarded.forEach((p) => add(p, "discarded"));
+  return profile;
+}
+
+// Smoothed preference for a feature in [-1, 1]; a single save or discard
+// counts for less than a repeated pattern
+function affinity(counts: FeatureCounts): number {
+  return (counts.saved - counts.discarded) / (counts.saved + counts.discarded + 1);
+}
+
+// `key` maps a feature to how the map stores it
+function matchFeatures(
+  features: string[],
+  map: Map<string, FeatureCounts>,
+  key: (feature: string) => string = (feature) => feature
+): SignalMatch[] {
+  return features.flatMap((feature) => {
+    const counts = map.get(key(feature));
+    return counts ? [{ feature, affinity: affinity(counts), counts }] : [];
+  });
+}
+
+// Concepts from the profile that this paper shares. Papers that have not been
+// summarized yet have no keyConcepts, so fall back to the title and abstract.
+function matchConcepts(paper: Paper, profile: UserProfile): SignalMatch[] {
+  if (paper.keyConcepts?.length) {
+    return matchFeatures(paper.keyConcepts.map(normalizeConcept), profile.concepts);
+  }
+
+  const text = `${paper.title} ${paper.abstract}`.toLowerCase();
+  return matchFeatures(
+    Array.from(profile.concepts.keys()).filter((c) => c.length > 3 && text.includes(c)),
+    profile.concepts
+  );
+}
+
+function strongest(matches: SignalMatch[]): SignalMatch | undefined {
+  return matches.reduce<SignalMatch | undefined>(
+    (best, m) => (!best || Math.abs(m.affinity) > Math.abs(best.affinity) ? m : best),
+    undefined
+  );
+}
+
+// Average affinity over all features, weighted; features without a match count as 0
+function weightedAverage(
+  matches: SignalMatch[],
+  features: string[],
+  weight: (feature: string) => number
+): number {
+  const total = features.reduce((sum, f) => sum + weight(f), 0);
+  if (total === 0) {
+    return 0;
+  }
+  return matches.reduce((sum, m) => sum + m.affinity * weight(m.feature), 0) / total;
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+function describeRecency(ageDays: number): string {
+  if (ageDays < 1) return "published today";
+  if (ageDays < 2) return "published yesterday";
+  return `published ${Math.floor(ageDays)} days ago`;
+}
+
+/**
+ * Score a paper for a user. Relevance (category, author and concept affinity)
+ * and recency are each in [0, 1] and mixed by `recencyWeight`.
+ */
+export function scorePaper(
+  paper: Paper,
+  profile: UserProfile,
+  recencyWeight: number,
+  now: Date = new Date()
+): { score: number; explanation: string } {
+  const categories = Array.from(
+    new Set(paper.categories.map((c) => resolveCategory(c) ?? c))
+  );
+  const categoryMatches = matchFeatures(categories, profile.categories);
+  const primaryCategory = getPrimaryCategory(paper);
+  const primary = primaryCategory ? resolveCategory(primaryCategory) ?? primaryCategory : null;
+  const categoryWeight = (c: string) => (c === primary ? PRIMARY_CATEGORY_WEIGHT : 1);
+  const authorMatches = matchFeatures(paper.authors, profile.authors, normalizeAuthorName);
+  const conceptMatches = matchConcepts(paper, profile);
+
+  const topAuthor = strongest(authorMatches);
+  const topConcept = strongest(conceptMatches);
+  const followedAuthor = paper.authors.find((a) =>
+    profile.followedAuthors.has(normalizeAuthorName(a))
+  );
+
+  // Categories average over all of the paper's categories so one familiar
+  // cross-list doesn't dominate, with the primary category weighted up; a
+  // single known author or concept is enough.
+  const relevance = Math.min(
+    1,
+    SIGNAL_WEIGHTS.category * weightedAverage(categoryMatches, categories, categoryWeight) +
+      SIGNAL_WEIGHTS.author * (topAuthor?.affinity ?? 0) +
+      SIGNAL_WEIGHTS.concept * (topConcept?.affinity ?? 0) +
+      (followedAuthor ? FOLLOWED_AUTHOR_BOOST : 0)
+  );
+
+  const ageMs = now.getTime() - new Date(paper.publishedDate).getTime();
+  const ageDays = Math.max(0, ageMs / 86_400_000);
+  const recency = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+
+  const score = (1 - recencyWeight) * ((relevance + 1) / 2) + recencyWeight * recency;
+
+  const reasons: string[] = [];
+  if (followedAuthor) {
+    reasons.push(`by ${followedAuthor}, whom you follow`);
+  }
+  const topCategory = strongest(categoryMatches);
+  if (topCategory && topCategory.affinity > 0) {
+    const label = getCategoryLabel(topCategory.feature);
+    reasons.push(`you saved ${plural(topCategory.counts.saved, "paper")} in ${label}`);
+  }
+  if (topAuthor && topAuthor.affinity > 0 && topAuthor.feature !== followedAuthor) {
+    reasons.push(`by ${topAuthor.feature}, whose work you saved before`);
+  }
+  if (topConcept && topConcept.affinity > 0) {
+    reasons.push(`covers "${topConcept.feature}" from papers you saved`);
+  }
+  const penalties: string[] = [];
+  if (topCategory && topCategory.affinity < 0) {
+    const label = getCategoryLabel(topCategory.feature);
+    penalties.push(`${plural(topCategory.counts.discarded, "paper")} in ${label}`);
+  }
+  if (topAuthor && topAuthor.affinity < 0) {
+    penalties.push(`papers by ${topAuthor.feature}`);
+  }
+  if (penalties.length > 0) {
+    reasons.push(`ranked lower: you discarded ${penalties.join(" and ")}`);
+  }
+
+  const explanation =
+    reasons.length > 0
+      ? `${reasons.join("; ")} (${describeRecency(ageDays)})`
+      : profile.savedCount + profile.discardedCount === 0
+        ? `Save or discard papers to personalize your feed (${describeRecency(ageDays)})`
+        : `No strong match with your history, ${describeRecency(ageDays)}`;
+
+  return {
+    score,
+    explanation: explanation.charAt(0).toUpperCase() + explanation.slice(1),
+  };
+}
+
+export function rankPapers(
+  papers: Paper[],
+  profile: UserProfile,
+  recencyWeight: number,
+  now: Date = new Date()
+): RankedPaper[] {
+  return papers
+    .map((paper) => {
+      const { score, explanation } = scorePaper(paper, profile, recencyWeight, now);
+      return { ...paper, rankScore: score, rankExplanation: explanation };
+    })
+    .sort((a, b) => b.rankScore - a.rankScore || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
+
+// Keyset cursor for the ranked feed: ranking time, then the score and ID of
+// the last paper returned. Reusing the ranking time keeps recency scores
+// stable across pages, and papers seen in the meantime simply drop out
+// instead of shifting later pages the way an offset would.
+function encodeRankCursor(rankedAt: Date, paper: RankedPaper): string {
+  return `${rankedAt.getTime()}:${paper.rankScore}:${paper.id}`;
+}
+
+function decodeRankCursor(
+  cursor: string
+): { rankedAt: Date; score: number; id: string } | null {
+  const [time, score, id] = cursor.split(":");
+  if (!id || !Number.isFinite(Number(time)) || !Number.isFinite(Number(score))) {
+    return null;
+  }
+  return { rankedAt: new Date(Number(time)), score: Number(score), id };
+}
+
+// Chronological feed cursors are bare paper IDs, which never contain a colon
+export function isRankCursor(cursor: string): boolean {
+  return decodeRankCursor(cursor) !== null;
+}
+
+/**
+ * Personal feed page: the newest unseen papers re-ranked against the user's
+ * save/discard history.
+ */
+export async function getPersonalFeedPapers(
+  userId: string,
+  categories: string[],
+  recencyWeight: number,
+  cursor?: string,
+  limit: number = 10
+): Promise<{ papers: RankedPaper[]; nextCursor?: string }> {
+  const [candidates, { saved, discarded }, followedAuthors] = await Promise.all([
+    getFeedCandidates(userId, categories, CANDIDATE_POOL_SIZE),
+    getRankingSignals(userId),
+    getFollowedAuthorNames(userId),
+  ]);
+
+  const after = cursor ? decodeRankCursor(cursor) : null;
+  const rankedAt = after?.rankedAt ?? new Date();
+  const ranked = rankPapers(
+    candidates,
+    buildUserProfile(saved, discarded, followedAuthors),
+    recencyWeight,
+    rankedAt
+  );
+
+  const remaining = after
+    ? ranked.filter(
+        (p) => p.rankScore < after.score || (p.rankScore === after.score && p.id > after.id)
+      )
+    : ranked;
+
+  const hasMore = remaining.length > limit;
+  const papers = remaining.slice(0, limit);
+
+  return {
+    papers,
+    nextCursor: hasMore ? encodeRankCursor(rankedAt, papers[papers.length - 1]) : undefined,
+  };
+}
@@ -0,0 +1,324 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getEquivalentCodes } from "@/lib/taxonomy";
+import { searchTokens } from "@/lib/searchFilters";
+import { getPapersByIds } from "@/services/papers";
+import {
+  Paper,
+  SearchField,
+  SearchFilters,
+  SearchResult,
+  SearchTerm,
+  SnippetPart,
+} from "@/types";
+
+// JSON arrays are flattened to their values and skipped if malformed
+function jsonList(column: string): string {
+  return `CASE WHEN json_valid(p.${column}) THEN (SELECT group_concat(value, ', ') FROM json_each(p.${column})) END`;
+}
+
+// Every string anywhere in the deep summary object
+const DEEP_SUMMARY_TEXT = `CASE WHEN json_valid(p.deepSummary) THEN (SELECT group_concat(value, ' ') FROM json_tree(p.deepSummary) WHERE type = 'text') END`;
+
+// publishedDate as epoch milliseconds, whether SQLite holds it as a number or as date text
+const PUBLISHED_AT_MS = `CASE WHEN typeof(p.publishedDate) IN ('integer', 'real') THEN p.publishedDate ELSE CAST(strftime('%s', p.publishedDate) AS INTEGER) * 1000 END`;
+
+// Index columns, the Paper values they hold and their bm25 weights.
+// indexedAt records the Paper.updatedAt that was indexed.
+const SEARCH_COLUMNS = [
+  { name: "paperId", value: "p.id", weight: 0, unindexed: true },
+  { name: "indexedAt", value: "p.updatedAt", weight: 0, unindexed: true },
+  { name: "publishedAt", value: PUBLISHED_AT_MS, weight: 0, unindexed: true },
+  { name: "title", value: "p.title", weight: 10 },
+  { name: "authors", value: jsonList("authors"), weight: 5 },
+  { name: "abstract", value: "p.abstract", weight: 3 },
+  { name: "categories", value: jsonList("categories"), weight: 0 },
+  { name: "hook", value: "p.hook", weight: 4 },
+  { name: "summary", value: "p.summary", weight: 2 },
+  { name: "keyConcepts", value: jsonList("keyConcepts"), weight: 4 },
+  { name: "deepSummary", value: DEEP_SUMMARY_TEXT, weight: 1 },
+];
+
+// Columns a search field matches; "all" covers the text columns
+const FIELD_COLUMNS: Record<SearchField, string> = {
+  all: "{title authors abstract hook summary keyConcepts deepSummary}",
+  ti: "title",
+  au: "authors",
+  abs: "abstract",
+};
+
+// Snippet markers; control characters can't occur in arXiv metadata
+const MATCH_START = "\u0001";
+const MATCH_END = "\u0002";
+
+// Reciprocal rank fusion constant: higher values flatten rank differences
+const RRF_K = 60;
+
+const DAY_MS = 86_400_000;
+
+// The FTS5 table isn't part of the Prisma schema, so it is created on first
+// use (and rebuilt when its columns change). It is not kept in sync by
+// triggers: `prisma db push` doesn't know about it, and a trigger left pointing
+// at a dropped table would break every Paper write. Instead each search first
+// re-indexes papers that changed.
+const CREATE_INDEX = `CREATE VIRTUAL TABLE IF NOT EXISTS PaperSearch USING fts5(
+  ${SEARCH_COLUMNS.map((c) => (c.unindexed ? `${c.name} UNINDEXED` : c.name)).join(", ")},
+  tokenize = 'porter unicode61 remove_diacritics 2'
+)`;
+
+const SYNC_STATEMENTS = [
+  // Drop entries for deleted or updated papers
+  `DELETE FROM PaperSearch WHERE rowid IN (
+    SELECT s.rowid FROM PaperSearch s LEFT JOIN Paper p ON p.id = s.paperId
+    WHERE p.id IS NULL OR p.updatedAt IS NOT s.indexedAt
+  )`,
+  // Index new and updated papers
+  `INSERT INTO PaperSearch (${SEARCH_COLUMNS.map((c) => c.name).join(", ")})
+  SELECT ${SEARCH_COLUMNS.map((c) => c.value).join(", ")}
+  FROM Paper p
+  WHERE p.id NOT IN (SELECT paperId FROM PaperSearch)`,
+];
+
+async function createSearchIndex(): Promise<void> {
+  const existing = await prisma.$queryRawUnsafe<{ name: string }[]>(
+    "SELECT name FROM pragma_table_info('PaperSearch')"
+  );
+  const columns = existing.map((c) => c.name).join(",");
+  if (columns && columns !== SEARCH_COLUMNS.map((c) => c.name).join(",")) {
+    await prisma.$executeRawUnsafe("DROP TABLE PaperSearch");
+  }
+  await prisma.$executeRawUnsafe(CREATE_INDEX);
+}
+
+let indexCreated: Promise<void> | null = null;
+
+export async function syncSearchIndex(): Promise<void> {
+  if (!indexCreated) {
+    indexCreated = createSearchIndex().catch((error) => {
+      indexCreated = null;
+      throw error;
+    });
+  }
+  await indexCreated;
+
+  await prisma.$transaction(
+    SYNC_STATEMENTS.map((statement) => prisma.$executeRawUnsafe(statement))
+  );
+}
+
+// Every token is quoted, so user input can't inject FTS5 syntax
+function formatMatchTerm(term: SearchTerm, joinTokens: "AND" | "OR"): string | null {
+  const tokens = searchTokens(term).map((token) => `"${token}"`);
+  if (tokens.length === 0) {
+    return null;
+  }
+  return `${FIELD_COLUMNS[term.field]} : (${tokens.join(` ${joinTokens} `)})`;
+}
+
+/**
+ * FTS5 expressions for filters: what to match, and what to exclude. Like the
+ * arXiv query, terms combine left to right and leading excluding terms apply
+ * to everything else. Dates are filtered in SQL.
+ */
+function buildMatchExpressions(
+  filters: SearchFilters,
+  joinTokens: "AND" | "OR"
+): { match: string | null; exclude: string | null } {
+  let expression: string | null = null;
+  const exclusions: string[] = [];
+
+  for (const term of filters.terms) {
+    const formatted = formatMatchTerm(term, joinTokens);
+    if (!formatted) continue;
+
+    if (expression === null) {
+      if (term.operator === "ANDNOT") {
+        exclusions.push(formatted);
+      } else {
+        expression = formatted;
+      }
+    } else {
+      const operator = term.operator === "ANDNOT" ? "NOT" : term.operator;
+      expression = `(${expression} ${operator} ${formatted})`;
+    }
+  }
+
+  const categories = filters.categories.flatMap(getEquivalentCodes);
+  if (categories.length > 0) {
+    const categoryMatch = `categories : (${categories.map((c) => `"${c}"`).join(" OR ")})`;
+    expression = expression ? `${expression} AND ${categoryMatch}` : categoryMatch;
+  }
+
+  return {
+    match: expression,
+    exclude: exclusions.length > 0 ? exclusions.join(" OR ") : null,
+  };
+}
+
+function parseSnippet(snippet: string | null): SnippetPart[] | undefined {
+  if (!snippet) {
+    return undefined;
+  }
+
+  const parts: SnippetPart[] = [];
+  for (const chunk of snippet.split(MATCH_START)) {
+    const [matched, rest] = chunk.includes(MATCH_END) ? chunk.split(MATCH_END) : [null, chunk];
+    if (matched) parts.push({ text: matched, match: true });
+    if (rest) parts.push({ text: rest, match: false });
+  }
+  return parts;
+}
+
+interface SearchRow {
+  paperId: string;
+  snippet: string | null;
+}
+
+// FROM/WHERE shared by the count and page queries, or null when the filters
+// only exclude
+function searchSource(
+  filters: SearchFilters,
+  joinTokens: "AND" | "OR",
+  userId: string | undefined
+): { sql: Prisma.Sql; match: string | null } | null {
+  const { match, exclude } = buildMatchExpressions(filters, joinTokens);
+  if (!match && !filters.dateFrom && !filters.dateTo) {
+    return null;
+  }
+
+  const conditions: Prisma.Sql[] = [];
+  if (match) {
+    conditions.push(Prisma.sql`PaperSearch MATCH ${match}`);
+  }
+  if (exclude) {
+    conditions.push(
+      Prisma.sql`s.rowid NOT IN (SELECT rowid FROM PaperSearch WHERE PaperSearch MATCH ${exclude})`
+    );
+  }
+  if (filters.dateFrom) {
+    conditions.push(Prisma.sql`s.publishedAt >= ${Date.parse(filters.dateFrom)}`);
+  }
+  if (filters.dateTo) {
+    conditions.push(Prisma.sql`s.publishedAt < ${Date.parse(filters.dateTo) + DAY_MS}`);
+  }
+
+  const librarySql = userId
+    ? Prisma.sql`JOIN SavedPaper sp ON sp.paperId = s.paperId AND sp.userId = ${userId}`
+    : Prisma.empty;
+
+  return {
+    sql: Prisma.sql`FROM PaperSearch s ${librarySql} WHERE ${Prisma.join(conditions, " AND ")}`,
+    match,
+  };
+}
+
+async function countMatches(
+  filters: SearchFilters,
+  joinTokens: "AND" | "OR",
+  userId: string | undefined
+): Promise<number> {
+  const source = searchSource(filters, joinTokens, userId);
+  if (!source) {
+    return 0;
+  }
+  const [{ total }] = await prisma.$queryRaw<{ total: bigint | number }[]>`
+    SELECT COUNT(*) AS total ${source.sql}
+  `;
+  return Number(total);
+}
+
+async function findMatches(
+  filters: SearchFilters,
+  joinTokens: "AND" | "OR",
+  userId: string | undefined,
+  limit: number,
+  offset: number
+): Promise<SearchRow[]> {
+  const source = searchSource(filters, joinTokens, userId);
+  if (!source) {
+    return [];
+  }
+
+  const weights = Prisma.raw(SEARCH_COLUMNS.map((c) => c.weight).join(", "));
+  // Without text to match (e.g. only a date range), newest papers come first
+  return prisma.$queryRaw<SearchRow[]>`
+    SELECT s.paperId AS paperId,
+      ${source.match ? Prisma.sql`snippet(PaperSearch, -1, ${MATCH_START}, ${MATCH_END}, '…', 16)` : Prisma.sql`NULL`} AS snippet
+    ${source.sql}
+    ORDER BY ${source.match ? Prisma.sql`bm25(PaperSearch, ${weights}), s.paperId` : Prisma.sql`s.publishedAt DESC, s.paperId`}
+    LIMIT ${limit} OFFSET ${offset}
+  `;
+}
+
+/**
+ * Full-text search over stored papers: metadata plus any AI summaries and
+ * deep summaries. Pass `userId` to only search that user's saved papers.
+ * A single multi-word term first needs every word to match; if nothing does,
+ * papers matching any word are ranked instead.
+ */
+export async function searchLocalPapers(
+  filters: SearchFilters,
+  options: { userId?: string; limit?: number; offset?: number } = {}
+): Promise<{ papers: SearchResult[]; total: number }> {
+  await syncSearchIndex();
+
+  let joinTokens: "AND" | "OR" = "AND";
+  let total = await countMatches(filters, joinTokens, options.userId);
+  if (
+    total === 0 &&
+    filters.terms.length === 1 &&
+    searchTokens(filters.terms[0]).length > 1
+  ) {
+    joinTokens = "OR";
+    total = await countMatches(filters, joinTokens, options.userId);
+  }
+
+  const rows =
+    total > 0
+      ? await findMatches(
+          filters,
+          joinTokens,
+          options.userId,
+          options.limit ?? 20,
+          options.offset ?? 0
+        )
+      : [];
+
+  const snippets = new Map(rows.map((r) => [r.paperId, parseSnippet(r.snippet)]));
+  const papers = await getPapersByIds(rows.map((r) => r.paperId));
+  return {
+    papers: papers.map((paper) => ({
+      ...paper,
+      source: "local",
+      snippet: snippets.get(paper.id),
+    })),
+    total,
+  };
+}
+
+/**
+ * Merge one page of local and arXiv hits with reciprocal rank fusion, so
+ * papers both sources agree on rise to the top. Local snippets are kept for
+ * merged papers.
+ */
+export function mergeSearchResults(local: SearchResult[], remote: Paper[]): SearchResult[] {
+  const merged = new Map<string, { result: SearchResult; score: number }>();
+
+  local.forEach((result, rank) => {
+    merged.set(result.id, { result, score: 1 / (RRF_K + rank + 1) });
+  });
+  remote.forEach((paper, rank) => {
+    const score = 1 / (RRF_K + rank + 1);
+    const existing = merged.get(paper.id);
+    if (existing) {
+      existing.result = { ...paper, source: "both", snippet: existing.result.snippet };
+      existing.score += score;
+    } else {
+      merged.set(paper.id, { result: { ...paper, source: "arxiv" }, score });
+    }
+  });
+
+  return Array.from(merged.values())
+    .sort((a, b) => b.score - a.score)
+    .map((m) => m.result);
+}
@@ -0,0 +1,227 @@
+import { prisma } from "@/lib/prisma";
+import { getEnv } from "@/lib/env";
+import { Subscription as PrismaSubscription } from "@prisma/client";
+import { Paper, SearchFilters, Subscription } from "@/types";
+import { searchArxiv } from "@/services/arxiv";
+import { ArxivRequestOptions } from "@/services/arxivClient";
+import { toPaper, upsertPapers } from "@/services/papers";
+import { registerJob } from "@/services/jobs";
+
+// Newest matches fetched per refresh; enough to cover an hour of any topic
+const REFRESH_BATCH_SIZE = 50;
+
+const DEFAULT_REFRESH_MINUTES = 60;
+
+type SubscriptionWithCount = PrismaSubscription & { _count: { papers: number } };
+
+function toSubscription(
+  dbSubscription: SubscriptionWithCount,
+  unreadCount: number
+): Subscription {
+  return {
+    id: dbSubscription.id,
+    name: dbSubscription.name,
+    query: dbSubscription.query,
+    filters: JSON.parse(dbSubscription.filters) as SearchFilters,
+    explanation: dbSubscription.explanation,
+    paperCount: dbSubscription._count.papers,
+    unreadCount,
+    lastCheckedAt: dbSubscription.lastCheckedAt,
+    createdAt: dbSubscription.createdAt,
+    updatedAt: dbSubscription.updatedAt,
+  };
+}
+
+const withPaperCount = { _count: { select: { papers: true } } } as const;
+
+// Matched papers the user hasn't seen in any feed yet, per subscription
+async function getUnreadCounts(
+  userId: string,
+  subscriptionIds: string[]
+): Promise<Map<string, number>> {
+  const counts = await prisma.subscriptionPaper.groupBy({
+    by: ["subscriptionId"],
+    where: {
+      subscriptionId: { in: subscriptionIds },
+      paper: { seenBy: { none: { userId } } },
+    },
+    _count: { _all: true },
+  });
+  return new Map(counts.map((c) => [c.subscriptionId, c._count._all]));
+}
+
+export async function listSubscriptions(userId: string): Promise<Subscription[]> {
+  const subscriptions = await prisma.subscription.findMany({
+    where: { userId },
+    include: withPaperCount,
+    orderBy: { createdAt: "desc" },
+  });
+  const unread = await getUnreadCounts(
+    userId,
+    subscriptions.map((s) => s.id)
+  );
+  return subscriptions.map((s) => toSubscription(s, unread.get(s.id) ?? 0));
+}
+
+// Only returns the subscription if it belongs to the given user
+export async function getSubscription(
+  userId: string,
+  id: string
+): Promise<Subscription | null> {
+  const subscription = await prisma.subscription.findFirst({
+    where: { id, userId },
+    include: withPaperCount,
+  });
+  if (!subscription) {
+    return null;
+  }
+  const unread = await getUnreadCounts(userId, [id]);
+  return toSubscription(subscription, unread.get(id) ?? 0);
+}
+
+export async function createSubscription(
+  userId: string,
+  data: { name: string; query: string; filters: SearchFilters; explanation?: string | null }
+): Promise<Subscription> {
+  const subscription = await prisma.subscription.create({
+    data: {
+      userId,
+      name: data.name,
+      query: data.query,
+      filters: JSON.stringify(data.filters),
+      explanation: data.explanation || null,
+    },
+    include: withPaperCount,
+  });
+  return toSubscription(subscription, 0);
+}
+
+export async function renameSubscription(
+  userId: string,
+  id: string,
+  name: string
+): Promise<Subscription | null> {
+  await prisma.subscription.updateMany({
+    where: { id, userId },
+    data: { name },
+  });
+  return getSubscription(userId, id);
+}
+
+export async function deleteSubscription(userId: string, id: string): Promise<void> {
+  await prisma.subscription.deleteMany({
+    where: { id, userId },
+  });
+}
+
+export async function getSubscriptionPapers(
+  subscriptionId: string,
+  cursor?: string,
+  limit: number = 20
+): Promise<{ papers: Paper[]; nextCursor?: string }> {
+  const entries = await prisma.subscriptionPaper.findMany({
+    where: { subscriptionId },
+    include: { paper: true },
+    orderBy: [{ paper: { publishedDate: "desc" } }, { id: "asc" }],
+    take: limit + 1,
+    cursor: cursor ? { id: cursor } : undefined,
+    skip: cursor ? 1 : 0,
+  });
+
+  const hasMore = entries.length > limit;
+  const page = hasMore ? entries.slice(0, limit) : entries;
+  const nextCursor = hasMore ? page[page.length - 1].id : undefined;
+
+  return {
+    papers: page.map((e) => toPaper(e.paper)),
+    nextCursor,
+  };
+}
+
+/**
+ * Search arXiv for the newest papers matching a subscription and add any that
+ * weren't matched before to its feed. Returns how many were new.
+ */
+export async function refreshSubscription(
+  subscriptionId: string,
+  options: ArxivRequestOptions = {}
+): Promise<number> {
+  const subscription = await prisma.subscription.findUniqueOrThrow({
+    where: { id: subscriptionId },
+  });
+  const filters = JSON.parse(subscription.filters) as SearchFilters;
+
+  const { papers: arxivPapers } = await searchArxiv(
+    filters,
+    REFRESH_BATCH_SIZE,
+    "submittedDate",
+    0,
+    options
+  );
+  const papers = await upsertPapers(arxivPapers);
+
+  const existing = await prisma.subscriptionPaper.findMany({
+    where: { subscriptionId, paperId: { in: papers.map((p) => p.id) } },
+    select: { paperId: true },
+  });
+  const existingIds = new Set(existing.map((e) => e.paperId));
+  const newPapers = papers.filter((p) => !existingIds.has(p.id));
+
+  await prisma.$transaction([
+    prisma.subscriptionPaper.createMany({
+      data: newPapers.map((p) => ({ subscriptionId, paperId: p.id })),
+    }),
+    prisma.subscription.update({
+      where: { id: subscriptionId },
+      data: { lastCheckedAt: new Date() },
+    }),
+  ]);
+
+  return newPapers.length;
+}
+
+function getRefreshIntervalMs(): number {
+  const minutes = parseFloat(getEnv("SUBSCRIPTION_REFRESH_MINUTES") || "");
+  return (Number.isFinite(minutes) ? minutes : DEFAULT_REFRESH_MINUTES) * 60_000;
+}
+
+/**
+ * Refresh every subscription that hasn't been checked within the refresh
+ * interval, one at a time; the arXiv client spaces out the requests.
+ */
+export async function refreshDueSubscriptions(): Promise<void> {
+  const due = await prisma.subscription.findMany({
+    where: {
+      OR: [
+        { lastCheckedAt: null },
+        { lastCheckedAt: { lt: new Date(Date.now() - getRefreshIntervalMs()) } },
+      ],
+    },
+    select: { id: true, name: true },
+    orderBy: { lastCheckedAt: "asc" },
+  });
+
+  for (const subscription of due) {
+    try {
+      const added = await refreshSubscription(subscription.id);
+      console.log(`[Subscriptions] "${subscription.name}": ${added} new papers`);
+    } catch (error) {
+      console.error(`[Subscriptions] Failed to refresh "${subscription.name}":`, error);
+    }
+  }
+}
+
+/**
+ * Re-run due subscriptions in the background for as long as the server runs.
+ * SUBSCRIPTION_REFRESH_MINUTES sets the interval; 0 turns it off.
+ */
+export function startSubscriptionRefresh(): void {
+  const intervalMs = getRefreshIntervalMs();
+  if (intervalMs <= 0) {
+    return;
+  }
+
+  // Check a few times per interval so a subscription is never much later
+  // than its interval
+  registerJob("subscriptions", Math.max(intervalMs / 4, 60_000), refreshDueSubscriptions);
+}
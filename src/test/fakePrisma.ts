@@ -0,0 +1,155 @@
+/**
+ * An in-memory stand-in for the parts of the Prisma client that paper
+ * storage, ingestion and accounts use, so they can be tested without a
+ * database.
+ * Covers equality, `in`, `gt` and `not` filters; relations are only joined
+ * where paper authors need them.
+ */
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+
+let nextId = 0;
+
+function matches(row: Row, where: Where = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    const value = row[key];
+    if (condition === null || typeof condition !== "object" || condition instanceof Date) {
+      return value instanceof Date && condition instanceof Date
+        ? value.getTime() === condition.getTime()
+        : value === condition;
+    }
+    // Compound unique keys such as { paperId_version: { paperId, version } }
+    if (key.includes("_") && !(key in row)) {
+      return matches(row, condition as Where);
+    }
+    const filter = condition as { in?: unknown[]; gt?: string | number; not?: unknown };
+    if (filter.in && !filter.in.includes(value)) return false;
+    if (filter.gt !== undefined && !((value as string | number) > filter.gt)) return false;
+    if ("not" in filter && value === filter.not) return false;
+    return true;
+  });
+}
+
+function defined(data: Row): Row {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+}
+
+function table(rows: Row[], defaults: () => Row = () => ({})) {
+  const create = (data: Row) => {
+    const row = { id: `fake-${++nextId}`, createdAt: new Date(), ...defaults(), ...defined(data) };
+    rows.push(row);
+    return row;
+  };
+  const find = (where?: Where) => rows.find((row) => matches(row, where)) ?? null;
+
+  return {
+    rows,
+    async findUnique({ where }: { where: Where }) {
+      return find(where);
+    },
+    async findUniqueOrThrow({ where }: { where: Where }) {
+      const row = find(where);
+      if (!row) throw new Error("No record found");
+      return row;
+    },
+    async findFirst({ where }: { where?: Where } = {}) {
+      return find(where);
+    },
+    async findMany({ where, take }: { where?: Where; take?: number } = {}) {
+      return rows.filter((row) => matches(row, where)).slice(0, take);
+    },
+    async count({ where }: { where?: Where } = {}) {
+      return rows.filter((row) => matches(row, where)).length;
+    },
+    async create({ data }: { data: Row }) {
+      return create(data);
+    },
+    async createMany({ data }: { data: Row[] }) {
+      data.forEach(create);
+      return { count: data.length };
+    },
+    async update({ where, data }: { where: Where; data: Row }) {
+      const row = find(where);
+      if (!row) throw new Error("Record to update not found");
+      return Object.assign(row, defined(data), { updatedAt: new Date() });
+    },
+    async updateMany({ where, data }: { where?: Where; data: Row }) {
+      const matched = rows.filter((row) => matches(row, where));
+      matched.forEach((row) => Object.assign(row, defined(data)));
+      return { count: matched.length };
+    },
+    async upsert({ where, update, create: data }: { where: Where; update: Row; create: Row }) {
+      const row = find(where);
+      return row ? Object.assign(row, defined(update)) : create(data);
+    },
+    async deleteMany({ where }: { where?: Where } = {}) {
+      const kept = rows.filter((row) => !matches(row, where));
+      const count = rows.length - kept.length;
+      rows.splice(0, rows.length, ...kept);
+      return { count };
+    },
+  };
+}
+
+export function createFakePrisma() {
+  const papers = table([], () => ({
+    version: 1,
+    updatedAt: new Date(),
+    deepSummary: null,
+    primaryCategory: null,
+    updatedDate: null,
+    comment: null,
+    journalRef: null,
+    doi: null,
+    affiliations: null,
+    versionUpdatedAt: null,
+    hook: null,
+    keyConcepts: null,
+    summary: null,
+    whyMatters: null,
+    deepSummaryStale: false,
+    figures: null,
+    selectedFigure: null,
+    figuresError: null,
+    embedding: null,
+    embeddingModel: null,
+  }));
+  const authors = table([]);
+  const paperAuthors = table([]);
+
+  return {
+    paper: papers,
+    paperVersion: table([]),
+    author: authors,
+    paperAuthor: {
+      ...paperAuthors,
+      // Ordered by position, with the author's normalized name joined in
+      async findMany({ where }: { where?: Where } = {}) {
+        return paperAuthors.rows
+          .filter((row) => matches(row, where))
+          .sort((a, b) => (a.position as number) - (b.position as number))
+          .map((row) => ({ ...row, author: authors.rows.find((a) => a.id === row.authorId) }));
+      },
+    },
+    user: table([], () => ({
+      name: null,
+      passwordHash: null,
+      provider: "local",
+      providerId: null,
+      updatedAt: new Date(),
+    })),
+    ingestionRun: table([], () => ({
+      status: "running",
+      error: null,
+      lastSeenAt: null,
+      startedAt: new Date(),
+      finishedAt: null,
+    })),
+    // Operations run as they are built, so a batch is just all of them
+    async $transaction<T>(operations: Promise<T>[]): Promise<T[]> {
+      return Promise.all(operations);
+    },
+  };
+}
+
+export type FakePrisma = ReturnType<typeof createFakePrisma>;
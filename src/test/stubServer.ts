@@ -0,0 +1,39 @@
+import { createServer } from "http";
+import { AddressInfo } from "net";
+
+export interface StubResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: string;
+}
+
+export interface StubServer {
+  url: string; // Base URL, without a trailing slash
+  requests: URL[]; // Every request received, in order
+  close(): Promise<void>;
+}
+
+/**
+ * Serve canned responses from a local HTTP server on a free port, standing in
+ * for arXiv when replaying recorded responses. `respond` picks the response
+ * for each request.
+ */
+export async function startStubServer(respond: (url: URL) => StubResponse): Promise<StubServer> {
+  const requests: URL[] = [];
+  const server = createServer((request, response) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    requests.push(url);
+    const { status = 200, headers = {}, body } = respond(url);
+    response.writeHead(status, { "Content-Type": "text/xml; charset=utf-8", ...headers });
+    response.end(body);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
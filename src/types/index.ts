@@ -6,6 +6,13 @@ export interface ArxivPaper {
   categories: string[];
   publishedDate: Date;
   pdfUrl: string;
+  version?: number; // Latest version, when the source reports it
+  updatedDate?: Date; // When the latest version was submitted
+  comment?: string; // Author comment on the latest version, e.g. "12 pages, 5 figures"
+  primaryCategory?: string; // Main category; the others in categories are cross-lists
+  journalRef?: string; // Where it was published, e.g. "NeurIPS 2024"
+  doi?: string;
+  affiliations?: string[][]; // Per author, in the order of authors
 }
 
 export interface PaperSummary {
@@ -32,6 +39,29 @@ export interface FigureAnalysis {
   significance: string;
 }
 
+// A top-level section of a paper's body, e.g. { id: "S3", title: "3 Method" }
+export interface PaperSection {
+  id: string;
+  title: string;
+  text: string;
+}
+
+export type FullTextSource = "ar5iv" | "pdf";
+
+// A sentence quoted from the paper in support of a deep dive claim
+export interface EvidenceSpan {
+  quote: string;
+  sectionId?: string; // Body section the quote is from ("S3"), or "abstract"
+  figureIndex?: number; // Set instead when the quote is from a figure caption
+}
+
+// What a deep summary was written from, and which sections back each claim
+export interface DeepSummaryGrounding {
+  source: FullTextSource | "abstract";
+  sections: Pick<PaperSection, "id" | "title">[]; // Sections given to the model, in paper order
+  claimSections: Record<string, string[]>; // Field path, e.g. "contributions.0", to section ids
+}
+
 export interface DeepSummary {
   category: string; // Type of paper: novel architecture, benchmark study, theoretical, etc.
   problem: string; // Problem addressed and why it matters
@@ -43,15 +73,20 @@ export interface DeepSummary {
   limitations: string[]; // Weaknesses, missing experiments, questionable assumptions
   implications: string; // Future research directions and real-world impact
   figureAnalysis: FigureAnalysis[]; // Analysis of key figures
+  grounding?: DeepSummaryGrounding; // Missing on summaries written before grounding
+  evidence?: Record<string, EvidenceSpan[]>; // By claim path, e.g. "evaluation"; missing before citations
 }
 
 export interface Paper extends ArxivPaper {
   id: string;
+  version: number;
+  versionUpdatedAt: Date | null; // When a newer version than the one first stored arrived
   hook?: string | null;
   keyConcepts?: string[] | null;
   summary?: string | null;
   whyMatters?: string | null;
   deepSummary?: DeepSummary | null;
+  deepSummaryStale: boolean; // The abstract changed since the deep summary was written
   figures?: PaperFigure[] | null;
   selectedFigure?: SelectedFigure | null;
   figuresError?: string | null;
@@ -59,19 +94,251 @@ export interface Paper extends ArxivPaper {
   updatedAt: Date;
 }
 
+// A run of words in an abstract diff: unchanged (null), removed or added
+export interface AbstractDiffPart {
+  change: "added" | "removed" | null;
+  text: string;
+}
+
+export interface PaperVersion {
+  version: number;
+  submittedAt: Date | null;
+  comment: string | null;
+  abstractDiff: AbstractDiffPart[] | null; // Against the previous version; null if unchanged or first
+  recordedAt: Date;
+}
+
+export interface SimilarPaper extends Paper {
+  similarity: number; // Cosine similarity to the query paper, 1 = identical
+}
+
+// arXiv query fields: all fields, title, author, abstract
+export type SearchField = "all" | "ti" | "au" | "abs";
+export type SearchOperator = "AND" | "OR" | "ANDNOT";
+
+export interface SearchTerm {
+  field: SearchField;
+  value: string;
+  operator: SearchOperator; // How this term joins the terms before it; ignored on the first
+}
+
+export interface SearchFilters {
+  terms: SearchTerm[];
+  categories: string[]; // Any of these
+  dateFrom?: string; // YYYY-MM-DD, inclusive
+  dateTo?: string; // YYYY-MM-DD, inclusive
+}
+
 export interface SearchQuery {
-  searchQuery: string;
-  categories: string[];
+  filters: SearchFilters;
   sortBy: "relevance" | "submittedDate";
   explanation: string;
 }
 
-export interface FeedResponse {
+// Where a search looks: the user's saved papers, every stored paper, or the
+// arXiv API (merged with stored matches)
+export type SearchScope = "library" | "stored" | "arxiv";
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult extends Paper {
+  source: "local" | "arxiv" | "both";
+  snippet?: SnippetPart[]; // Best matching passage from local full-text search
+}
+
+// What a search page is fetched with. Later pages reuse the filters the first
+// page was interpreted into, so results stay consistent and the AI runs once.
+export interface SearchRequest {
+  filters: SearchFilters;
+  sortBy: SearchQuery["sortBy"];
+  scope: SearchScope;
+}
+
+export interface SearchResponse extends SearchRequest {
+  papers: SearchResult[];
+  total: number;
+  interpretation?: { explanation: string };
+  nextCursor?: string;
+  hasMore: boolean;
+}
+
+export interface User {
+  id: string;
+  email: string;
+  name?: string | null;
+  provider: string;
+}
+
+export type FeedRank = "personal" | "chronological";
+
+export interface UserPreferences {
+  feedCategories: string[];
+  feedRank: FeedRank;
+  recencyWeight: number; // 0 = pure relevance, 1 = pure recency (personal ranking only)
+}
+
+export interface RankedPaper extends Paper {
+  rankScore: number;
+  rankExplanation: string;
+}
+
+export type SavedSort = "savedAt" | "publishedDate" | "title";
+
+export interface SavedPaperEntry extends Paper {
+  savedAt: Date;
+}
+
+export interface SavedPapersResponse {
+  papers: SavedPaperEntry[];
+  nextCursor?: string;
+  hasMore: boolean;
+  total: number;
+  categoryCounts: Record<string, number>;
+}
+
+export interface SeenPaperEntry extends Paper {
+  seenAt: Date;
+  discarded: boolean;
+}
+
+export interface SeenHistoryResponse {
+  papers: SeenPaperEntry[];
+  nextCursor?: string;
+  hasMore: boolean;
+}
+
+export interface Collection {
+  id: string;
+  name: string;
+  description?: string | null;
+  paperCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CollectionMembership {
+  collectionId: string;
+  note?: string | null;
+  addedAt: Date;
+}
+
+export interface CollectionPaperEntry extends Paper {
+  note?: string | null;
+  addedAt: Date;
+}
+
+export interface CollectionPapersResponse {
+  collection: Collection;
+  papers: CollectionPaperEntry[];
+  nextCursor?: string;
+  hasMore: boolean;
+}
+
+export interface Subscription {
+  id: string;
+  name: string;
+  query: string;
+  filters: SearchFilters; // Interpreted once when saved, re-run as is
+  explanation?: string | null;
+  paperCount: number;
+  unreadCount: number; // Matches the user hasn't seen yet
+  lastCheckedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SubscriptionPapersResponse extends FeedPage {
+  subscription: Subscription;
+}
+
+export type IngestionStatus = "running" | "succeeded" | "failed";
+
+export type IngestionSource = "api" | "oai";
+
+export interface IngestionRun {
+  id: string;
+  source: IngestionSource;
+  categories: string[]; // Polled through the query API
+  set: string | null; // Harvested through OAI-PMH
+  from: string | null;
+  until: string | null;
+  status: IngestionStatus;
+  pagesFetched: number;
+  papersFetched: number;
+  papersCreated: number; // Papers that weren't stored before
+  error: string | null;
+  lastSeenAt: Date | null; // Newest submission (API) or record datestamp (OAI-PMH) seen
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+export interface Author {
+  id: string;
+  name: string; // As first seen on a paper
+  paperCount: number; // Stored papers by this author
+  isFollowed: boolean;
+}
+
+export interface AuthorPapersResponse extends FeedPage {
+  author: Author;
+}
+
+export interface Note {
+  id: string;
+  paperId: string;
+  body: string; // Markdown
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface NoteSearchResult extends Note {
+  paper: Pick<Paper, "id" | "arxivId" | "title">;
+}
+
+export interface Highlight {
+  id: string;
+  paperId: string;
+  field: string; // "abstract" or a DeepSummary path, e.g. "deepSummary.contributions.0"
+  start: number;
+  end: number;
+  text: string;
+  createdAt: Date;
+}
+
+export type ChatRole = "user" | "assistant";
+
+export interface ChatMessage {
+  id: string;
+  role: ChatRole;
+  content: string; // Markdown
+  createdAt: Date;
+}
+
+// A conversation about one paper, with its messages oldest first
+export interface ChatThread {
+  id: string;
+  paperId: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One page of any paginated paper list shown in a ScrollFeed
+export interface FeedPage {
   papers: Paper[];
   nextCursor?: string;
   hasMore: boolean;
 }
 
+export interface FeedResponse extends FeedPage {
+  papers: (Paper | RankedPaper)[];
+  rank: FeedRank;
+}
+
 export const DEFAULT_CATEGORIES = [
   "cs.AI",
   "cs.LG",
@@ -79,14 +346,3 @@ export const DEFAULT_CATEGORIES = [
   "cs.CV",
   "stat.ML",
 ];
-
-export const CATEGORY_LABELS: Record<string, string> = {
-  "cs.AI": "AI",
-  "cs.LG": "Machine Learning",
-  "cs.CL": "NLP",
-  "cs.CV": "Computer Vision",
-  "stat.ML": "Statistics ML",
-  "cs.NE": "Neural/Evolutionary",
-  "cs.RO": "Robotics",
-  "cs.HC": "Human-Computer",
-};